@@ -24,7 +24,7 @@ module.exports = {
     'html'
   ],
   setupFilesAfterEnv: [],
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1'
   },
   testTimeout: 10000,
@@ -0,0 +1,116 @@
+const optionalEnv = (name: string): string | undefined => {
+  const value = process.env[name]?.trim();
+  return value !== undefined && value !== '' ? value : undefined;
+};
+
+const listEnv = (name: string): string[] =>
+  (optionalEnv(name) ?? '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item !== '');
+
+// "name:value,name:value" pairs, e.g. THREAT_INTEL_WEIGHTS=blocklists:3,dns-reputation:0.5
+const weightsEnv = (name: string): Record<string, number> => {
+  const weights: Record<string, number> = {};
+  for (const item of listEnv(name)) {
+    const [key = '', value] = item.split(':');
+    const weight = Number(value);
+    if (key !== '' && Number.isFinite(weight) && weight >= 0) {
+      weights[key] = weight;
+    }
+  }
+  return weights;
+};
+
+const numberEnv = (name: string, fallback: number): number => {
+  const value = Number(optionalEnv(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Runtime configuration for local data sources.
+ * Every path is optional - when a dataset is not configured the built-in fallback is used.
+ */
+export const config = {
+  geo: {
+    // MaxMind GeoLite2-City / GeoIP2-City database (.mmdb)
+    cityDatabasePath: optionalEnv('GEOIP_CITY_DB'),
+    // MaxMind GeoLite2-ASN / GeoIP2-ASN database (.mmdb)
+    asnDatabasePath: optionalEnv('GEOIP_ASN_DB'),
+    // Database compiled from GeoLite2 / DB-IP CSV files by `pnpm geo:build`
+    compiledDatabasePath: optionalEnv('GEOIP_COMPILED_DB')
+  },
+  threat: {
+    // Tor Project exit list: TorDNSEL exit-addresses or the bulk exit list
+    torExitListPath: optionalEnv('TOR_EXIT_LIST'),
+    // Full-bogons prefix lists, e.g. Team Cymru fullbogons-ipv4.txt and fullbogons-ipv6.txt
+    fullBogonsPaths: listEnv('FULL_BOGONS')
+  },
+  threatIntel: {
+    // How provider verdicts are combined: max, weighted or quorum
+    strategy: optionalEnv('THREAT_INTEL_STRATEGY') ?? 'max',
+    providerTimeoutMs: numberEnv('THREAT_INTEL_TIMEOUT_MS', 2000),
+    // Providers that must agree for the quorum strategy
+    quorum: numberEnv('THREAT_INTEL_QUORUM', 2),
+    // Minimum weighted malicious confidence (0-100) for the weighted strategy
+    weightedThreshold: numberEnv('THREAT_INTEL_WEIGHTED_THRESHOLD', 50),
+    // Per-provider weight overrides
+    weights: weightsEnv('THREAT_INTEL_WEIGHTS'),
+    // Modules exporting additional ThreatIntelProvider implementations
+    plugins: listEnv('THREAT_INTEL_PLUGINS')
+  },
+  dnsbl: {
+    // DNSBL zones to query, e.g. zen.spamhaus.org - none by default, queries disclose the address
+    zones: listEnv('DNSBL_ZONES'),
+    // JSON array of custom zone definitions with return code mappings
+    configPath: optionalEnv('DNSBL_CONFIG'),
+    // Resolver servers for DNSBL queries (ip or ip:port); system resolvers when empty
+    servers: listEnv('DNSBL_SERVERS'),
+    timeoutMs: numberEnv('DNSBL_TIMEOUT_MS', 1500),
+    // How long an answer is reused; the DNS analysis and the threat intel provider query the same zones
+    cacheTtlMs: numberEnv('DNSBL_CACHE_TTL_MS', 300000)
+  },
+  blocklists: {
+    // JSON array of { name, path, category, severity } - see README
+    configPath: optionalEnv('BLOCKLIST_CONFIG')
+  },
+  annotations: {
+    // JSON array of user-defined network annotations; runtime edits are written back here
+    configPath: optionalEnv('NETWORK_ANNOTATIONS'),
+    // Bearer token for creating, updating and deleting annotations; writes are disabled without one
+    writeToken: optionalEnv('ANNOTATIONS_WRITE_TOKEN')
+  },
+  cloud: {
+    // Published cloud range files as format:path (aws, gcp, azure, oracle, cloudflare)
+    rangeFiles: listEnv('CLOUD_RANGE_FILES')
+  },
+  proxies: {
+    // Proxies whose forwarding headers are honored: CIDRs and presets (cloudflare, fastly, loopback, private)
+    trusted: optionalEnv('TRUSTED_PROXIES') !== undefined ? listEnv('TRUSTED_PROXIES') : ['loopback', 'private'],
+    // Per-header trust overrides as header=set|set, e.g. cf-connecting-ip=cloudflare|trusted
+    headers: listEnv('TRUSTED_PROXY_HEADERS')
+  },
+  clientIPHeaders: {
+    // Header presets to read client addresses from (standard, akamai, fastly, azure-front-door, ...)
+    presets: optionalEnv('CLIENT_IP_HEADERS') !== undefined ? listEnv('CLIENT_IP_HEADERS') : ['standard'],
+    // JSON array of custom header definitions, added to or overriding the presets
+    configPath: optionalEnv('CLIENT_IP_HEADERS_CONFIG')
+  },
+  proxyProtocol: {
+    // PROXY protocol v1/v2 on the HTTP listener: off, optional or required
+    mode: optionalEnv('PROXY_PROTOCOL') ?? 'off',
+    // Peers allowed to send a PROXY header: CIDRs and presets, as in TRUSTED_PROXIES
+    trusted: optionalEnv('PROXY_PROTOCOL_TRUSTED') !== undefined ? listEnv('PROXY_PROTOCOL_TRUSTED') : ['loopback', 'private'],
+    // Drop connections that do not complete the header in time
+    headerTimeoutMs: numberEnv('PROXY_PROTOCOL_TIMEOUT_MS', 5000)
+  },
+  datasets: {
+    // Poll dataset files for changes and reload them in the background
+    watch: optionalEnv('DATASET_WATCH') !== 'false',
+    watchIntervalMs: numberEnv('DATASET_WATCH_INTERVAL_MS', 30000),
+    // Wait for a changed file to stop changing before reloading it
+    debounceMs: numberEnv('DATASET_RELOAD_DEBOUNCE_MS', 2000)
+  }
+};
+
+export { listEnv, numberEnv, optionalEnv, weightsEnv };
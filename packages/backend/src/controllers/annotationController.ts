@@ -0,0 +1,151 @@
+import { InternalServerError, asyncHandler } from '@/middleware/errorHandler';
+import { NetworkAnnotationService } from '@/services/networkAnnotationService';
+import { logger } from '@/utils/logger';
+import { Request, Response } from 'express';
+import { isIP } from 'net';
+
+export class AnnotationController {
+  /**
+   * List every network annotation
+   */
+  static listAnnotations = asyncHandler(async (_req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: NetworkAnnotationService.list(),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  /**
+   * Find the annotation covering an IP address
+   */
+  static lookupAnnotation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { ip: targetIP } = req.query;
+
+    if (typeof targetIP !== 'string' || !isIP(targetIP)) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing IP parameter',
+        message: 'Please provide a valid IP address in the "ip" query parameter',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { ip: targetIP, annotation: NetworkAnnotationService.lookup(targetIP) },
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  /**
+   * Get a single annotation
+   */
+  static getAnnotation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const annotation = NetworkAnnotationService.get(req.params['id'] ?? '');
+
+    if (!annotation) {
+      AnnotationController.sendNotFound(req, res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: annotation,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  /**
+   * Create an annotation
+   */
+  static createAnnotation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const requestId = req.headers['x-request-id'] as string;
+
+    try {
+      const annotation = await NetworkAnnotationService.create(req.body);
+
+      logger.info('Network annotation created', { requestId, id: annotation.id, cidr: annotation.cidr });
+
+      res.status(201).json({
+        success: true,
+        data: annotation,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      AnnotationController.sendFailure(res, requestId, 'Annotation creation failed', error);
+    }
+  });
+
+  /**
+   * Update an annotation; omitted fields keep their current values
+   */
+  static updateAnnotation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const requestId = req.headers['x-request-id'] as string;
+
+    try {
+      const annotation = await NetworkAnnotationService.update(req.params['id'] ?? '', req.body);
+
+      if (!annotation) {
+        AnnotationController.sendNotFound(req, res);
+        return;
+      }
+
+      logger.info('Network annotation updated', { requestId, id: annotation.id, cidr: annotation.cidr });
+
+      res.json({
+        success: true,
+        data: annotation,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      AnnotationController.sendFailure(res, requestId, 'Annotation update failed', error);
+    }
+  });
+
+  /**
+   * Delete an annotation
+   */
+  static deleteAnnotation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = req.params['id'] ?? '';
+
+    if (!(await NetworkAnnotationService.remove(id))) {
+      AnnotationController.sendNotFound(req, res);
+      return;
+    }
+
+    logger.info('Network annotation deleted', { requestId: req.headers['x-request-id'], id });
+
+    res.json({
+      success: true,
+      data: { id },
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Private helper methods
+
+  private static sendNotFound(req: Request, res: Response): void {
+    res.status(404).json({
+      success: false,
+      error: 'Annotation not found',
+      message: `No annotation with id ${req.params['id']}`,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private static sendFailure(res: Response, requestId: string, error: string, cause: unknown): void {
+    const errorMessage = cause instanceof Error ? cause.message : 'Unknown error';
+
+    logger.error(error, { requestId, error: errorMessage });
+
+    // Invalid input is the client's fault, a failed write to the annotation file is not
+    res.status(cause instanceof InternalServerError ? 500 : 400).json({
+      success: false,
+      error,
+      message: errorMessage,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,205 @@
+import { asyncHandler } from '@/middleware/errorHandler';
+import { FirewallRuleService } from '@/services/firewallRuleService';
+import { IPClassificationService } from '@/services/ipClassification';
+import { SubnetPlannerService } from '@/services/subnetPlannerService';
+import { FirewallTarget, VLSMRequirement } from '@/types/ip';
+import { logger } from '@/utils/logger';
+import { Request, Response } from 'express';
+
+// Upper bound on the prefixes accepted per request, across all lists
+const MAX_CIDR_LIST_LENGTH = 100000;
+
+// Upper bound on the named lists of a single membership check
+const MAX_MEMBERSHIP_LISTS = 1000;
+
+export class CIDRController {
+  /**
+   * Merge a list of prefixes into the minimal covering set
+   */
+  static aggregate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    CIDRController.respond(req, res, 'CIDR aggregation failed', body => {
+      const cidrs = CIDRController.cidrList(body, 'cidrs');
+      return { cidrs: IPClassificationService.aggregateCIDRs(cidrs) };
+    });
+  });
+
+  /**
+   * Subtract one set of prefixes from another
+   */
+  static exclude = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    CIDRController.respond(req, res, 'CIDR exclusion failed', body => {
+      const cidrs = CIDRController.cidrList(body, 'cidrs');
+      const exclude = CIDRController.cidrList(body, 'exclude');
+      CIDRController.checkListLength([cidrs, exclude]);
+      return { cidrs: IPClassificationService.excludeCIDRs(cidrs, exclude) };
+    });
+  });
+
+  /**
+   * Prefixes covered by both sets
+   */
+  static intersect = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    CIDRController.respond(req, res, 'CIDR intersection failed', body => {
+      const a = CIDRController.cidrList(body, 'a');
+      const b = CIDRController.cidrList(body, 'b');
+      CIDRController.checkListLength([a, b]);
+      return { cidrs: IPClassificationService.intersectCIDRs(a, b) };
+    });
+  });
+
+  /**
+   * Split a prefix into a number of subnets or into subnets of a given length
+   */
+  static split = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    CIDRController.respond(req, res, 'CIDR split failed', body => {
+      const { cidr, count, prefixLength } = body;
+      if (typeof cidr !== 'string') {
+        throw new Error('"cidr" must be a prefix in CIDR notation');
+      }
+
+      const subnets = IPClassificationService.splitCIDR(cidr, {
+        ...(typeof count === 'number' && { count }),
+        ...(typeof prefixLength === 'number' && { prefixLength })
+      });
+      return { cidr, subnets };
+    });
+  });
+
+  /**
+   * Convert a start-end address range into prefixes
+   */
+  static range = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    CIDRController.respond(req, res, 'Range conversion failed', body => {
+      const { start, end } = body;
+      if (typeof start !== 'string' || typeof end !== 'string') {
+        throw new Error('"start" and "end" must be IP addresses');
+      }
+      return { start, end, cidrs: IPClassificationService.rangeToCIDRs(start, end) };
+    });
+  });
+
+  /**
+   * Plan variable-length subnets for named host requirements inside a parent block
+   */
+  static vlsm = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    CIDRController.respond(req, res, 'Subnet planning failed', body => {
+      const { parent, requirements, headroom, alignment } = body;
+      if (typeof parent !== 'string') {
+        throw new Error('"parent" must be a prefix in CIDR notation');
+      }
+      if (!Array.isArray(requirements)) {
+        throw new Error('"requirements" must be an array of { name, hosts, count } objects');
+      }
+
+      const plan = SubnetPlannerService.plan({
+        parent,
+        requirements: requirements as VLSMRequirement[],
+        ...(typeof headroom === 'number' && { headroom }),
+        ...(typeof alignment === 'number' && { alignment })
+      });
+      return { ...plan };
+    });
+  });
+
+  /**
+   * Test addresses against named prefix lists, reporting the longest match per list
+   */
+  static membership = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    CIDRController.respond(req, res, 'Membership check failed', body => {
+      const { ips, lists } = body;
+      if (!Array.isArray(ips) || !ips.every(item => typeof item === 'string')) {
+        throw new Error('"ips" must be an array of IP addresses');
+      }
+      if (typeof lists !== 'object' || lists === null || Array.isArray(lists)) {
+        throw new Error('"lists" must be an object mapping list names to arrays of prefixes');
+      }
+      if (Object.keys(lists).length > MAX_MEMBERSHIP_LISTS) {
+        throw new Error(`At most ${MAX_MEMBERSHIP_LISTS} lists can be checked at once`);
+      }
+
+      const named = Object.fromEntries(
+        Object.keys(lists).map(name => [name, CIDRController.cidrList(lists as Record<string, unknown>, name)])
+      );
+      CIDRController.checkListLength(Object.values(named));
+      const results = IPClassificationService.checkMembership(ips, named);
+      const counts: Record<string, number> = Object.fromEntries(Object.keys(named).map(name => [name, 0]));
+      for (const result of results) {
+        for (const list of result.lists) {
+          counts[list] = (counts[list] ?? 0) + 1;
+        }
+      }
+      return { results, counts };
+    });
+  });
+
+  /**
+   * Generate firewall rules for a list of prefixes, tagged with the analysis they came from
+   */
+  static firewall = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    CIDRController.respond(req, res, 'Firewall rule generation failed', body => {
+      const { ip, action, targets, analysisId, name } = body;
+      const cidrs = typeof ip === 'string' ? [ip] : CIDRController.cidrList(body, 'cidrs');
+      if (targets !== undefined && (!Array.isArray(targets) || !targets.every(item => typeof item === 'string'))) {
+        throw new Error('"targets" must be an array of firewall targets');
+      }
+
+      const rules = FirewallRuleService.generate({
+        cidrs,
+        analysisId: typeof analysisId === 'string' ? analysisId : (req.headers['x-request-id'] as string),
+        ...(typeof action === 'string' && { action: action as 'allow' | 'deny' }),
+        ...(targets !== undefined && { targets: targets as FirewallTarget[] }),
+        ...(typeof name === 'string' && { name })
+      });
+      return { ...rules };
+    });
+  });
+
+  // Private helper methods
+
+  private static respond(
+    req: Request,
+    res: Response,
+    error: string,
+    operation: (body: Record<string, unknown>) => Record<string, unknown>
+  ): void {
+    const requestId = req.headers['x-request-id'] as string;
+
+    try {
+      const body = typeof req.body === 'object' && req.body !== null ? (req.body as Record<string, unknown>) : {};
+      const data = operation(body);
+
+      res.json({
+        success: true,
+        data,
+        timestamp: new Date().toISOString()
+      });
+    } catch (cause) {
+      const errorMessage = cause instanceof Error ? cause.message : 'Unknown error';
+
+      logger.error(error, { requestId, error: errorMessage });
+
+      res.status(400).json({
+        success: false,
+        error,
+        message: errorMessage,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  private static cidrList(body: Record<string, unknown>, field: string): string[] {
+    const value = body[field];
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+      throw new Error(`"${field}" must be an array of prefixes in CIDR notation`);
+    }
+    CIDRController.checkListLength([value]);
+    return value;
+  }
+
+  private static checkListLength(lists: unknown[][]): void {
+    const total = lists.reduce((sum, list) => sum + list.length, 0);
+    if (total > MAX_CIDR_LIST_LENGTH) {
+      throw new Error(`Too many prefixes: ${total} given, at most ${MAX_CIDR_LIST_LENGTH} allowed per request`);
+    }
+  }
+}
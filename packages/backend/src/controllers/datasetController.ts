@@ -0,0 +1,16 @@
+import { asyncHandler } from '@/middleware/errorHandler';
+import { DatasetManager } from '@/services/datasetManager';
+import { Request, Response } from 'express';
+
+export class DatasetController {
+  /**
+   * Get the status of every loaded dataset
+   */
+  static getDatasets = asyncHandler(async (_req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: DatasetManager.getStatus(),
+      timestamp: new Date().toISOString()
+    });
+  });
+}
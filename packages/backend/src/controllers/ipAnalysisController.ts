@@ -1,6 +1,9 @@
 import { asyncHandler } from '@/middleware/errorHandler';
+import { AddressNotationService } from '@/services/addressNotationService';
 import { IPClassificationService } from '@/services/ipClassification';
 import { IPDetectionService } from '@/services/ipDetection';
+import { ProxyChainService } from '@/services/proxyChainService';
+import { SpoofingAnalysisService } from '@/services/spoofingAnalysisService';
 import { logger } from '@/utils/logger';
 import { Request, Response } from 'express';
 
@@ -115,13 +118,15 @@ export class IPAnalysisController {
           sources: [...new Set(analysis.ip.allDetectedIPs.map(ip => ip.source))],
           highestConfidence: Math.max(...analysis.ip.allDetectedIPs.map(ip => ip.confidence)),
           lowestConfidence: Math.min(...analysis.ip.allDetectedIPs.map(ip => ip.confidence))
-        }
+        },
+        spoofingIndicators: SpoofingAnalysisService.analyze(req)
       };
 
       logger.info('Detailed IP analysis completed', {
         requestId,
         totalIPs: detailedAnalysis.metadata.totalIPsDetected,
-        primaryIP: analysis.ip.primaryIP?.address
+        primaryIP: analysis.ip.primaryIP?.address,
+        spoofingSuspected: detailedAnalysis.spoofingIndicators.suspected
       });
 
       res.json({
@@ -224,7 +229,7 @@ export class IPAnalysisController {
   });
 
   /**
-   * Calculate subnet information
+   * Calculate subnet information for an address and mask, or for a prefix in CIDR notation
    */
   static calculateSubnet = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { ip: targetIP, mask } = req.query;
@@ -234,13 +239,17 @@ export class IPAnalysisController {
       res.status(400).json({
         success: false,
         error: 'Missing IP parameter',
-        message: 'Please provide a valid IP address in the "ip" query parameter',
+        message: 'Please provide a valid IP address or CIDR prefix in the "ip" query parameter',
         timestamp: new Date().toISOString()
       });
       return;
     }
 
-    if (!mask || typeof mask !== 'string') {
+    // 2001:db8::/48 carries its own prefix length; a separate mask takes precedence
+    const [address = '', cidrPrefix] = targetIP.split('/');
+    const subnetMask = typeof mask === 'string' && mask !== '' ? mask : cidrPrefix;
+
+    if (subnetMask === undefined || subnetMask === '') {
       res.status(400).json({
         success: false,
         error: 'Missing mask parameter',
@@ -251,37 +260,23 @@ export class IPAnalysisController {
     }
 
     try {
-      let subnetMask = mask;
-
-      // Convert CIDR to subnet mask if needed
-      if (mask.includes('/')) {
-        const cidrPart = mask.split('/')[1];
-        if (cidrPart) {
-          const cidr = parseInt(cidrPart, 10);
-          subnetMask = IPClassificationService.cidrToSubnetMask(cidr);
-        }
-      } else if (!mask.includes('.')) {
-        // Assume it's just the CIDR number
-        const cidr = parseInt(mask, 10);
-        subnetMask = IPClassificationService.cidrToSubnetMask(cidr);
-      }
-
-      const subnetInfo = IPClassificationService.calculateSubnet(targetIP, subnetMask);
+      const subnetInfo = IPClassificationService.calculateSubnet(address, subnetMask);
 
       logger.info('Subnet calculation completed', {
         requestId,
         targetIP,
-        mask,
-        network: subnetInfo.network
+        mask: subnetMask,
+        network: subnetInfo.cidr
       });
 
       res.json({
         success: true,
         data: {
           input: {
-            ip: targetIP,
-            mask: mask,
-            subnetMask: subnetMask
+            ip: address,
+            mask: subnetMask,
+            prefixLength: subnetInfo.prefixLength,
+            subnetMask: IPClassificationService.cidrToSubnetMask(subnetInfo.prefixLength, subnetInfo.version)
           },
           subnet: subnetInfo
         },
@@ -306,6 +301,56 @@ export class IPAnalysisController {
     }
   });
 
+  /**
+   * Convert an address between notations, flagging obfuscated input forms
+   */
+  static convertNotation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { ip: input } = req.query;
+    const requestId = req.headers['x-request-id'] as string;
+
+    if (typeof input !== 'string' || input.trim() === '') {
+      res.status(400).json({
+        success: false,
+        error: 'Missing IP parameter',
+        message: 'Please provide an address in any notation in the "ip" query parameter',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    try {
+      const conversion = AddressNotationService.convert(input);
+
+      logger.info('Address notation converted', {
+        requestId,
+        input,
+        address: conversion.address,
+        obfuscated: conversion.obfuscated
+      });
+
+      res.json({
+        success: true,
+        data: conversion,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error('Address notation conversion failed', {
+        requestId,
+        input,
+        error: errorMessage
+      });
+
+      res.status(400).json({
+        success: false,
+        error: 'Address conversion failed',
+        message: errorMessage,
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
+
   /**
    * Get IP classification information
    */
@@ -326,6 +371,7 @@ export class IPAnalysisController {
     try {
       const classification = IPClassificationService.classifyIP(targetIP);
       const details = IPClassificationService.getIPDetails(targetIP);
+      const bogon = IPClassificationService.getBogonStatus(targetIP);
 
       logger.info('IP classification completed', {
         requestId,
@@ -342,7 +388,11 @@ export class IPAnalysisController {
           isPublic: classification === 'public',
           isPrivate: classification === 'private',
           isReserved: classification === 'reserved',
-          isLoopback: classification === 'loopback'
+          isLoopback: classification === 'loopback',
+          isCGNAT: classification === 'cgnat',
+          isDocumentation: classification === 'documentation',
+          isLinkLocal: classification === 'link-local',
+          isBogon: bogon.isBogon
         },
         timestamp: new Date().toISOString()
       });
@@ -530,6 +580,43 @@ export class IPAnalysisController {
     }
   });
 
+  /**
+   * Reconstruct the proxy chain between the client and this server
+   */
+  static getProxyChain = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const requestId = req.headers['x-request-id'] as string;
+
+    try {
+      const chain = await ProxyChainService.reconstruct(req);
+
+      logger.info('Proxy chain reconstructed', {
+        requestId,
+        clientIP: chain.clientIP,
+        hops: chain.hops.length
+      });
+
+      res.json({
+        success: true,
+        data: chain,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error('Proxy chain reconstruction failed', {
+        requestId,
+        error: errorMessage
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Proxy chain reconstruction failed',
+        message: errorMessage,
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
+
   /**
    * Get DNS analysis
    */
@@ -0,0 +1,110 @@
+/**
+ * Headers that carry the client address, grouped into presets for the CDNs and load
+ * balancers that set them. Enable presets with CLIENT_IP_HEADERS; CLIENT_IP_HEADERS_CONFIG
+ * adds or overrides single entries.
+ */
+
+// single: one address; list: comma-separated chain, oldest hop first; rfc7239: Forwarded syntax
+export type ClientIPHeaderParseMode = 'single' | 'list' | 'rfc7239';
+
+export interface ClientIPHeaderDefinition {
+  // Lowercase header name, also reported as IPAddress.source
+  header: string;
+  label: string;
+  parse: ClientIPHeaderParseMode;
+  // Confidence (0-100) of the client address when the header is trusted
+  confidence: number;
+  // Proxy sets the socket peer must belong to: presets, CIDRs or "trusted" for TRUSTED_PROXIES
+  trustedProxies: string[];
+  // Written by a CDN edge from the connection it accepted, so never a non-public address
+  edge?: boolean;
+}
+
+export const CLIENT_IP_HEADER_PRESETS: Record<string, ClientIPHeaderDefinition[]> = {
+  standard: [
+    { header: 'x-forwarded-for', label: 'X-Forwarded-For', parse: 'list', confidence: 90, trustedProxies: ['trusted'] },
+    { header: 'x-real-ip', label: 'X-Real-IP', parse: 'single', confidence: 85, trustedProxies: ['trusted'] },
+    {
+      header: 'cf-connecting-ip',
+      label: 'CF-Connecting-IP',
+      parse: 'single',
+      confidence: 95,
+      trustedProxies: ['cloudflare'],
+      edge: true
+    },
+    {
+      header: 'x-cluster-client-ip',
+      label: 'X-Cluster-Client-IP',
+      parse: 'single',
+      confidence: 80,
+      trustedProxies: ['trusted']
+    },
+    { header: 'forwarded', label: 'Forwarded', parse: 'rfc7239', confidence: 75, trustedProxies: ['trusted'] }
+  ],
+  // Akamai and Cloudflare Enterprise; Akamai publishes no ranges, so trust its edge via TRUSTED_PROXIES
+  akamai: [
+    {
+      header: 'true-client-ip',
+      label: 'True-Client-IP',
+      parse: 'single',
+      confidence: 95,
+      trustedProxies: ['trusted', 'cloudflare'],
+      edge: true
+    }
+  ],
+  fastly: [
+    {
+      header: 'fastly-client-ip',
+      label: 'Fastly-Client-IP',
+      parse: 'single',
+      confidence: 95,
+      trustedProxies: ['fastly'],
+      edge: true
+    }
+  ],
+  // Front Door egress ranges are only published as the AzureFrontDoor.Backend service tag
+  'azure-front-door': [
+    {
+      header: 'x-azure-clientip',
+      label: 'X-Azure-ClientIP',
+      parse: 'single',
+      confidence: 95,
+      trustedProxies: ['trusted'],
+      edge: true
+    },
+    {
+      header: 'x-azure-socketip',
+      label: 'X-Azure-SocketIP',
+      parse: 'single',
+      confidence: 85,
+      trustedProxies: ['trusted'],
+      edge: true
+    }
+  ],
+  // Kubernetes ingress-nginx keeps the incoming X-Forwarded-For here when it rewrites it
+  'ingress-nginx': [
+    {
+      header: 'x-original-forwarded-for',
+      label: 'X-Original-Forwarded-For',
+      parse: 'list',
+      confidence: 85,
+      trustedProxies: ['trusted']
+    }
+  ],
+  envoy: [
+    {
+      header: 'x-envoy-external-address',
+      label: 'X-Envoy-External-Address',
+      parse: 'single',
+      confidence: 85,
+      trustedProxies: ['trusted']
+    }
+  ],
+  fly: [
+    { header: 'fly-client-ip', label: 'Fly-Client-IP', parse: 'single', confidence: 95, trustedProxies: ['trusted'] }
+  ],
+  // Set by assorted proxies and WAFs with no agreed meaning, hence the low confidence
+  generic: [
+    { header: 'x-client-ip', label: 'X-Client-IP', parse: 'single', confidence: 70, trustedProxies: ['trusted'] }
+  ]
+};
@@ -0,0 +1,83 @@
+/**
+ * Return code mappings for well-known DNS blocklists.
+ * A listed address resolves to 127.0.0.x; the last octet says why it is listed.
+ */
+
+export interface DnsblCodeMeaning {
+  meaning: string;
+  category: 'spam' | 'exploited' | 'policy' | 'proxy' | 'botnet' | 'attack' | 'hijacked' | 'listed';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+}
+
+export interface DnsblZoneDefinition {
+  zone: string;
+  name: string;
+  // Whether the zone answers IPv6 nibble-format queries
+  ipv6: boolean;
+  codes: Record<string, DnsblCodeMeaning>;
+}
+
+// Meaning used for return codes a zone definition does not list
+export const DEFAULT_DNSBL_MEANING: DnsblCodeMeaning = {
+  meaning: 'listed',
+  category: 'listed',
+  severity: 'medium'
+};
+
+export const DNSBL_ZONES: DnsblZoneDefinition[] = [
+  {
+    zone: 'zen.spamhaus.org',
+    name: 'Spamhaus ZEN',
+    ipv6: true,
+    codes: {
+      '127.0.0.2': { meaning: 'SBL - Spamhaus spam source', category: 'spam', severity: 'high' },
+      '127.0.0.3': { meaning: 'SBL CSS - low reputation snowshoe spam', category: 'spam', severity: 'medium' },
+      '127.0.0.4': { meaning: 'XBL - exploited or compromised host', category: 'exploited', severity: 'high' },
+      '127.0.0.5': { meaning: 'XBL - exploited or compromised host', category: 'exploited', severity: 'high' },
+      '127.0.0.6': { meaning: 'XBL - exploited or compromised host', category: 'exploited', severity: 'high' },
+      '127.0.0.7': { meaning: 'XBL - exploited or compromised host', category: 'exploited', severity: 'high' },
+      '127.0.0.9': { meaning: 'DROP - hijacked netblock', category: 'hijacked', severity: 'critical' },
+      '127.0.0.10': { meaning: 'PBL - ISP policy, end-user address', category: 'policy', severity: 'low' },
+      '127.0.0.11': { meaning: 'PBL - Spamhaus policy, end-user address', category: 'policy', severity: 'low' }
+    }
+  },
+  {
+    zone: 'bl.spamcop.net',
+    name: 'SpamCop',
+    ipv6: false,
+    codes: {
+      '127.0.0.2': { meaning: 'reported spam source', category: 'spam', severity: 'medium' }
+    }
+  },
+  {
+    zone: 'b.barracudacentral.org',
+    name: 'Barracuda Reputation',
+    ipv6: false,
+    codes: {
+      '127.0.0.2': { meaning: 'poor sender reputation', category: 'spam', severity: 'medium' }
+    }
+  },
+  {
+    zone: 'dnsbl.dronebl.org',
+    name: 'DroneBL',
+    ipv6: true,
+    codes: {
+      '127.0.0.3': { meaning: 'IRC drone', category: 'botnet', severity: 'high' },
+      '127.0.0.5': { meaning: 'bottler', category: 'botnet', severity: 'high' },
+      '127.0.0.6': { meaning: 'unknown spambot or drone', category: 'botnet', severity: 'high' },
+      '127.0.0.7': { meaning: 'DDoS drone', category: 'attack', severity: 'critical' },
+      '127.0.0.8': { meaning: 'open SOCKS proxy', category: 'proxy', severity: 'high' },
+      '127.0.0.9': { meaning: 'open HTTP proxy', category: 'proxy', severity: 'high' },
+      '127.0.0.10': { meaning: 'proxy chain', category: 'proxy', severity: 'high' },
+      '127.0.0.11': { meaning: 'web page proxy', category: 'proxy', severity: 'medium' },
+      '127.0.0.12': { meaning: 'open DNS resolver', category: 'attack', severity: 'medium' },
+      '127.0.0.13': { meaning: 'brute force attacker', category: 'attack', severity: 'high' },
+      '127.0.0.14': { meaning: 'open Wingate proxy', category: 'proxy', severity: 'high' },
+      '127.0.0.15': { meaning: 'compromised router or gateway', category: 'exploited', severity: 'high' },
+      '127.0.0.16': { meaning: 'autorooting worm', category: 'exploited', severity: 'critical' },
+      '127.0.0.17': { meaning: 'automatically determined botnet IP', category: 'botnet', severity: 'high' },
+      '127.0.0.18': { meaning: 'DNS/MX type hostname detected on IRC', category: 'botnet', severity: 'medium' },
+      '127.0.0.19': { meaning: 'abused VPN service', category: 'proxy', severity: 'medium' }
+    }
+  }
+];
@@ -0,0 +1,65 @@
+/**
+ * IANA IPv4 Address Space and IPv6 Global Unicast Address Assignments registries.
+ * https://www.iana.org/assignments/ipv4-address-space
+ * https://www.iana.org/assignments/ipv6-unicast-address-assignments
+ *
+ * Blocks nest: the most specific block covering an address decides whether IANA has
+ * allocated it. Every IPv4 /8 outside the reserved blocks went to an RIR or a legacy
+ * holder by 2011; in IPv6 only the listed parts of 2000::/3 are allocated.
+ */
+
+export interface AddressSpaceBlock {
+  cidr: string;
+  designation: string;
+  allocated: boolean;
+}
+
+export const IPV4_ADDRESS_SPACE: AddressSpaceBlock[] = [
+  { cidr: '0.0.0.0/0', designation: 'an RIR or a legacy holder', allocated: true },
+  { cidr: '0.0.0.0/8', designation: 'Local identification', allocated: false },
+  { cidr: '127.0.0.0/8', designation: 'Loopback', allocated: false },
+  { cidr: '224.0.0.0/4', designation: 'Multicast', allocated: false },
+  { cidr: '240.0.0.0/4', designation: 'Future use', allocated: false }
+];
+
+export const IPV6_ADDRESS_SPACE: AddressSpaceBlock[] = [
+  { cidr: '::/0', designation: 'Reserved by IETF', allocated: false },
+  { cidr: '2000::/3', designation: 'Global unicast, not yet allocated', allocated: false },
+  { cidr: '2001::/23', designation: 'IANA', allocated: true },
+  { cidr: '2001:200::/23', designation: 'APNIC', allocated: true },
+  { cidr: '2001:400::/23', designation: 'ARIN', allocated: true },
+  { cidr: '2001:600::/23', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:800::/22', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:c00::/23', designation: 'APNIC', allocated: true },
+  { cidr: '2001:e00::/23', designation: 'APNIC', allocated: true },
+  { cidr: '2001:1200::/23', designation: 'LACNIC', allocated: true },
+  { cidr: '2001:1400::/22', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:1800::/23', designation: 'ARIN', allocated: true },
+  { cidr: '2001:1a00::/23', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:1c00::/22', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:2000::/20', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:3000::/21', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:3800::/22', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:4000::/23', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:4200::/23', designation: 'AFRINIC', allocated: true },
+  { cidr: '2001:4400::/23', designation: 'APNIC', allocated: true },
+  { cidr: '2001:4600::/23', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:4800::/23', designation: 'ARIN', allocated: true },
+  { cidr: '2001:4a00::/23', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:4c00::/23', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:5000::/20', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2001:8000::/19', designation: 'APNIC', allocated: true },
+  { cidr: '2001:a000::/20', designation: 'APNIC', allocated: true },
+  { cidr: '2001:b000::/20', designation: 'APNIC', allocated: true },
+  { cidr: '2002::/16', designation: '6to4', allocated: true },
+  { cidr: '2003::/18', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2400::/12', designation: 'APNIC', allocated: true },
+  { cidr: '2600::/12', designation: 'ARIN', allocated: true },
+  { cidr: '2610::/23', designation: 'ARIN', allocated: true },
+  { cidr: '2620::/23', designation: 'ARIN', allocated: true },
+  { cidr: '2630::/12', designation: 'ARIN', allocated: true },
+  { cidr: '2800::/12', designation: 'LACNIC', allocated: true },
+  { cidr: '2a00::/12', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2a10::/12', designation: 'RIPE NCC', allocated: true },
+  { cidr: '2c00::/12', designation: 'AFRINIC', allocated: true }
+];
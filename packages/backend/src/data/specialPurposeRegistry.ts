@@ -0,0 +1,229 @@
+/**
+ * IANA IPv4 and IPv6 Special-Purpose Address Registries (RFC 6890, RFC 8190).
+ * https://www.iana.org/assignments/iana-ipv4-special-registry
+ * https://www.iana.org/assignments/iana-ipv6-special-registry
+ *
+ * Attributes are as published; null stands for the registry's "N/A". Multicast
+ * (224.0.0.0/4, ff00::/8) has registries of its own and is not listed here.
+ */
+
+export type SpecialPurposeType =
+  | 'public'
+  | 'private'
+  | 'reserved'
+  | 'loopback'
+  | 'broadcast'
+  | 'cgnat'
+  | 'documentation'
+  | 'link-local';
+
+export interface SpecialPurposeEntry {
+  cidr: string;
+  name: string;
+  rfc: string;
+  // Valid as a source or destination address, forwarded by routers, reachable beyond its domain
+  source: boolean | null;
+  destination: boolean | null;
+  forwardable: boolean | null;
+  globallyReachable: boolean | null;
+  // Reserved by a protocol specification rather than assignable
+  reservedByProtocol: boolean | null;
+  // Classification reported for addresses in the block
+  type: SpecialPurposeType;
+}
+
+type Attributes = Pick<
+  SpecialPurposeEntry,
+  'source' | 'destination' | 'forwardable' | 'globallyReachable' | 'reservedByProtocol'
+>;
+
+// Common attribute combinations, in registry column order
+const attributes = (
+  source: boolean | null,
+  destination: boolean | null,
+  forwardable: boolean | null,
+  globallyReachable: boolean | null,
+  reservedByProtocol: boolean | null
+): Attributes => ({ source, destination, forwardable, globallyReachable, reservedByProtocol });
+
+const LOCAL_USE = attributes(true, true, true, false, false);
+const GLOBAL_USE = attributes(true, true, true, true, false);
+const NOT_USABLE = attributes(false, false, false, false, false);
+const DEPRECATED = attributes(null, null, null, null, null);
+
+export const IPV4_SPECIAL_PURPOSE: SpecialPurposeEntry[] = [
+  {
+    cidr: '0.0.0.0/8',
+    name: 'This network',
+    rfc: 'RFC 791',
+    ...attributes(true, false, false, false, true),
+    type: 'reserved'
+  },
+  {
+    cidr: '0.0.0.0/32',
+    name: 'This host on this network',
+    rfc: 'RFC 1122',
+    ...attributes(true, false, false, false, true),
+    type: 'reserved'
+  },
+  { cidr: '10.0.0.0/8', name: 'Private-Use', rfc: 'RFC 1918', ...LOCAL_USE, type: 'private' },
+  { cidr: '100.64.0.0/10', name: 'Shared Address Space', rfc: 'RFC 6598', ...LOCAL_USE, type: 'cgnat' },
+  {
+    cidr: '127.0.0.0/8',
+    name: 'Loopback',
+    rfc: 'RFC 1122',
+    ...attributes(false, false, false, false, true),
+    type: 'loopback'
+  },
+  {
+    cidr: '169.254.0.0/16',
+    name: 'Link Local',
+    rfc: 'RFC 3927',
+    ...attributes(true, true, false, false, true),
+    type: 'link-local'
+  },
+  { cidr: '172.16.0.0/12', name: 'Private-Use', rfc: 'RFC 1918', ...LOCAL_USE, type: 'private' },
+  { cidr: '192.0.0.0/24', name: 'IETF Protocol Assignments', rfc: 'RFC 6890', ...NOT_USABLE, type: 'reserved' },
+  { cidr: '192.0.0.0/29', name: 'IPv4 Service Continuity Prefix', rfc: 'RFC 7335', ...LOCAL_USE, type: 'reserved' },
+  {
+    cidr: '192.0.0.8/32',
+    name: 'IPv4 dummy address',
+    rfc: 'RFC 7600',
+    ...attributes(true, false, false, false, false),
+    type: 'reserved'
+  },
+  { cidr: '192.0.0.9/32', name: 'Port Control Protocol Anycast', rfc: 'RFC 7723', ...GLOBAL_USE, type: 'public' },
+  {
+    cidr: '192.0.0.10/32',
+    name: 'Traversal Using Relays around NAT Anycast',
+    rfc: 'RFC 8155',
+    ...GLOBAL_USE,
+    type: 'public'
+  },
+  {
+    cidr: '192.0.0.170/32',
+    name: 'NAT64/DNS64 Discovery',
+    rfc: 'RFC 8880',
+    ...attributes(false, true, false, false, true),
+    type: 'reserved'
+  },
+  {
+    cidr: '192.0.0.171/32',
+    name: 'NAT64/DNS64 Discovery',
+    rfc: 'RFC 8880',
+    ...attributes(false, true, false, false, true),
+    type: 'reserved'
+  },
+  { cidr: '192.0.2.0/24', name: 'Documentation (TEST-NET-1)', rfc: 'RFC 5737', ...NOT_USABLE, type: 'documentation' },
+  { cidr: '192.31.196.0/24', name: 'AS112-v4', rfc: 'RFC 7535', ...GLOBAL_USE, type: 'public' },
+  { cidr: '192.52.193.0/24', name: 'AMT', rfc: 'RFC 7450', ...GLOBAL_USE, type: 'public' },
+  { cidr: '192.88.99.0/24', name: 'Deprecated (6to4 Relay Anycast)', rfc: 'RFC 7526', ...DEPRECATED, type: 'reserved' },
+  { cidr: '192.168.0.0/16', name: 'Private-Use', rfc: 'RFC 1918', ...LOCAL_USE, type: 'private' },
+  { cidr: '192.175.48.0/24', name: 'Direct Delegation AS112 Service', rfc: 'RFC 7534', ...GLOBAL_USE, type: 'public' },
+  { cidr: '198.18.0.0/15', name: 'Benchmarking', rfc: 'RFC 2544', ...LOCAL_USE, type: 'reserved' },
+  {
+    cidr: '198.51.100.0/24',
+    name: 'Documentation (TEST-NET-2)',
+    rfc: 'RFC 5737',
+    ...NOT_USABLE,
+    type: 'documentation'
+  },
+  { cidr: '203.0.113.0/24', name: 'Documentation (TEST-NET-3)', rfc: 'RFC 5737', ...NOT_USABLE, type: 'documentation' },
+  {
+    cidr: '240.0.0.0/4',
+    name: 'Reserved',
+    rfc: 'RFC 1112',
+    ...attributes(false, false, false, false, true),
+    type: 'reserved'
+  },
+  {
+    cidr: '255.255.255.255/32',
+    name: 'Limited Broadcast',
+    rfc: 'RFC 919',
+    ...attributes(false, true, false, false, true),
+    type: 'broadcast'
+  }
+];
+
+export const IPV6_SPECIAL_PURPOSE: SpecialPurposeEntry[] = [
+  {
+    cidr: '::1/128',
+    name: 'Loopback Address',
+    rfc: 'RFC 4291',
+    ...attributes(false, false, false, false, true),
+    type: 'loopback'
+  },
+  {
+    cidr: '::/128',
+    name: 'Unspecified Address',
+    rfc: 'RFC 4291',
+    ...attributes(true, false, false, false, true),
+    type: 'reserved'
+  },
+  {
+    cidr: '::ffff:0:0/96',
+    name: 'IPv4-mapped Address',
+    rfc: 'RFC 4291',
+    ...attributes(false, false, false, false, true),
+    type: 'reserved'
+  },
+  { cidr: '64:ff9b::/96', name: 'IPv4-IPv6 Translation', rfc: 'RFC 6052', ...GLOBAL_USE, type: 'public' },
+  { cidr: '64:ff9b:1::/48', name: 'IPv4-IPv6 Translation', rfc: 'RFC 8215', ...LOCAL_USE, type: 'private' },
+  { cidr: '100::/64', name: 'Discard-Only Address Block', rfc: 'RFC 6666', ...LOCAL_USE, type: 'reserved' },
+  {
+    cidr: '100:0:0:1::/64',
+    name: 'Dummy IPv6 Prefix',
+    rfc: 'RFC 9780',
+    ...attributes(true, false, false, false, false),
+    type: 'reserved'
+  },
+  { cidr: '2001::/23', name: 'IETF Protocol Assignments', rfc: 'RFC 2928', ...NOT_USABLE, type: 'reserved' },
+  { cidr: '2001::/32', name: 'TEREDO', rfc: 'RFC 4380', ...attributes(true, true, true, null, false), type: 'public' },
+  { cidr: '2001:1::1/128', name: 'Port Control Protocol Anycast', rfc: 'RFC 7723', ...GLOBAL_USE, type: 'public' },
+  {
+    cidr: '2001:1::2/128',
+    name: 'Traversal Using Relays around NAT Anycast',
+    rfc: 'RFC 8155',
+    ...GLOBAL_USE,
+    type: 'public'
+  },
+  {
+    cidr: '2001:1::3/128',
+    name: 'DNS-SD Service Registration Protocol Anycast',
+    rfc: 'RFC 9665',
+    ...GLOBAL_USE,
+    type: 'public'
+  },
+  { cidr: '2001:2::/48', name: 'Benchmarking', rfc: 'RFC 5180', ...LOCAL_USE, type: 'reserved' },
+  { cidr: '2001:3::/32', name: 'AMT', rfc: 'RFC 7450', ...GLOBAL_USE, type: 'public' },
+  { cidr: '2001:4:112::/48', name: 'AS112-v6', rfc: 'RFC 7535', ...GLOBAL_USE, type: 'public' },
+  { cidr: '2001:10::/28', name: 'Deprecated (previously ORCHID)', rfc: 'RFC 4843', ...DEPRECATED, type: 'reserved' },
+  // Cryptographic identifiers rather than locators, so not treated as public addresses
+  { cidr: '2001:20::/28', name: 'ORCHIDv2', rfc: 'RFC 7343', ...GLOBAL_USE, type: 'reserved' },
+  {
+    cidr: '2001:30::/28',
+    name: 'Drone Remote ID Protocol Entity Tags (DETs) Prefix',
+    rfc: 'RFC 9374',
+    ...GLOBAL_USE,
+    type: 'reserved'
+  },
+  { cidr: '2001:db8::/32', name: 'Documentation', rfc: 'RFC 3849', ...NOT_USABLE, type: 'documentation' },
+  { cidr: '2002::/16', name: '6to4', rfc: 'RFC 3056', ...attributes(true, true, true, null, false), type: 'public' },
+  {
+    cidr: '2620:4f:8000::/48',
+    name: 'Direct Delegation AS112 Service',
+    rfc: 'RFC 7534',
+    ...GLOBAL_USE,
+    type: 'public'
+  },
+  { cidr: '3fff::/20', name: 'Documentation', rfc: 'RFC 9637', ...NOT_USABLE, type: 'documentation' },
+  { cidr: '5f00::/16', name: 'Segment Routing (SRv6) SIDs', rfc: 'RFC 9602', ...LOCAL_USE, type: 'reserved' },
+  { cidr: 'fc00::/7', name: 'Unique-Local', rfc: 'RFC 4193', ...LOCAL_USE, type: 'private' },
+  {
+    cidr: 'fe80::/10',
+    name: 'Link-Local Unicast',
+    rfc: 'RFC 4291',
+    ...attributes(true, true, false, false, true),
+    type: 'link-local'
+  }
+];
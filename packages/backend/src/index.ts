@@ -1,6 +1,18 @@
 import { errorHandler } from '@/middleware/errorHandler';
 import { requestLogger } from '@/middleware/requestLogger';
+import { config } from '@/config';
 import { apiRoutes } from '@/routes/api';
+import { BlocklistService } from '@/services/blocklistService';
+import { BogonService } from '@/services/bogonService';
+import { ClientIPHeaderService } from '@/services/clientIPHeaderService';
+import { CloudRangeService } from '@/services/cloudRangeService';
+import { DatasetManager } from '@/services/datasetManager';
+import { DnsblService } from '@/services/dnsblService';
+import { GeolocationService } from '@/services/geolocationService';
+import { NetworkAnnotationService } from '@/services/networkAnnotationService';
+import { ProxyProtocolService } from '@/services/proxyProtocolService';
+import { ThreatIntelRegistry } from '@/services/threatIntel/threatIntelRegistry';
+import { TorExitService } from '@/services/torExitService';
 import { logger } from '@/utils/logger';
 import compression from 'compression';
 import cors from 'cors';
@@ -11,6 +23,7 @@ import { createServer } from 'http';
 
 const app = express();
 const server = createServer(app);
+ProxyProtocolService.attach(server);
 const PORT = process.env.PORT ?? 3001;
 const NODE_ENV = process.env.NODE_ENV ?? 'development';
 
@@ -96,12 +109,15 @@ app.use(requestLogger);
 
 // Health check endpoint
 app.get('/health', (_req, res) => {
+  const datasets = DatasetManager.getHealthSummary();
+
   res.status(200).json({
-    status: 'healthy',
+    status: datasets.healthy ? 'healthy' : 'degraded',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     environment: NODE_ENV,
-    version: process.env.npm_package_version ?? '1.0.0'
+    version: process.env.npm_package_version ?? '1.0.0',
+    datasets: datasets.datasets
   });
 });
 
@@ -123,6 +139,7 @@ app.use(errorHandler);
 // Graceful shutdown handling
 const gracefulShutdown = (signal: string): void => {
   logger.info(`Received ${signal}. Starting graceful shutdown...`);
+  DatasetManager.stop();
 
   server.close(err => {
     if (err) {
@@ -144,12 +161,31 @@ const gracefulShutdown = (signal: string): void => {
 process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
 process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 
-// Start server
-server.listen(PORT, () => {
-  logger.info(`🚀 Server running on port ${PORT} in ${NODE_ENV} mode`);
-  logger.info(`📊 Health check available at http://localhost:${PORT}/health`);
-  logger.info(`🔗 API endpoints available at http://localhost:${PORT}/api`);
-});
+// Load local datasets, then start server
+const startServer = async (): Promise<void> => {
+  GeolocationService.registerDataset();
+  TorExitService.registerDataset();
+  BogonService.registerDataset();
+  CloudRangeService.registerDataset();
+  NetworkAnnotationService.registerDataset();
+  await BlocklistService.registerDatasets();
+  await DnsblService.initialize();
+  await ClientIPHeaderService.initialize();
+  await ThreatIntelRegistry.loadPlugins(config.threatIntel.plugins);
+  await DatasetManager.loadAll();
+
+  if (config.datasets.watch) {
+    DatasetManager.watch();
+  }
+
+  server.listen(PORT, () => {
+    logger.info(`🚀 Server running on port ${PORT} in ${NODE_ENV} mode`);
+    logger.info(`📊 Health check available at http://localhost:${PORT}/health`);
+    logger.info(`🔗 API endpoints available at http://localhost:${PORT}/api`);
+  });
+};
+
+void startServer();
 
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (reason, promise) => {
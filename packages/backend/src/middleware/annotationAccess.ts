@@ -0,0 +1,39 @@
+import { config } from '@/config';
+import { logSecurity } from '@/utils/logger';
+import { timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Guard for routes that change annotations. A trusted annotation lowers the risk score of
+ * its range, so writes stay off unless ANNOTATIONS_WRITE_TOKEN is set, and then require
+ * that token as a bearer token.
+ */
+export const requireAnnotationToken = (req: Request, res: Response, next: NextFunction): void => {
+  const { writeToken } = config.annotations;
+
+  if (writeToken === undefined) {
+    res.status(403).json({
+      success: false,
+      error: 'Annotation writes disabled',
+      message: 'Set ANNOTATIONS_WRITE_TOKEN to manage annotations through the API',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  const presented = Buffer.from(req.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1] ?? '');
+  const expected = Buffer.from(writeToken);
+
+  if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+    logSecurity('Rejected annotation write', {}, req);
+    res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'A valid annotation write token is required',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,19 @@
+import { AnnotationController } from '@/controllers/annotationController';
+import { requireAnnotationToken } from '@/middleware/annotationAccess';
+import { Router } from 'express';
+
+const router: Router = Router();
+
+// List annotations
+router.get('/', AnnotationController.listAnnotations);
+
+// Find the annotation covering an IP address
+router.get('/lookup', AnnotationController.lookupAnnotation);
+
+// Create, read, update and delete annotations; writes need ANNOTATIONS_WRITE_TOKEN
+router.post('/', requireAnnotationToken, AnnotationController.createAnnotation);
+router.get('/:id', AnnotationController.getAnnotation);
+router.put('/:id', requireAnnotationToken, AnnotationController.updateAnnotation);
+router.delete('/:id', requireAnnotationToken, AnnotationController.deleteAnnotation);
+
+export { router as annotationRoutes };
@@ -1,4 +1,7 @@
 import { Router } from 'express';
+import { annotationRoutes } from './annotations';
+import { cidrRoutes } from './cidr';
+import { datasetRoutes } from './datasets';
 import { ipAnalysisRoutes } from './ipAnalysis';
 
 const router = Router();
@@ -12,6 +15,9 @@ router.get('/', (_req, res) => {
     endpoints: {
       health: '/health',
       ipAnalysis: '/api/ip',
+      datasets: '/api/datasets',
+      annotations: '/api/annotations',
+      cidr: '/api/cidr',
       networkAnalysis: '/api/network'
     },
     features: [
@@ -27,5 +33,8 @@ router.get('/', (_req, res) => {
 
 // Mount route modules
 router.use('/ip', ipAnalysisRoutes);
+router.use('/datasets', datasetRoutes);
+router.use('/annotations', annotationRoutes);
+router.use('/cidr', cidrRoutes);
 
 export { router as apiRoutes };
@@ -0,0 +1,28 @@
+import { CIDRController } from '@/controllers/cidrController';
+import { Router } from 'express';
+
+const router: Router = Router();
+
+// Merge prefixes into the minimal covering set
+router.post('/aggregate', CIDRController.aggregate);
+
+// Subtract and intersect prefix sets
+router.post('/exclude', CIDRController.exclude);
+router.post('/intersect', CIDRController.intersect);
+
+// Split a prefix into subnets
+router.post('/split', CIDRController.split);
+
+// Convert a start-end range into prefixes
+router.post('/range', CIDRController.range);
+
+// Test addresses against named prefix lists
+router.post('/membership', CIDRController.membership);
+
+// Plan variable-length subnets inside a parent block
+router.post('/vlsm', CIDRController.vlsm);
+
+// Generate firewall rules for a list of prefixes
+router.post('/firewall', CIDRController.firewall);
+
+export { router as cidrRoutes };
@@ -0,0 +1,9 @@
+import { DatasetController } from '@/controllers/datasetController';
+import { Router } from 'express';
+
+const router: Router = Router();
+
+// Get dataset versions, load times and errors
+router.get('/', DatasetController.getDatasets);
+
+export { router as datasetRoutes };
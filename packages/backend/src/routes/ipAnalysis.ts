@@ -9,6 +9,9 @@ router.get('/', IPAnalysisController.getCurrentIP);
 // Get detailed network analysis
 router.get('/detailed', IPAnalysisController.getDetailedAnalysis);
 
+// Get the proxy chain from the client to this server
+router.get('/chain', IPAnalysisController.getProxyChain);
+
 // Analyze a specific IP address
 router.get('/analyze', IPAnalysisController.analyzeSpecificIP);
 
@@ -18,6 +21,9 @@ router.get('/subnet', IPAnalysisController.calculateSubnet);
 // Get IP classification
 router.get('/classify', IPAnalysisController.getIPClassification);
 
+// Convert an address between notations
+router.get('/convert', IPAnalysisController.convertNotation);
+
 // Get comprehensive network analysis
 router.get('/network', IPAnalysisController.getNetworkAnalysis);
 
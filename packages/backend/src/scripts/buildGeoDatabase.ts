@@ -0,0 +1,67 @@
+import { summarizeCoverage, writeCompiledGeoDatabase } from '@/services/geo/compiledGeoDatabase';
+import { GeoCsvImporter } from '@/services/geo/csvImporter';
+import path from 'path';
+import { parseArgs } from 'util';
+
+const USAGE = `Compile GeoLite2 or DB-IP lite CSV files into a local geo database.
+
+Usage:
+  pnpm geo:build --geolite2 <extracted-csv-dir> --out <file>
+  pnpm geo:build --dbip-city <dbip-city-lite.csv> [--dbip-asn <dbip-asn-lite.csv>] --out <file>
+
+Point GEOIP_COMPILED_DB at the output file to load it at startup.`;
+
+const main = async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      geolite2: { type: 'string' },
+      'dbip-city': { type: 'string' },
+      'dbip-asn': { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const hasSource = values.geolite2 !== undefined || values['dbip-city'] !== undefined || values['dbip-asn'] !== undefined;
+  if (values.help === true || values.out === undefined || !hasSource) {
+    console.log(USAGE);
+    process.exitCode = values.help === true ? 0 : 1;
+    return;
+  }
+
+  const startTime = Date.now();
+
+  const database =
+    values.geolite2 !== undefined
+      ? await GeoCsvImporter.importGeoLite2(await GeoCsvImporter.findGeoLite2Files(values.geolite2))
+      : await GeoCsvImporter.importDbIp({ city: values['dbip-city'], asn: values['dbip-asn'] });
+
+  const outputPath = path.resolve(values.out);
+  const bytes = await writeCompiledGeoDatabase(database, outputPath);
+  const buildTime = Date.now() - startTime;
+
+  console.log(`Source: ${database.metadata.source}`);
+  console.log('\nRows imported:');
+  for (const [file, count] of Object.entries(database.metadata.rowCounts)) {
+    console.log(`  ${file}: ${count.toLocaleString()}`);
+  }
+
+  console.log(`\nLocations: ${database.locations.length}, ASNs: ${database.asns.length}`);
+
+  for (const [label, index] of [
+    ['Location coverage', database.locationIndex],
+    ['ASN coverage', database.asnIndex]
+  ] as const) {
+    const { ipv4, ipv6 } = summarizeCoverage(index);
+    console.log(`\n${label}:`);
+    console.log(`  IPv4: ${ipv4.ranges} ranges, ${ipv4.addresses} addresses (${ipv4.percent}% of address space)`);
+    console.log(`  IPv6: ${ipv6.ranges} ranges, ${ipv6.addresses} addresses (${ipv6.percent}% of 2000::/3)`);
+  }
+
+  console.log(`\nWrote ${outputPath} (${(bytes / 1024 / 1024).toFixed(2)} MB) in ${(buildTime / 1000).toFixed(1)}s`);
+};
+
+main().catch(error => {
+  console.error('Geo database build failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,120 @@
+import { AddressNotationService } from '../addressNotationService';
+
+describe('AddressNotationService', () => {
+  describe('IPv4', () => {
+    it('writes an address in every notation', () => {
+      expect(AddressNotationService.convert('127.0.0.1')).toEqual({
+        input: '127.0.0.1',
+        address: '127.0.0.1',
+        version: 4,
+        obfuscated: false,
+        obfuscation: [],
+        notations: {
+          dotted: '127.0.0.1',
+          integer: '2130706433',
+          hex: '0x7f000001',
+          octal: '017700000001',
+          binary: '01111111.00000000.00000000.00000001',
+          dottedHex: '0x7f.0x00.0x00.0x01',
+          dottedOctal: '0177.00.00.01',
+          ipv4Mapped: '::ffff:127.0.0.1',
+          ptr: '1.0.0.127.in-addr.arpa',
+          bracketed: '127.0.0.1',
+          url: 'http://127.0.0.1/'
+        }
+      });
+    });
+
+    it.each([
+      ['0x7f.1', ['2-part shorthand; the last part fills the remaining bytes', 'Hexadecimal part 0x7f']],
+      ['017700000001', ['Whole address written as a single 32-bit number', 'Octal part 017700000001 (leading zero)']],
+      ['2130706433', ['Whole address written as a single 32-bit number']],
+      ['127.1', ['2-part shorthand; the last part fills the remaining bytes']]
+    ])('reads the inet_aton form %s and flags it', (input, obfuscation) => {
+      const result = AddressNotationService.convert(input);
+
+      expect(result.address).toBe('127.0.0.1');
+      expect(result.obfuscated).toBe(true);
+      expect(result.obfuscation).toEqual(obfuscation);
+    });
+
+    it('reads PTR names', () => {
+      expect(AddressNotationService.convert('1.0.0.127.in-addr.arpa.')).toMatchObject({
+        address: '127.0.0.1',
+        obfuscated: false
+      });
+    });
+
+    it('reads the host of a URL and flags userinfo', () => {
+      const result = AddressNotationService.convert('http://user@0x7f000001/admin');
+
+      expect(result.address).toBe('127.0.0.1');
+      expect(result.obfuscation).toContain('URL hides the host behind userinfo "user@"');
+    });
+
+    it.each(['4294967296', '0x100000000', '040000000000'])('rejects %s instead of reading it as IPv6', input => {
+      expect(() => AddressNotationService.convert(input)).toThrow(
+        `Whole-number address ${input} is larger than 4294967295, the highest IPv4 address`
+      );
+    });
+
+    it.each([
+      ['08', '08'],
+      ['0177.09.0.1', '09']
+    ])('rejects %s as invalid octal', (input, part) => {
+      expect(() => AddressNotationService.convert(input)).toThrow(
+        `Octal part ${part} of ${input} contains the digit 8 or 9`
+      );
+    });
+
+    it('rejects unrecognized input', () => {
+      expect(() => AddressNotationService.convert('localhost')).toThrow('Unrecognized address notation: localhost');
+    });
+  });
+
+  describe('IPv6', () => {
+    it('writes an address in every notation', () => {
+      expect(AddressNotationService.convert('2001:db8::1')).toEqual({
+        input: '2001:db8::1',
+        address: '2001:db8::1',
+        version: 6,
+        obfuscated: false,
+        obfuscation: [],
+        notations: {
+          full: '2001:0db8:0000:0000:0000:0000:0000:0001',
+          compressed: '2001:db8::1',
+          integer: '42540766411282592856903984951653826561',
+          hex: '0x20010db8000000000000000000000001',
+          binary:
+            '0010000000000001:0000110110111000:0000000000000000:0000000000000000:' +
+            '0000000000000000:0000000000000000:0000000000000000:0000000000000001',
+          ptr: '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa',
+          bracketed: '[2001:db8::1]',
+          url: 'http://[2001:db8::1]/',
+          ipv6Literal: '2001-db8--1.ipv6-literal.net'
+        }
+      });
+    });
+
+    it('keeps the zone in bracketed, URL and literal forms', () => {
+      expect(AddressNotationService.convert('fe80::1%eth0').notations).toMatchObject({
+        bracketed: '[fe80::1%eth0]',
+        url: 'http://[fe80::1%25eth0]/',
+        ipv6Literal: 'fe80--1seth0.ipv6-literal.net'
+      });
+    });
+
+    it('flags IPv4 hidden in an IPv4-mapped address', () => {
+      expect(AddressNotationService.convert('::ffff:127.0.0.1')).toMatchObject({
+        address: '::ffff:127.0.0.1',
+        obfuscated: true,
+        obfuscation: ['IPv4-mapped IPv6 form of 127.0.0.1']
+      });
+    });
+
+    it('reads ip6.arpa names', () => {
+      const ptr = AddressNotationService.convert('2001:db8::1').notations.ptr;
+      expect(AddressNotationService.convert(ptr).address).toBe('2001:db8::1');
+    });
+  });
+});
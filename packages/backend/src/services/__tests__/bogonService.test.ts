@@ -0,0 +1,140 @@
+import { config } from '@/config';
+import { parseIP } from '@/utils/ipAddress';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BogonService, UnroutedSpace } from '../bogonService';
+import { DatasetManager } from '../datasetManager';
+import { IPClassificationService } from '../ipClassification';
+
+const lookup = (ipAddress: string): UnroutedSpace | null => {
+  const parsed = parseIP(ipAddress);
+  if (!parsed) throw new Error(`Invalid test address: ${ipAddress}`);
+  return BogonService.lookup(parsed.version, parsed.value);
+};
+
+describe('BogonService', () => {
+  it('reports space IANA never allocated to an RIR', () => {
+    expect(lookup('240.0.0.1')).toEqual({
+      category: 'unallocated',
+      cidr: '240.0.0.0/4',
+      description: 'IANA: Future use'
+    });
+    expect(lookup('3000::1')).toEqual({
+      category: 'unallocated',
+      cidr: '2000::/3',
+      description: 'IANA: Global unicast, not yet allocated'
+    });
+    expect(lookup('fd00::1')?.cidr).toBe('::/0');
+  });
+
+  it('reports nothing for allocated space without a full-bogons list', () => {
+    expect(BogonService.isFullBogonsAvailable()).toBe(false);
+    expect(lookup('41.0.0.1')).toBeNull();
+    expect(lookup('2600::1')).toBeNull();
+  });
+
+  describe('full-bogons list', () => {
+    const originalPaths = config.threat.fullBogonsPaths;
+    let directory: string;
+
+    beforeAll(async () => {
+      directory = await fs.mkdtemp(join(tmpdir(), 'bogons-'));
+    });
+
+    afterAll(async () => {
+      config.threat.fullBogonsPaths = originalPaths;
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('keeps the IANA registries until a non-empty list loads', async () => {
+      const file = join(directory, 'fullbogons.txt');
+      await fs.writeFile(file, '# last updated 1700000000 (Tue Nov 14 22:13:20 2023 GMT)\n');
+      config.threat.fullBogonsPaths = [file];
+
+      BogonService.registerDataset();
+      await DatasetManager.loadAll();
+
+      expect(DatasetManager.getStatus()[0]).toMatchObject({
+        name: 'full-bogons',
+        state: 'failed',
+        lastError: 'Validation failed: full-bogons list contains no prefixes'
+      });
+      expect(BogonService.isFullBogonsAvailable()).toBe(false);
+
+      await fs.writeFile(
+        file,
+        [
+          '# last updated 1700000000 (Tue Nov 14 22:13:20 2023 GMT)',
+          '41.0.0.0/24',
+          'not-a-prefix',
+          '2600:ffff::/32 # trailing comment',
+          ''
+        ].join('\n')
+      );
+      await DatasetManager.reload('full-bogons');
+
+      expect(DatasetManager.getStatus()[0]).toMatchObject({
+        state: 'loaded',
+        version: new Date(1700000000 * 1000).toISOString(),
+        recordCounts: { ipv4: 1, ipv6: 1 }
+      });
+      expect(BogonService.isFullBogonsAvailable()).toBe(true);
+    });
+
+    it('reports RIR-held space the list marks as unassigned', () => {
+      expect(lookup('41.0.0.1')).toEqual({
+        category: 'unassigned',
+        cidr: '41.0.0.0/24',
+        description: 'Held by an RIR or a legacy holder but not assigned to any network'
+      });
+      expect(lookup('2600:ffff::1')).toEqual({
+        category: 'unassigned',
+        cidr: '2600:ffff::/32',
+        description: 'Held by ARIN but not assigned to any network'
+      });
+      expect(lookup('41.0.1.1')).toBeNull();
+    });
+
+    it('reports the source of bogon verdicts', () => {
+      expect(IPClassificationService.getBogonStatus('41.0.0.1')).toEqual({
+        isBogon: true,
+        category: 'unassigned',
+        cidr: '41.0.0.0/24',
+        description: 'Held by an RIR or a legacy holder but not assigned to any network',
+        source: 'full-bogons'
+      });
+    });
+  });
+});
+
+describe('IPClassificationService.getBogonStatus', () => {
+  it.each([
+    ['10.1.2.3', '10.0.0.0/8', 'Private-Use'],
+    ['127.0.0.1', '127.0.0.0/8', 'Loopback'],
+    ['224.0.0.1', '224.0.0.0/4', 'Multicast'],
+    ['::ffff:192.168.1.1', '192.168.0.0/16', 'Private-Use'],
+    ['ff02::1', 'ff00::/8', 'Multicast']
+  ])('reports %s as a martian', (ipAddress, cidr, description) => {
+    expect(IPClassificationService.getBogonStatus(ipAddress)).toMatchObject({
+      isBogon: true,
+      category: 'martian',
+      cidr,
+      description
+    });
+  });
+
+  it('accepts globally reachable special-purpose and allocated space', () => {
+    expect(IPClassificationService.getBogonStatus('192.0.0.9').isBogon).toBe(false);
+    expect(IPClassificationService.getBogonStatus('8.8.8.8').isBogon).toBe(false);
+    expect(IPClassificationService.getBogonStatus('2600::1').isBogon).toBe(false);
+  });
+
+  it('reports unallocated space', () => {
+    expect(IPClassificationService.getBogonStatus('3000::1')).toMatchObject({
+      isBogon: true,
+      category: 'unallocated',
+      cidr: '2000::/3'
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { config } from '@/config';
+import { createSocket } from 'dgram';
+import { promises as dns } from 'dns';
+import { DnsblService } from '../dnsblService';
+
+// Answers by query name; anything else is NXDOMAIN
+const ANSWERS: Record<string, string[]> = {
+  '4.4.8.8.zen.spamhaus.org': ['127.0.0.4', '127.0.0.10'],
+  '4.4.8.8.bl.spamcop.net': ['127.0.0.2'],
+  '8.8.8.8.zen.spamhaus.org': ['127.255.255.254'],
+  '9.9.9.9.zen.spamhaus.org': ['198.51.100.1']
+};
+
+const NXDOMAIN = 3;
+
+/**
+ * Read the question name and the offset just past the question section of a DNS query
+ */
+const readQuestion = (query: Buffer): { name: string; end: number } => {
+  const labels: string[] = [];
+  let offset = 12;
+
+  while ((query[offset] ?? 0) > 0) {
+    const length = query[offset] as number;
+    labels.push(query.toString('ascii', offset + 1, offset + 1 + length));
+    offset += length + 1;
+  }
+  // Terminating zero byte, then QTYPE and QCLASS
+  return { name: labels.join('.').toLowerCase(), end: offset + 5 };
+};
+
+/**
+ * A response echoing the question with an A record per answer (pointing back at the question name)
+ */
+const buildResponse = (query: Buffer, answers: string[] | undefined): Buffer => {
+  const { end } = readQuestion(query);
+  const header = Buffer.alloc(12);
+
+  query.copy(header, 0, 0, 2);
+  // QR and RA set, RD echoed from the query
+  header.writeUInt16BE(0x8080 | (query.readUInt16BE(2) & 0x0100) | (answers ? 0 : NXDOMAIN), 2);
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(answers?.length ?? 0, 6);
+
+  const records = (answers ?? []).map(address => {
+    const record = Buffer.alloc(16);
+    record.writeUInt16BE(0xc00c, 0);
+    record.writeUInt16BE(1, 2);
+    record.writeUInt16BE(1, 4);
+    record.writeUInt32BE(60, 6);
+    record.writeUInt16BE(4, 10);
+    address.split('.').forEach((octet, index) => record.writeUInt8(Number(octet), 12 + index));
+    return record;
+  });
+
+  return Buffer.concat([header, query.subarray(12, end), ...records]);
+};
+
+describe('DnsblService', () => {
+  const server = createSocket('udp4');
+  const originalConfig = { ...config.dnsbl };
+  let queries: string[];
+
+  beforeAll(async () => {
+    server.on('message', (query, remote) => {
+      const { name } = readQuestion(query);
+      queries.push(name);
+      server.send(buildResponse(query, ANSWERS[name]), remote.port, remote.address);
+    });
+    await new Promise<void>(resolve => server.bind(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(async () => {
+    queries = [];
+    config.dnsbl.zones = ['zen.spamhaus.org', 'bl.spamcop.net'];
+    await DnsblService.initialize();
+
+    const resolver = new dns.Resolver({ timeout: 1000, tries: 1 });
+    resolver.setServers([`127.0.0.1:${server.address().port}`]);
+    DnsblService.setResolver(resolver);
+  });
+
+  afterEach(() => {
+    Object.assign(config.dnsbl, originalConfig);
+  });
+
+  describe('buildQueryName', () => {
+    it('reverses IPv4 octets', () => {
+      expect(DnsblService.buildQueryName('192.0.2.1', 'zen.spamhaus.org')).toBe('1.2.0.192.zen.spamhaus.org');
+    });
+
+    it('reverses IPv6 nibbles', () => {
+      expect(DnsblService.buildQueryName('2001:db8::1', 'zen.spamhaus.org')).toBe(
+        '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.zen.spamhaus.org'
+      );
+    });
+
+    it('queries IPv4-mapped addresses as IPv4', () => {
+      expect(DnsblService.buildQueryName('::ffff:192.0.2.1', 'bl.spamcop.net')).toBe('1.2.0.192.bl.spamcop.net');
+    });
+  });
+
+  describe('check', () => {
+    it('maps return codes to the zone meanings', async () => {
+      const [zen, spamcop] = await DnsblService.check('8.8.4.4');
+
+      expect(zen).toMatchObject({ zone: 'zen.spamhaus.org', status: 'listed' });
+      expect(zen?.listings.map(listing => [listing.code, listing.category])).toEqual([
+        ['127.0.0.4', 'exploited'],
+        ['127.0.0.10', 'policy']
+      ]);
+      expect(spamcop).toMatchObject({ zone: 'bl.spamcop.net', status: 'listed' });
+    });
+
+    it('reports NXDOMAIN as not listed', async () => {
+      const results = await DnsblService.check('1.1.1.1');
+      expect(results.map(result => result.status)).toEqual(['not_listed', 'not_listed']);
+    });
+
+    it('reports 127.255.255.x answers as zone errors', async () => {
+      const [zen] = await DnsblService.check('8.8.8.8');
+      expect(zen).toMatchObject({ status: 'error', listings: [] });
+      expect(zen?.error).toContain('127.255.255.254');
+    });
+
+    it('ignores answers outside 127/8', async () => {
+      const [zen] = await DnsblService.check('9.9.9.9');
+      expect(zen).toMatchObject({ status: 'not_listed', listings: [] });
+    });
+
+    it('skips IPv6 queries for zones without IPv6 support', async () => {
+      const results = await DnsblService.check('2606:4700:4700::1111');
+      expect(results.map(result => result.status)).toEqual(['not_listed', 'unsupported']);
+      expect(queries).toEqual(['1.1.1.1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.7.4.0.0.7.4.6.0.6.2.zen.spamhaus.org']);
+    });
+
+    it('never queries non-public addresses', async () => {
+      expect(await DnsblService.check('10.0.0.1')).toEqual([]);
+      expect(await DnsblService.check('::ffff:192.168.1.1')).toEqual([]);
+      expect(queries).toEqual([]);
+    });
+
+    it('queries nothing without configured zones', async () => {
+      config.dnsbl.zones = [];
+      await DnsblService.initialize();
+
+      expect(DnsblService.isEnabled()).toBe(false);
+      expect(await DnsblService.check('8.8.4.4')).toEqual([]);
+      expect(queries).toEqual([]);
+    });
+  });
+
+  describe('caching', () => {
+    it('shares one query per zone between concurrent and repeated checks', async () => {
+      const [first, second] = await Promise.all([DnsblService.check('8.8.4.4'), DnsblService.check('8.8.4.4')]);
+      await DnsblService.check('8.8.4.4');
+
+      expect(second).toEqual(first);
+      expect(queries).toHaveLength(2);
+    });
+
+    it('retries failed queries', async () => {
+      await DnsblService.check('8.8.8.8');
+      await DnsblService.check('8.8.8.8');
+
+      expect(queries.filter(name => name === '8.8.8.8.zen.spamhaus.org')).toHaveLength(2);
+    });
+
+    it('queries again once an answer expires', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await DnsblService.check('1.1.1.1');
+      clock.mockReturnValue(now + config.dnsbl.cacheTtlMs + 1);
+      await DnsblService.check('1.1.1.1');
+      clock.mockRestore();
+
+      expect(queries).toHaveLength(4);
+    });
+  });
+
+  it('describes listings as evidence', async () => {
+    const evidence = DnsblService.describeListings(await DnsblService.check('8.8.4.4'));
+    expect(evidence).toEqual([
+      'listed in zen.spamhaus.org (127.0.0.4 XBL - exploited or compromised host)',
+      'listed in zen.spamhaus.org (127.0.0.10 PBL - ISP policy, end-user address)',
+      'listed in bl.spamcop.net (127.0.0.2 reported spam source)'
+    ]);
+  });
+});
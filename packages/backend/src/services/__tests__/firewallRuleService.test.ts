@@ -0,0 +1,131 @@
+import { FirewallRuleRequest, FirewallTarget } from '@/types/ip';
+import { FirewallRuleService } from '../firewallRuleService';
+
+const REQUEST: FirewallRuleRequest = {
+  cidrs: ['192.0.2.128/25', '198.51.100.7', '192.0.2.0/25', '2001:db8::/32', '192.0.2.1'],
+  analysisId: 'scan-42',
+  name: 'blocklist'
+};
+
+const COMMENT = 'ip-probe analysis scan-42';
+
+const rules = (target: FirewallTarget, request: Partial<FirewallRuleRequest> = {}): string | undefined =>
+  FirewallRuleService.generate({ ...REQUEST, targets: [target], ...request }).rulesets[0]?.rules;
+
+describe('FirewallRuleService', () => {
+  it('aggregates the input before rendering every target', () => {
+    const result = FirewallRuleService.generate(REQUEST);
+
+    expect(result).toMatchObject({
+      analysisId: 'scan-42',
+      action: 'deny',
+      name: 'blocklist',
+      ipv4: ['192.0.2.0/24', '198.51.100.7/32'],
+      ipv6: ['2001:db8::/32']
+    });
+    // Security groups cannot deny, so AWS is left out with a warning
+    expect(result.rulesets.map(ruleset => ruleset.target)).toEqual(['iptables', 'nftables', 'cisco', 'pf', 'nginx']);
+    expect(result.warnings).toEqual(['AWS security groups can only allow traffic; use a network ACL to deny it']);
+  });
+
+  it('renders iptables and ip6tables commands', () => {
+    expect(rules('iptables')).toBe(
+      [
+        `# ${COMMENT}`,
+        `iptables -A INPUT -s 192.0.2.0/24 -m comment --comment "${COMMENT}" -j DROP`,
+        `iptables -A INPUT -s 198.51.100.7/32 -m comment --comment "${COMMENT}" -j DROP`,
+        `ip6tables -A INPUT -s 2001:db8::/32 -m comment --comment "${COMMENT}" -j DROP`
+      ].join('\n')
+    );
+  });
+
+  it('renders an nftables table with one set per family', () => {
+    expect(rules('nftables', { action: 'allow', cidrs: ['192.0.2.0/24'] })).toBe(
+      [
+        `# ${COMMENT}`,
+        'table inet blocklist {',
+        '  set blocklist_v4 {',
+        '    type ipv4_addr',
+        '    flags interval',
+        `    comment "${COMMENT}"`,
+        '    elements = { 192.0.2.0/24 }',
+        '  }',
+        '  chain input {',
+        '    type filter hook input priority filter; policy accept;',
+        `    ip saddr @blocklist_v4 accept comment "${COMMENT}"`,
+        '  }',
+        '}'
+      ].join('\n')
+    );
+  });
+
+  it('renders Cisco ACLs with wildcard masks and a trailing permit when denying', () => {
+    expect(rules('cisco')).toBe(
+      [
+        'ip access-list extended blocklist',
+        ` remark ${COMMENT}`,
+        ' deny ip 192.0.2.0 0.0.0.255 any',
+        ' deny ip host 198.51.100.7 any',
+        ' permit ip any any',
+        'ipv6 access-list blocklist_v6',
+        ` remark ${COMMENT}`,
+        ' deny ipv6 2001:db8::/32 any',
+        ' permit ipv6 any any'
+      ].join('\n')
+    );
+    expect(rules('cisco', { action: 'allow', cidrs: ['0.0.0.0/0'] })).toBe(
+      ['ip access-list extended blocklist', ` remark ${COMMENT}`, ' permit ip any any'].join('\n')
+    );
+  });
+
+  it('renders a pf table holding both families', () => {
+    expect(rules('pf')).toBe(
+      [
+        `# ${COMMENT}`,
+        'table <blocklist> persist { 192.0.2.0/24, 198.51.100.7/32, 2001:db8::/32 }',
+        'block drop in quick inet from <blocklist> to any',
+        'block drop in quick inet6 from <blocklist> to any'
+      ].join('\n')
+    );
+  });
+
+  it('renders nginx rules with the catch-all last', () => {
+    expect(rules('nginx', { action: 'allow' })).toBe(
+      [`# ${COMMENT}`, 'allow 192.0.2.0/24;', 'allow 198.51.100.7/32;', 'allow 2001:db8::/32;', 'deny all;'].join('\n')
+    );
+  });
+
+  it('renders AWS ingress permissions for allow rules', () => {
+    expect(JSON.parse(rules('aws', { action: 'allow' }) ?? '')).toEqual({
+      IpPermissions: [
+        {
+          IpProtocol: '-1',
+          IpRanges: [
+            { CidrIp: '192.0.2.0/24', Description: COMMENT },
+            { CidrIp: '198.51.100.7/32', Description: COMMENT }
+          ],
+          Ipv6Ranges: [{ CidrIpv6: '2001:db8::/32', Description: COMMENT }]
+        }
+      ]
+    });
+  });
+
+  it('warns when a family exceeds the AWS rule quota', () => {
+    const cidrs = Array.from({ length: 61 }, (_, index) => `10.0.${index * 2}.0/24`);
+
+    expect(FirewallRuleService.generate({ cidrs, action: 'allow', targets: ['aws'] }).warnings).toEqual([
+      'More than 60 prefixes per family exceeds the default AWS quota'
+    ]);
+  });
+
+  it.each([
+    [{ action: 'reject' }, 'Action must be "allow" or "deny"'],
+    [{ analysisId: 'x"; rm -rf /' }, 'Analysis ID may only contain letters, digits, ".", ":", "_" and "-"'],
+    [{ name: '1table' }, 'Name must start with a letter and contain only letters, digits and "_"'],
+    [{ targets: ['ufw'] }, 'Targets must be one or more of: iptables, nftables, cisco, pf, aws, nginx'],
+    [{ targets: [] }, 'Targets must be one or more of: iptables, nftables, cisco, pf, aws, nginx'],
+    [{ cidrs: [] }, 'At least one address or prefix is needed']
+  ])('rejects %j', (request, message) => {
+    expect(() => FirewallRuleService.generate({ ...REQUEST, ...request } as FirewallRuleRequest)).toThrow(message);
+  });
+});
@@ -0,0 +1,304 @@
+import { IPClassificationService } from '../ipClassification';
+
+describe('IPClassificationService', () => {
+  describe('special-purpose registry', () => {
+    it.each([
+      ['10.1.2.3', 'private'],
+      ['172.31.255.255', 'private'],
+      ['100.64.0.1', 'cgnat'],
+      ['127.0.0.1', 'loopback'],
+      ['169.254.1.1', 'link-local'],
+      ['192.0.2.1', 'documentation'],
+      ['198.18.0.1', 'reserved'],
+      ['240.0.0.1', 'reserved'],
+      ['255.255.255.255', 'broadcast'],
+      ['224.0.0.1', 'multicast'],
+      ['8.8.8.8', 'public'],
+      ['::1', 'loopback'],
+      ['::', 'reserved'],
+      ['fd00::1', 'private'],
+      ['fe80::1', 'link-local'],
+      ['2001:db8::1', 'documentation'],
+      ['3fff::1', 'documentation'],
+      ['ff02::1', 'multicast'],
+      ['2606:4700::1111', 'public']
+    ])('classifies %s as %s', (ipAddress, type) => {
+      expect(IPClassificationService.classifyIP(ipAddress)).toBe(type);
+    });
+
+    it('reports the most specific registry entry', () => {
+      expect(IPClassificationService.getSpecialPurpose('0.0.0.0')).toMatchObject({
+        cidr: '0.0.0.0/32',
+        name: 'This host on this network'
+      });
+      expect(IPClassificationService.getSpecialPurpose('0.1.2.3')?.cidr).toBe('0.0.0.0/8');
+
+      // Anycast blocks inside the reserved 192.0.0.0/24 are globally reachable
+      expect(IPClassificationService.getSpecialPurpose('192.0.0.9')).toMatchObject({
+        cidr: '192.0.0.9/32',
+        globallyReachable: true,
+        type: 'public'
+      });
+      expect(IPClassificationService.getSpecialPurpose('192.0.0.200')).toMatchObject({
+        cidr: '192.0.0.0/24',
+        globallyReachable: false
+      });
+      expect(IPClassificationService.classifyIP('2001:1::1')).toBe('public');
+      expect(IPClassificationService.classifyIP('2001:1::4')).toBe('reserved');
+    });
+
+    it('reports the registry attributes of an entry', () => {
+      expect(IPClassificationService.getSpecialPurpose('127.0.0.1')).toEqual({
+        cidr: '127.0.0.0/8',
+        name: 'Loopback',
+        rfc: 'RFC 1122',
+        source: false,
+        destination: false,
+        forwardable: false,
+        globallyReachable: false,
+        reservedByProtocol: true,
+        type: 'loopback'
+      });
+    });
+
+    it('returns no entry for public and multicast space', () => {
+      expect(IPClassificationService.getSpecialPurpose('8.8.8.8')).toBeNull();
+      expect(IPClassificationService.getSpecialPurpose('224.0.0.1')).toBeNull();
+      expect(IPClassificationService.findIPRange('8.8.8.8')).toBeUndefined();
+    });
+
+    it('classifies IPv4-mapped addresses by the IPv4 address they carry', () => {
+      expect(IPClassificationService.classifyIP('::ffff:10.0.0.1')).toBe('private');
+      expect(IPClassificationService.classifyIP('::ffff:8.8.8.8')).toBe('public');
+      expect(IPClassificationService.getSpecialPurpose('::ffff:127.0.0.1')?.cidr).toBe('127.0.0.0/8');
+      expect(IPClassificationService.findIPRange('::ffff:192.168.1.1')).toMatchObject({
+        start: '192.168.0.0',
+        end: '192.168.255.255',
+        cidr: '192.168.0.0/16',
+        type: 'private'
+      });
+    });
+
+    it('rejects invalid addresses', () => {
+      expect(() => IPClassificationService.classifyIP('10.0.0.256')).toThrow('Invalid IP address: 10.0.0.256');
+      expect(IPClassificationService.getSpecialPurpose('not an address')).toBeNull();
+    });
+  });
+
+  describe('calculateSubnet', () => {
+    it('calculates an IPv4 subnet from a netmask', () => {
+      expect(IPClassificationService.calculateSubnet('192.168.1.100', '255.255.255.0')).toEqual({
+        cidr: '192.168.1.0/24',
+        network: '192.168.1.0',
+        prefixLength: 24,
+        totalAddresses: '256',
+        parent: '192.168.0.0/23',
+        children: ['192.168.1.0/25', '192.168.1.128/25'],
+        version: 4,
+        firstHost: '192.168.1.1',
+        lastHost: '192.168.1.254',
+        broadcast: '192.168.1.255',
+        subnetMask: '255.255.255.0',
+        wildcardMask: '0.0.0.255',
+        totalHosts: 256,
+        usableHosts: 254
+      });
+    });
+
+    it('uses every address of a /31 and reports no broadcast for /31 and /32', () => {
+      const pointToPoint = IPClassificationService.calculateSubnet('10.0.0.1', '31');
+      expect(pointToPoint).toMatchObject({ firstHost: '10.0.0.0', lastHost: '10.0.0.1', usableHosts: 2 });
+      expect(pointToPoint).not.toHaveProperty('broadcast');
+
+      const host = IPClassificationService.calculateSubnet('10.0.0.1', '/32');
+      expect(host).toMatchObject({ firstHost: '10.0.0.1', lastHost: '10.0.0.1', usableHosts: 1, children: [] });
+      expect(host).not.toHaveProperty('broadcast');
+    });
+
+    it('covers the whole IPv4 space at /0', () => {
+      expect(IPClassificationService.calculateSubnet('192.0.2.1', '0')).toMatchObject({
+        cidr: '0.0.0.0/0',
+        parent: null,
+        broadcast: '255.255.255.255',
+        totalAddresses: '4294967296',
+        usableHosts: 4294967294
+      });
+    });
+
+    it('calculates IPv6 subnets from a prefix length or netmask', () => {
+      expect(IPClassificationService.calculateSubnet('2001:db8:1:2::5', '48')).toEqual({
+        cidr: '2001:db8:1::/48',
+        network: '2001:db8:1::',
+        prefixLength: 48,
+        totalAddresses: (2n ** 80n).toString(),
+        parent: '2001:db8::/47',
+        children: ['2001:db8:1::/49', '2001:db8:1:8000::/49'],
+        version: 6,
+        firstHost: '2001:db8:1::',
+        lastHost: '2001:db8:1:ffff:ffff:ffff:ffff:ffff',
+        lastAddress: '2001:db8:1:ffff:ffff:ffff:ffff:ffff',
+        subnets64: '65536'
+      });
+      expect(IPClassificationService.calculateSubnet('2001:db8::1', 'ffff:ffff:ffff:ffff::')).toMatchObject({
+        cidr: '2001:db8::/64',
+        subnets64: '1'
+      });
+      expect(IPClassificationService.calculateSubnet('::', '0').totalAddresses).toBe((2n ** 128n).toString());
+    });
+
+    it('rejects invalid masks', () => {
+      expect(() => IPClassificationService.calculateSubnet('10.0.0.1', '33')).toThrow('CIDR must be between 0 and 32');
+      expect(() => IPClassificationService.calculateSubnet('10.0.0.1', '255.0.255.0')).toThrow(
+        'Invalid subnet mask: 255.0.255.0 is not contiguous'
+      );
+      expect(() => IPClassificationService.calculateSubnet('10.0.0.1', 'ffff::')).toThrow(
+        'Subnet mask ffff:: is not an IPv4 mask'
+      );
+      expect(() => IPClassificationService.calculateSubnet('10.0.0', '24')).toThrow(
+        'Invalid IP address or subnet mask'
+      );
+    });
+  });
+
+  describe('masks', () => {
+    it('converts between prefix lengths and masks', () => {
+      expect(IPClassificationService.cidrToSubnetMask(20)).toBe('255.255.240.0');
+      expect(IPClassificationService.cidrToSubnetMask(56, 6)).toBe('ffff:ffff:ffff:ff00::');
+      expect(IPClassificationService.cidrToWildcardMask(20)).toBe('0.0.15.255');
+      expect(IPClassificationService.subnetMaskToCidr('255.255.240.0')).toBe(20);
+      expect(IPClassificationService.subnetMaskToCidr('ffff:ffff:ffff:ff00::')).toBe(56);
+      expect(IPClassificationService.subnetMaskToCidr('0.0.0.0')).toBe(0);
+    });
+  });
+
+  describe('set operations', () => {
+    it('aggregates overlapping and adjacent prefixes of both families', () => {
+      expect(
+        IPClassificationService.aggregateCIDRs([
+          '10.0.1.0/24',
+          '2001:db8:1::/48',
+          '10.0.0.0/24',
+          '10.0.0.128/25',
+          '2001:db8::/48',
+          '192.0.2.7'
+        ])
+      ).toEqual(['10.0.0.0/23', '192.0.2.7/32', '2001:db8::/47']);
+    });
+
+    it('cuts every excluded range out of the ranges it overlaps', () => {
+      expect(
+        IPClassificationService.excludeCIDRs(
+          ['10.0.0.0/24', '10.0.2.0/24', '2001:db8::/32'],
+          ['10.0.0.0/26', '10.0.0.32/27', '10.0.0.192/26', '10.0.1.0/24', '10.0.2.128/32', '2001:db8::/33']
+        )
+      ).toEqual([
+        '10.0.0.64/26',
+        '10.0.0.128/26',
+        '10.0.2.0/25',
+        '10.0.2.129/32',
+        '10.0.2.130/31',
+        '10.0.2.132/30',
+        '10.0.2.136/29',
+        '10.0.2.144/28',
+        '10.0.2.160/27',
+        '10.0.2.192/26',
+        '2001:db8:8000::/33'
+      ]);
+      expect(IPClassificationService.excludeCIDRs(['10.0.0.0/24'], ['0.0.0.0/0'])).toEqual([]);
+      expect(IPClassificationService.excludeCIDRs(['10.0.0.0/24'], ['::/0'])).toEqual(['10.0.0.0/24']);
+    });
+
+    it('intersects ranges that overlap several others', () => {
+      expect(
+        IPClassificationService.intersectCIDRs(
+          ['10.0.0.0/16', '192.168.0.0/24', '2001:db8::/32'],
+          ['10.0.1.0/24', '10.0.3.0/24', '10.1.0.0/16', '192.168.0.128/25', '::/0']
+        )
+      ).toEqual(['10.0.1.0/24', '10.0.3.0/24', '192.168.0.128/25', '2001:db8::/32']);
+      expect(IPClassificationService.intersectCIDRs(['10.0.0.0/24'], ['10.0.1.0/24'])).toEqual([]);
+    });
+
+    it('matches a per-address computation on random prefixes', () => {
+      // Deterministic pseudo-random numbers so a failure can be reproduced
+      let seed = 7;
+      const random = (limit: number): number => {
+        seed = (seed * 48271) % 2147483647;
+        return seed % limit;
+      };
+      const randomPrefixes = (): string[] =>
+        Array.from({ length: 1 + random(8) }, () => `10.0.0.${random(256)}/${25 + random(8)}`);
+      // Addresses of 10.0.0.0/24 covered by a list of prefixes
+      const addresses = (cidrs: string[]): number[] =>
+        cidrs.flatMap(cidr => {
+          const [address = '', prefixLength = ''] = cidr.split('/');
+          const first = Number(address.split('.')[3]);
+          return Array.from({ length: 2 ** (32 - Number(prefixLength)) }, (_, offset) => first + offset);
+        });
+
+      for (let round = 0; round < 200; round++) {
+        const a = randomPrefixes();
+        const b = randomPrefixes();
+        // Host bits are cleared first, as the service does
+        const inA = new Set(addresses(IPClassificationService.aggregateCIDRs(a)));
+        const inB = new Set(addresses(IPClassificationService.aggregateCIDRs(b)));
+
+        expect(addresses(IPClassificationService.excludeCIDRs(a, b))).toEqual(
+          [...inA].filter(value => !inB.has(value)).sort((x, y) => x - y)
+        );
+        expect(addresses(IPClassificationService.intersectCIDRs(a, b))).toEqual(
+          [...inA].filter(value => inB.has(value)).sort((x, y) => x - y)
+        );
+      }
+    });
+
+    it('refuses results with too many prefixes', () => {
+      // Single addresses at an odd spacing leave about 19 prefixes between each pair
+      const holes = Array.from({ length: 7000 }, (_, index) => {
+        const value = index * 600001;
+        return [24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) % 256).join('.');
+      });
+
+      expect(() => IPClassificationService.excludeCIDRs(['0.0.0.0/0'], holes)).toThrow(
+        'Result would contain more than 100000 prefixes'
+      );
+    });
+
+    it('splits a prefix by count or prefix length', () => {
+      expect(IPClassificationService.splitCIDR('10.0.0.0/24', { count: 3 })).toEqual([
+        '10.0.0.0/26',
+        '10.0.0.64/26',
+        '10.0.0.128/26',
+        '10.0.0.192/26'
+      ]);
+      expect(IPClassificationService.splitCIDR('2001:db8::/32', { prefixLength: 34 })).toEqual([
+        '2001:db8::/34',
+        '2001:db8:4000::/34',
+        '2001:db8:8000::/34',
+        '2001:db8:c000::/34'
+      ]);
+      expect(() => IPClassificationService.splitCIDR('10.0.0.0/24', { prefixLength: 23 })).toThrow(
+        'Cannot split a /24 into /23 subnets'
+      );
+      expect(() => IPClassificationService.splitCIDR('10.0.0.0/8', { prefixLength: 24 })).toThrow(
+        'Splitting into /24 would produce more than 4096 subnets'
+      );
+    });
+
+    it('covers an arbitrary range exactly', () => {
+      expect(IPClassificationService.rangeToCIDRs('10.0.0.1', '10.0.0.10')).toEqual([
+        '10.0.0.1/32',
+        '10.0.0.2/31',
+        '10.0.0.4/30',
+        '10.0.0.8/31',
+        '10.0.0.10/32'
+      ]);
+      expect(IPClassificationService.rangeToCIDRs('::', 'ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff')).toEqual(['::/0']);
+      expect(() => IPClassificationService.rangeToCIDRs('10.0.0.2', '10.0.0.1')).toThrow(
+        'Range start 10.0.0.2 is after its end 10.0.0.1'
+      );
+      expect(() => IPClassificationService.rangeToCIDRs('10.0.0.1', '::1')).toThrow(
+        'Range start and end must be of the same address family'
+      );
+    });
+  });
+});
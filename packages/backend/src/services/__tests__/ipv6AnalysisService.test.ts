@@ -0,0 +1,72 @@
+import { IPv6AnalysisService } from '../ipv6AnalysisService';
+
+describe('IPv6AnalysisService', () => {
+  it('writes the address in canonical and expanded form with its /64', () => {
+    expect(IPv6AnalysisService.analyze('2001:0DB8:0:0:0::10:25')).toEqual({
+      compressed: '2001:db8::10:25',
+      expanded: '2001:0db8:0000:0000:0000:0000:0010:0025',
+      prefix: '2001:db8::/64',
+      interfaceId: '0000:0000:0010:0025',
+      interfaceIdType: 'low-order',
+      likelyPrivacyAddress: false
+    });
+  });
+
+  it('recovers the MAC from an EUI-64 interface identifier', () => {
+    expect(IPv6AnalysisService.analyze('fe80::21a:2bff:fe3c:4d5e')).toMatchObject({
+      interfaceIdType: 'eui-64',
+      mac: '00:1a:2b:3c:4d:5e'
+    });
+    // The universal/local bit is inverted, so an identifier with it clear came from a locally administered MAC
+    expect(IPv6AnalysisService.analyze('2001:db8::1a:2bff:fe3c:4d5e').mac).toBe('02:1a:2b:3c:4d:5e');
+  });
+
+  it('flags randomized global identifiers as likely privacy addresses', () => {
+    expect(IPv6AnalysisService.analyze('2001:db8::3c4d:15ff:e2a1:7b9c')).toMatchObject({
+      interfaceIdType: 'randomized',
+      likelyPrivacyAddress: true
+    });
+    // Link-local addresses are never used as privacy addresses
+    expect(IPv6AnalysisService.analyze('fe80::3c4d:15ff:e2a1:7b9c').likelyPrivacyAddress).toBe(false);
+  });
+
+  it('decodes Teredo server, flags, port and client address', () => {
+    // RFC 4380 section 4: server 65.54.227.120, cone NAT, client 192.0.2.45:40000
+    expect(IPv6AnalysisService.analyze('2001:0:4136:e378:8000:63bf:3fff:fdd2')).toMatchObject({
+      interfaceIdType: 'embedded-ipv4',
+      transition: {
+        mechanism: 'teredo',
+        ipv4: '192.0.2.45',
+        teredo: { server: '65.54.227.120', port: 40000, cone: true, flags: 0x8000 }
+      }
+    });
+  });
+
+  it('decodes ISATAP identifiers in both forms', () => {
+    expect(IPv6AnalysisService.analyze('fe80::5efe:192.0.2.143')).toMatchObject({
+      interfaceIdType: 'isatap',
+      transition: { mechanism: 'isatap', ipv4: '192.0.2.143' }
+    });
+    expect(IPv6AnalysisService.analyze('2001:db8::200:5efe:c000:28f').transition).toEqual({
+      mechanism: 'isatap',
+      ipv4: '192.0.2.143'
+    });
+  });
+
+  it.each([
+    ['2002:c000:204::1', '6to4', '192.0.2.4', 'low-order'],
+    ['64:ff9b::192.0.2.33', 'nat64', '192.0.2.33', 'embedded-ipv4'],
+    ['::ffff:192.0.2.1', 'ipv4-mapped', '192.0.2.1', 'embedded-ipv4']
+  ])('reads the IPv4 address embedded in %s', (ipAddress, mechanism, ipv4, interfaceIdType) => {
+    expect(IPv6AnalysisService.analyze(ipAddress)).toMatchObject({ interfaceIdType, transition: { mechanism, ipv4 } });
+  });
+
+  it('reports no transition mechanism for native addresses', () => {
+    expect(IPv6AnalysisService.analyze('2606:4700::1111')).not.toHaveProperty('transition');
+  });
+
+  it('rejects IPv4 and invalid input', () => {
+    expect(() => IPv6AnalysisService.analyze('192.0.2.1')).toThrow('Invalid IPv6 address: 192.0.2.1');
+    expect(() => IPv6AnalysisService.analyze('2001:db8::g')).toThrow('Invalid IPv6 address: 2001:db8::g');
+  });
+});
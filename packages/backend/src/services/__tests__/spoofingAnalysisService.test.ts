@@ -0,0 +1,110 @@
+import { Request } from 'express';
+import { ClientIPHeaderService } from '../clientIPHeaderService';
+import { SpoofingAnalysisService, SpoofingIndicator, SpoofingIndicatorType } from '../spoofingAnalysisService';
+import { TrustedProxyService } from '../trustedProxyService';
+
+// Private peers are trusted proxies, public ones are not
+const PROXY = '10.0.0.1';
+const STRANGER = '8.8.4.4';
+
+const request = (headers: Record<string, string>, peerIP: string = PROXY): Request => {
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  return {
+    headers: lowerCased,
+    get: (name: string) => lowerCased[name.toLowerCase()],
+    socket: { remoteAddress: peerIP }
+  } as unknown as Request;
+};
+
+const indicator = (type: SpoofingIndicatorType, req: Request): SpoofingIndicator | undefined =>
+  SpoofingAnalysisService.analyze(req).indicators.find(candidate => candidate.type === type);
+
+describe('SpoofingAnalysisService', () => {
+  beforeEach(() => {
+    TrustedProxyService.configure(['loopback', 'private']);
+    ClientIPHeaderService.configure(['standard']);
+  });
+
+  it('finds nothing in a chain delivered by a trusted proxy', () => {
+    expect(SpoofingAnalysisService.analyze(request({ 'X-Forwarded-For': '1.1.1.1' }))).toEqual({
+      suspected: false,
+      riskScore: 0,
+      indicators: []
+    });
+  });
+
+  it('flags a CDN header carrying a non-public address', () => {
+    expect(indicator('private_ip_in_cdn_header', request({ 'CF-Connecting-IP': '192.168.1.10' }))).toMatchObject({
+      severity: 'high',
+      header: 'cf-connecting-ip',
+      values: ['192.168.1.10']
+    });
+    expect(indicator('private_ip_in_cdn_header', request({ 'CF-Connecting-IP': '1.1.1.1' }))).toBeUndefined();
+  });
+
+  it('notes headers sent by a peer that is not trusted for them', () => {
+    const analysis = SpoofingAnalysisService.analyze(request({ 'X-Real-IP': '1.1.1.1' }, STRANGER));
+
+    expect(analysis.indicators).toEqual([
+      expect.objectContaining({ type: 'untrusted_forwarding_header', severity: 'low', values: ['1.1.1.1'] })
+    ]);
+    // Low-severity findings alone do not make a request suspect
+    expect(analysis).toMatchObject({ suspected: false, riskScore: 10 });
+  });
+
+  it('flags an X-Forwarded-For chain that does not end at a trusted proxy', () => {
+    expect(indicator('chain_not_anchored', request({ 'X-Forwarded-For': '1.1.1.1' }, STRANGER))).toMatchObject({
+      severity: 'medium',
+      values: ['1.1.1.1']
+    });
+    // Claiming only a private origin gains the client nothing
+    expect(indicator('chain_not_anchored', request({ 'X-Forwarded-For': '10.0.0.9' }, STRANGER))?.severity).toBe('low');
+  });
+
+  it('flags Forwarded and X-Forwarded-For chains that disagree', () => {
+    expect(
+      indicator('forwarded_xff_mismatch', request({ 'X-Forwarded-For': '1.1.1.1', Forwarded: 'for=9.9.9.9' }))
+    ).toMatchObject({ severity: 'medium', values: ['9.9.9.9'] });
+    expect(
+      indicator('forwarded_xff_mismatch', request({ 'X-Forwarded-For': '1.1.1.1', Forwarded: 'for=1.1.1.1' }))
+    ).toBeUndefined();
+    // Obfuscated nodes cannot be compared
+    expect(
+      indicator('forwarded_xff_mismatch', request({ 'X-Forwarded-For': '1.1.1.1', Forwarded: 'for="_hidden"' }))
+    ).toBeUndefined();
+  });
+
+  it('flags trusted headers that name different clients', () => {
+    expect(
+      indicator('conflicting_client_headers', request({ 'X-Forwarded-For': '1.1.1.1', 'X-Real-IP': '9.9.9.9' }))
+    ).toMatchObject({ severity: 'medium', values: ['1.1.1.1', '9.9.9.9'] });
+    expect(
+      indicator('conflicting_client_headers', request({ 'X-Forwarded-For': '1.1.1.1', 'X-Real-IP': '1.1.1.1' }))
+    ).toBeUndefined();
+  });
+
+  it('flags hops no client can be behind', () => {
+    expect(
+      indicator('impossible_chain', request({ 'X-Forwarded-For': '127.0.0.1, 0.0.0.0, 224.0.0.1, 1.1.1.1' }))
+    ).toMatchObject({ severity: 'high', header: 'x-forwarded-for', values: ['127.0.0.1', '0.0.0.0', '224.0.0.1'] });
+    // A proxy on the same host reports its client as loopback in the last hop
+    expect(indicator('impossible_chain', request({ 'X-Forwarded-For': '1.1.1.1, 127.0.0.1' }))).toBeUndefined();
+  });
+
+  it('flags chain entries that are not addresses', () => {
+    expect(indicator('malformed_chain', request({ 'X-Forwarded-For': 'evil, 1.1.1.1' }))).toMatchObject({
+      severity: 'medium',
+      values: ['evil']
+    });
+    expect(indicator('malformed_chain', request({ Forwarded: 'for=unknown, for="_hidden"' }))).toBeUndefined();
+  });
+
+  it('caps the risk score at 100', () => {
+    const analysis = SpoofingAnalysisService.analyze(
+      request({ 'X-Forwarded-For': 'evil, 127.0.0.1, 1.1.1.1', 'CF-Connecting-IP': '192.168.1.10' }, STRANGER)
+    );
+
+    expect(analysis.suspected).toBe(true);
+    expect(analysis.riskScore).toBe(100);
+  });
+});
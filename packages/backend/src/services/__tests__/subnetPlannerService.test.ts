@@ -0,0 +1,112 @@
+import { SubnetPlannerService } from '../subnetPlannerService';
+
+describe('SubnetPlannerService', () => {
+  it('allocates the largest subnets first and reports the free space', () => {
+    const plan = SubnetPlannerService.plan({
+      parent: '192.168.1.0/24',
+      requirements: [
+        { name: 'HR', hosts: 50 },
+        { name: 'Sales', hosts: 100 },
+        { name: 'Link', hosts: 2, count: 2 },
+        { name: 'IT', hosts: 20 }
+      ]
+    });
+
+    expect(plan.allocations.map(({ name, cidr, usableHosts, wasted }) => [name, cidr, usableHosts, wasted])).toEqual([
+      ['Sales', '192.168.1.0/25', '126', '26'],
+      ['HR', '192.168.1.128/26', '62', '12'],
+      ['IT', '192.168.1.192/27', '30', '10'],
+      // A /31 point-to-point link uses both of its addresses
+      ['Link 1', '192.168.1.224/31', '2', '0'],
+      ['Link 2', '192.168.1.226/31', '2', '0']
+    ]);
+    expect(plan).toMatchObject({
+      parent: '192.168.1.0/24',
+      unallocated: [],
+      totalAddresses: '256',
+      allocatedAddresses: '228',
+      wastedAddresses: '48',
+      freeAddresses: '28',
+      free: ['192.168.1.228/30', '192.168.1.232/29', '192.168.1.240/28']
+    });
+  });
+
+  it('reports the host range of each allocation', () => {
+    const [allocation] = SubnetPlannerService.plan({
+      parent: '10.0.0.0/16',
+      requirements: [{ name: 'Servers', hosts: 500 }]
+    }).allocations;
+
+    expect(allocation).toEqual({
+      name: 'Servers',
+      requestedHosts: 500,
+      plannedHosts: 500,
+      cidr: '10.0.0.0/23',
+      prefixLength: 23,
+      firstHost: '10.0.0.1',
+      lastHost: '10.0.1.254',
+      usableHosts: '510',
+      wasted: '10'
+    });
+  });
+
+  it('adds headroom before sizing a subnet', () => {
+    const plan = SubnetPlannerService.plan({
+      parent: '10.0.0.0/24',
+      requirements: [{ name: 'Office', hosts: 55 }],
+      headroom: 20
+    });
+
+    expect(plan.allocations[0]).toMatchObject({ plannedHosts: 66, cidr: '10.0.0.0/25', wasted: '71' });
+  });
+
+  it('rounds IPv6 prefixes down to the alignment', () => {
+    const plan = SubnetPlannerService.plan({
+      parent: '2001:db8::/48',
+      requirements: [
+        { name: 'Hosts', hosts: 1000 },
+        { name: 'Site', hosts: 2 ** 20 + 1 }
+      ],
+      alignment: 4
+    });
+
+    expect(plan.allocations.map(({ name, cidr }) => [name, cidr])).toEqual([
+      ['Site', '2001:db8::/104'],
+      ['Hosts', '2001:db8::100:0/116']
+    ]);
+  });
+
+  it('lists the subnets that do not fit', () => {
+    const plan = SubnetPlannerService.plan({
+      parent: '10.0.0.0/26',
+      requirements: [
+        { name: 'Large', hosts: 100 },
+        { name: 'A', hosts: 30 },
+        { name: 'B', hosts: 30 },
+        { name: 'C', hosts: 30 }
+      ]
+    });
+
+    expect(plan.allocations.map(allocation => allocation.cidr)).toEqual(['10.0.0.0/27', '10.0.0.32/27']);
+    expect(plan.unallocated).toEqual([
+      { name: 'Large', requestedHosts: 100, prefixLength: 25, reason: 'Needs more addresses than 10.0.0.0/26 holds' },
+      { name: 'C', requestedHosts: 30, prefixLength: 27, reason: 'No free /27 left in 10.0.0.0/26' }
+    ]);
+    expect(plan.free).toEqual([]);
+  });
+
+  it.each([
+    [{ requirements: [] }, 'At least one subnet requirement is needed'],
+    [{ requirements: [{ name: ' ', hosts: 1 }] }, 'Requirement 0 needs a name'],
+    [{ requirements: [{ name: 'A', hosts: 0 }] }, 'Requirement A needs a positive whole number of hosts'],
+    [{ requirements: [{ name: 'A', hosts: 1, count: 1.5 }] }, 'Requirement A needs a positive whole count'],
+    [{ requirements: [{ name: 'A', hosts: 1, count: 5000 }] }, 'A plan may request at most 4096 subnets'],
+    [{ requirements: [{ name: 'A', hosts: 1 }], headroom: -1 }, 'Headroom must be a non-negative percentage'],
+    [
+      { requirements: [{ name: 'A', hosts: 1 }], alignment: 33 },
+      'Alignment must be a whole number of bits between 1 and 32'
+    ]
+  ])('rejects %j', (request, message) => {
+    expect(() => SubnetPlannerService.plan({ parent: '10.0.0.0/24', ...request })).toThrow(message);
+  });
+});
@@ -0,0 +1,188 @@
+import { AddressNotations } from '@/types/ip';
+import { IPVersion, bigIntToIP, expandIPv6, parseIP, parseInetAton } from '@/utils/ipAddress';
+
+// scheme://[userinfo@]host - the host is kept exactly as written
+const URL_HOST = /^[a-z][a-z0-9+.-]*:\/\/(?:([^@/?#]*)@)?(\[[^\]]*\]|[^/:?#]*)/i;
+const PTR_V4 = /^((?:\d{1,3}\.){4})in-addr\.arpa\.?$/i;
+const PTR_V6 = /^((?:[0-9a-f]\.){32})ip6\.arpa\.?$/i;
+// Decimal or hex whole number, which inet_aton reads as an IPv4 address
+const INTEGER = /^(?:\d+|0x[0-9a-f]+)$/i;
+
+interface ParsedInput {
+  version: IPVersion;
+  value: bigint;
+  zone?: string;
+  obfuscation: string[];
+}
+
+/**
+ * Converts an address between notations and reads the non-canonical forms attackers use
+ * to slip addresses past filters: inet_aton shorthand, hex and octal parts, whole-number
+ * addresses and IPv4 hidden inside IPv6.
+ */
+export class AddressNotationService {
+  static convert(input: string): AddressNotations {
+    const parsed = this.parse(input.trim());
+    if (!parsed) {
+      throw new Error(this.describeRejection(input));
+    }
+
+    const { version, value, obfuscation } = parsed;
+    return {
+      input,
+      address: bigIntToIP(value, version),
+      version,
+      obfuscated: obfuscation.length > 0,
+      obfuscation,
+      notations: version === 4 ? this.ipv4Notations(value) : this.ipv6Notations(value, parsed.zone)
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Explain why inet_aton-style input was refused. Whole numbers above 32 bits are not
+   * read as IPv6 either, and a leading zero makes a part octal, where 8 and 9 are invalid.
+   */
+  private static describeRejection(input: string): string {
+    const parts = input.trim().split('.');
+    if (!parts.every(part => INTEGER.test(part))) {
+      return `Unrecognized address notation: ${input}`;
+    }
+
+    const invalidOctal = parts.find(part => /^0\d*[89]/.test(part));
+    if (invalidOctal !== undefined) {
+      return `Octal part ${invalidOctal} of ${input} contains the digit 8 or 9`;
+    }
+
+    const [whole] = parts;
+    if (parts.length === 1 && whole !== undefined) {
+      const value = BigInt(/^0\d/.test(whole) ? `0o${whole.slice(1)}` : whole);
+      if (value > 0xffffffffn) {
+        return `Whole-number address ${input} is larger than 4294967295, the highest IPv4 address`;
+      }
+    }
+
+    return `Unrecognized address notation: ${input}`;
+  }
+
+  private static parse(input: string): ParsedInput | null {
+    const url = input.match(URL_HOST);
+    if (url) {
+      const parsed = this.parse((url[2] ?? '').replace('%25', '%'));
+      if (parsed && url[1] !== undefined) {
+        parsed.obfuscation.push(`URL hides the host behind userinfo "${url[1]}@"`);
+      }
+      return parsed;
+    }
+
+    const zone = input.match(/%([^\]]+)\]?$/)?.[1];
+    const canonical = parseIP(input);
+    if (canonical) {
+      return {
+        ...canonical,
+        ...(canonical.version === 6 && zone !== undefined && { zone }),
+        obfuscation: canonical.version === 6 ? this.embeddedIPv4(canonical.value) : []
+      };
+    }
+
+    const aton = parseInetAton(input);
+    if (aton) {
+      return { version: 4, value: aton.value, obfuscation: this.atonObfuscation(aton.parts) };
+    }
+
+    return this.parsePTR(input);
+  }
+
+  /**
+   * Why an inet_aton form differs from the dotted quad most filters expect
+   */
+  private static atonObfuscation(parts: string[]): string[] {
+    const reasons: string[] = [];
+
+    if (parts.length === 1) {
+      reasons.push('Whole address written as a single 32-bit number');
+    } else if (parts.length < 4) {
+      reasons.push(`${parts.length}-part shorthand; the last part fills the remaining bytes`);
+    }
+    parts.forEach(part => {
+      if (/^0x/i.test(part)) reasons.push(`Hexadecimal part ${part}`);
+      else if (part.length > 1 && part.startsWith('0')) reasons.push(`Octal part ${part} (leading zero)`);
+    });
+
+    return reasons;
+  }
+
+  /**
+   * IPv6 forms that carry an IPv4 address and reach it on dual-stack hosts
+   */
+  private static embeddedIPv4(value: bigint): string[] {
+    const ipv4 = bigIntToIP(value & 0xffffffffn, 4);
+    if (value >> 32n === 0xffffn) {
+      return [`IPv4-mapped IPv6 form of ${ipv4}`];
+    }
+    if (value >> 32n === 0n && value > 1n) {
+      return [`Deprecated IPv4-compatible IPv6 form of ${ipv4}`];
+    }
+    return [];
+  }
+
+  private static parsePTR(input: string): ParsedInput | null {
+    const v4 = input.match(PTR_V4);
+    if (v4) {
+      const address = parseIP((v4[1] ?? '').slice(0, -1).split('.').reverse().join('.'));
+      return address ? { ...address, obfuscation: [] } : null;
+    }
+
+    const v6 = input.match(PTR_V6);
+    if (v6) {
+      const nibbles = (v6[1] ?? '').slice(0, -1).split('.').reverse().join('');
+      return { version: 6, value: BigInt(`0x${nibbles}`), obfuscation: [] };
+    }
+
+    return null;
+  }
+
+  private static ipv4Notations(value: bigint): AddressNotations['notations'] {
+    const dotted = bigIntToIP(value, 4);
+    const octets = dotted.split('.').map(Number);
+
+    return {
+      dotted,
+      integer: value.toString(),
+      hex: `0x${value.toString(16).padStart(8, '0')}`,
+      octal: `0${value.toString(8)}`,
+      binary: octets.map(octet => octet.toString(2).padStart(8, '0')).join('.'),
+      dottedHex: octets.map(octet => `0x${octet.toString(16).padStart(2, '0')}`).join('.'),
+      dottedOctal: octets.map(octet => `0${octet.toString(8)}`).join('.'),
+      ipv4Mapped: `::ffff:${dotted}`,
+      ptr: `${[...octets].reverse().join('.')}.in-addr.arpa`,
+      bracketed: dotted,
+      url: `http://${dotted}/`
+    };
+  }
+
+  private static ipv6Notations(value: bigint, zone?: string): AddressNotations['notations'] {
+    const compressed = bigIntToIP(value, 6);
+    const hex = value.toString(16).padStart(32, '0');
+    // Zone identifiers are percent-encoded inside URLs (RFC 6874)
+    const host = zone !== undefined ? `[${compressed}%25${zone}]` : `[${compressed}]`;
+    // Host names cannot hold the dotted tail of IPv4-mapped addresses
+    const literal =
+      value >> 32n === 0xffffn
+        ? `::ffff:${((value >> 16n) & 0xffffn).toString(16)}:${(value & 0xffffn).toString(16)}`
+        : compressed;
+
+    return {
+      full: expandIPv6(value),
+      compressed,
+      integer: value.toString(),
+      hex: `0x${hex}`,
+      binary: (value.toString(2).padStart(128, '0').match(/.{16}/g) ?? []).join(':'),
+      ptr: `${hex.split('').reverse().join('.')}.ip6.arpa`,
+      bracketed: zone !== undefined ? `[${compressed}%${zone}]` : `[${compressed}]`,
+      url: `http://${host}/`,
+      ipv6Literal: `${literal.replace(/:/g, '-')}${zone !== undefined ? `s${zone}` : ''}.ipv6-literal.net`
+    };
+  }
+}
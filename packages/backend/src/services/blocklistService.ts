@@ -0,0 +1,220 @@
+import { config } from '@/config';
+import { logger } from '@/utils/logger';
+import { RangeEntry, RangeIndex, cidrEntry } from '@/utils/rangeIndex';
+import { promises as fs } from 'fs';
+import { DatasetManager } from './datasetManager';
+import { SEVERITY_ORDER, ThreatSeverity } from './threatIntel/threatIntelProvider';
+
+/**
+ * One entry of the blocklist configuration file (BLOCKLIST_CONFIG)
+ */
+export interface BlocklistDefinition {
+  name: string;
+  path: string;
+  category: string;
+  severity: ThreatSeverity;
+  description?: string;
+}
+
+export interface BlocklistMatch {
+  list: string;
+  category: string;
+  severity: ThreatSeverity;
+  cidr: string;
+  reference?: string;
+}
+
+interface BlocklistEntry {
+  cidr: string;
+  reference?: string;
+}
+
+interface LoadedBlocklist {
+  definition: BlocklistDefinition;
+  index: RangeIndex<BlocklistEntry>;
+}
+
+/**
+ * Local IP blocklists: FireHOL netsets, Spamhaus DROP/EDROP (text or JSON lines)
+ * and plain CIDR or address lists. Every list is its own dataset with its own
+ * category and severity; an address is checked against all of them.
+ */
+export class BlocklistService {
+  private static readonly lists = new Map<string, LoadedBlocklist>();
+
+  /**
+   * Read the blocklist configuration file and register each list with the DatasetManager
+   */
+  static async registerDatasets(): Promise<void> {
+    const { configPath } = config.blocklists;
+    if (configPath === undefined) {
+      logger.info('No blocklist configuration, blocklist matching disabled');
+      return;
+    }
+
+    let definitions: BlocklistDefinition[];
+    try {
+      definitions = parseBlocklistConfig(await fs.readFile(configPath, 'utf8'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to read blocklist configuration', { configPath, error: errorMessage });
+      return;
+    }
+
+    for (const definition of definitions) {
+      DatasetManager.register<LoadedBlocklist>({
+        name: `blocklist:${definition.name}`,
+        description: definition.description ?? `${definition.category} blocklist (${definition.severity})`,
+        files: [definition.path],
+        load: async () => {
+          const content = await fs.readFile(definition.path, 'utf8');
+          const { entries, header } = parseBlocklist(content);
+          const stats = await fs.stat(definition.path);
+          const index = RangeIndex.build(entries);
+
+          return {
+            value: { definition, index },
+            version: header ?? stats.mtime.toISOString(),
+            recordCounts: { entries: entries.length, ipv4Ranges: index.size[4], ipv6Ranges: index.size[6] }
+          };
+        },
+        validate: ({ recordCounts }) => (recordCounts['entries'] === 0 ? ['list contains no addresses'] : []),
+        activate: list => {
+          this.lists.set(definition.name, list);
+        }
+      });
+    }
+  }
+
+  /**
+   * Every list containing the address, most severe first
+   */
+  static lookup(ipAddress: string): BlocklistMatch[] {
+    const matches: BlocklistMatch[] = [];
+
+    for (const { definition, index } of this.lists.values()) {
+      const entry = index.lookup(ipAddress);
+      if (!entry) continue;
+
+      matches.push({
+        list: definition.name,
+        category: definition.category,
+        severity: definition.severity,
+        cidr: entry.cidr,
+        ...(entry.reference !== undefined && { reference: entry.reference })
+      });
+    }
+
+    return matches.sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity));
+  }
+
+  /**
+   * Names of the currently loaded lists
+   */
+  static getLoadedLists(): string[] {
+    return [...this.lists.keys()];
+  }
+}
+
+/**
+ * Validate the blocklist configuration: a JSON array of BlocklistDefinition
+ */
+export const parseBlocklistConfig = (content: string): BlocklistDefinition[] => {
+  const parsed = JSON.parse(content) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error('Blocklist configuration must be a JSON array');
+  }
+
+  const names = new Set<string>();
+
+  return parsed.map((item: Partial<BlocklistDefinition>, position) => {
+    const { name, path, category = 'malicious', severity = 'medium', description } = item;
+
+    if (typeof name !== 'string' || name === '' || typeof path !== 'string' || path === '') {
+      throw new Error(`Blocklist entry ${position} requires a name and a path`);
+    }
+    if (names.has(name)) {
+      throw new Error(`Duplicate blocklist name: ${name}`);
+    }
+    if (!SEVERITY_ORDER.includes(severity)) {
+      throw new Error(`Blocklist ${name} has invalid severity ${severity}, expected one of ${SEVERITY_ORDER.join(', ')}`);
+    }
+    names.add(name);
+
+    return { name, path, category, severity, ...(description !== undefined && { description }) };
+  });
+};
+
+/**
+ * Parse a blocklist file. Understands:
+ *   FireHOL netsets / plain lists   "1.2.3.0/24" or "1.2.3.4", "#" comments
+ *   Spamhaus DROP / EDROP text      "1.10.16.0/20 ; SBL256894", ";" comments
+ *   Spamhaus DROP JSON lines        {"cidr":"1.10.16.0/20","sblid":"SBL256894","rir":"apnic"}
+ * The list's own timestamp ("Last-Modified:", "# Updated", JSON "timestamp") becomes its version.
+ */
+export const parseBlocklist = (content: string): { entries: RangeEntry<BlocklistEntry>[]; header: string | null } => {
+  const entries: RangeEntry<BlocklistEntry>[] = [];
+  let header: string | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '') continue;
+
+    if (line.startsWith('#') || line.startsWith(';')) {
+      header ??= parseHeaderTimestamp(line);
+      continue;
+    }
+
+    const entry = line.startsWith('{') ? parseJSONLine(line) : parseTextLine(line);
+    if (!entry) continue;
+
+    if ('timestamp' in entry) {
+      header ??= entry.timestamp;
+      continue;
+    }
+
+    try {
+      entries.push(cidrEntry(entry.cidr, entry));
+    } catch {
+      // Skip malformed entries rather than rejecting the whole list
+    }
+  }
+
+  return { entries, header };
+};
+
+// Internal helpers
+
+function parseTextLine(line: string): BlocklistEntry | null {
+  const [cidrPart = '', comment] = line.split(/\s*[;#]\s*/, 2);
+  const cidr = cidrPart.split(/\s+/)[0] ?? '';
+  if (cidr === '') return null;
+
+  const reference = comment?.split(/\s+/)[0];
+  return reference !== undefined && reference !== '' ? { cidr, reference } : { cidr };
+}
+
+function parseJSONLine(line: string): BlocklistEntry | { timestamp: string } | null {
+  try {
+    const record = JSON.parse(line) as { cidr?: string; sblid?: string; type?: string; timestamp?: number };
+
+    // The final line of Spamhaus JSON files is metadata: {"type":"metadata","timestamp":...}
+    if (record.type === 'metadata' && record.timestamp !== undefined) {
+      return { timestamp: new Date(record.timestamp * 1000).toISOString() };
+    }
+    if (record.cidr === undefined) return null;
+
+    return record.sblid !== undefined ? { cidr: record.cidr, reference: record.sblid } : { cidr: record.cidr };
+  } catch {
+    return null;
+  }
+}
+
+function parseHeaderTimestamp(line: string): string | null {
+  const match = /(?:Last-Modified|Updated|Generated|Date)\s*:?\s*(.+)$/i.exec(line.replace(/^[#;]\s*/, ''));
+  const timestamp = match?.[1]?.trim();
+  if (timestamp === undefined || timestamp === '') return null;
+
+  const parsed = new Date(timestamp);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
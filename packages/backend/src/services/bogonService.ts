@@ -0,0 +1,116 @@
+import { config } from '@/config';
+import { AddressSpaceBlock, IPV4_ADDRESS_SPACE, IPV6_ADDRESS_SPACE } from '@/data/ianaAddressSpace';
+import { IPVersion } from '@/utils/ipAddress';
+import { logger } from '@/utils/logger';
+import { RangeEntry, RangeIndex, cidrEntry } from '@/utils/rangeIndex';
+import { promises as fs } from 'fs';
+import { DatasetManager } from './datasetManager';
+
+export interface UnroutedSpace {
+  category: 'unallocated' | 'unassigned';
+  cidr: string;
+  description: string;
+}
+
+interface FullBogonList {
+  index: RangeIndex<string>;
+  counts: Record<string, number>;
+  updatedAt: string;
+}
+
+const ADDRESS_SPACE = RangeIndex.build(
+  [...IPV4_ADDRESS_SPACE, ...IPV6_ADDRESS_SPACE].map(block => cidrEntry<AddressSpaceBlock>(block.cidr, block))
+);
+
+/**
+ * Address space no RIR hands out. The IANA registries tell which blocks were never
+ * allocated to an RIR; a full-bogons list (e.g. Team Cymru's fullbogons-ipv4.txt and
+ * fullbogons-ipv6.txt) adds space RIRs hold but have not assigned to anyone.
+ */
+export class BogonService {
+  private static fullBogons: FullBogonList | null = null;
+
+  /**
+   * Register the configured full-bogons files with the DatasetManager as one dataset
+   */
+  static registerDataset(): void {
+    const files = config.threat.fullBogonsPaths;
+    if (files.length === 0) {
+      logger.info('No full-bogons list configured, bogon detection limited to the IANA registries');
+      return;
+    }
+
+    DatasetManager.register<FullBogonList>({
+      name: 'full-bogons',
+      description: 'Full bogon prefixes (unallocated and unassigned space)',
+      files,
+      load: async () => {
+        const list = await this.loadFiles(files);
+        return { value: list, version: list.updatedAt, recordCounts: list.counts };
+      },
+      validate: ({ recordCounts }) =>
+        Object.values(recordCounts).every(count => count === 0) ? ['full-bogons list contains no prefixes'] : [],
+      activate: list => {
+        this.fullBogons = list;
+      }
+    });
+  }
+
+  /**
+   * Unallocated or unassigned space covering an already-parsed address
+   */
+  static lookup(version: IPVersion, value: bigint): UnroutedSpace | null {
+    const block = ADDRESS_SPACE.lookupValue(version, value);
+    if (block && !block.allocated) {
+      return { category: 'unallocated', cidr: block.cidr, description: `IANA: ${block.designation}` };
+    }
+
+    const cidr = this.fullBogons?.index.lookupValue(version, value) ?? null;
+    if (cidr !== null) {
+      return {
+        category: 'unassigned',
+        cidr,
+        description: `Held by ${block?.designation ?? 'an RIR'} but not assigned to any network`
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a full-bogons list is loaded - without one, RIR-held but unassigned space is not detected
+   */
+  static isFullBogonsAvailable(): boolean {
+    return this.fullBogons !== null;
+  }
+
+  // Private helper methods
+
+  private static async loadFiles(files: string[]): Promise<FullBogonList> {
+    const entries: RangeEntry<string>[] = [];
+    const counts: Record<string, number> = { ipv4: 0, ipv6: 0 };
+    let updatedAt = 0;
+
+    for (const file of files) {
+      const [content, stats] = await Promise.all([fs.readFile(file, 'utf8'), fs.stat(file)]);
+      // Team Cymru lists start with "# last updated <unix time> (<date>)"
+      const updated = content.match(/^#\s*last updated\s+(\d+)/im)?.[1];
+      updatedAt = Math.max(updatedAt, updated !== undefined ? Number(updated) * 1000 : stats.mtimeMs);
+
+      for (const line of content.split(/\r?\n/)) {
+        const cidr = line.replace(/#.*/, '').trim();
+        if (cidr === '') continue;
+
+        try {
+          const entry = cidrEntry(cidr, cidr);
+          entries.push(entry);
+          counts[`ipv${entry.version}`] = (counts[`ipv${entry.version}`] ?? 0) + 1;
+        } catch {
+          logger.warn('Ignoring invalid full-bogons entry', { file, entry: cidr });
+        }
+      }
+    }
+
+    return { index: RangeIndex.build(entries), counts, updatedAt: new Date(updatedAt).toISOString() };
+  }
+}
@@ -0,0 +1,120 @@
+import { config } from '@/config';
+import { CLIENT_IP_HEADER_PRESETS, ClientIPHeaderDefinition, ClientIPHeaderParseMode } from '@/data/clientIPHeaders';
+import { logger } from '@/utils/logger';
+import { promises as fs } from 'fs';
+
+const PARSE_MODES: ClientIPHeaderParseMode[] = ['single', 'list', 'rfc7239'];
+
+/**
+ * Catalog of the headers client addresses are read from. Each header names how its value
+ * is parsed, how confident a trusted value is and which proxies may set it.
+ */
+export class ClientIPHeaderService {
+  private static headers = resolveHeaders(config.clientIPHeaders.presets, []);
+
+  /**
+   * Load custom header definitions from CLIENT_IP_HEADERS_CONFIG (a JSON array)
+   */
+  static async initialize(): Promise<void> {
+    const { configPath, presets } = config.clientIPHeaders;
+    let custom: ClientIPHeaderDefinition[] = [];
+
+    if (configPath !== undefined) {
+      try {
+        custom = parseHeaderConfig(await fs.readFile(configPath, 'utf8'));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to read client IP header configuration', { configPath, error: errorMessage });
+      }
+    }
+
+    this.configure(presets, custom);
+    logger.info('Client IP headers configured', { headers: this.list().map(definition => definition.header) });
+  }
+
+  /**
+   * Replace the catalog with the given presets plus custom definitions
+   */
+  static configure(presets: string[], custom: ClientIPHeaderDefinition[] = []): void {
+    this.headers = resolveHeaders(presets, custom);
+  }
+
+  /**
+   * Headers in the order they are read
+   */
+  static list(): ClientIPHeaderDefinition[] {
+    return [...this.headers.values()];
+  }
+
+  static get(header: string): ClientIPHeaderDefinition | null {
+    return this.headers.get(header.toLowerCase()) ?? null;
+  }
+}
+
+/**
+ * Parse and validate a header configuration file. Entries for a header that appears in a
+ * preset only need the fields they change.
+ */
+export const parseHeaderConfig = (content: string): ClientIPHeaderDefinition[] => {
+  const parsed = JSON.parse(content) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error('Client IP header configuration must be a JSON array');
+  }
+
+  return parsed.map((item: Partial<ClientIPHeaderDefinition>, position) => {
+    if (typeof item.header !== 'string' || item.header.trim() === '') {
+      throw new Error(`Client IP header entry ${position} requires a header`);
+    }
+
+    const header = item.header.trim().toLowerCase();
+    const preset = Object.values(CLIENT_IP_HEADER_PRESETS)
+      .flat()
+      .find(candidate => candidate.header === header);
+    const edge = item.edge ?? preset?.edge;
+    const definition: ClientIPHeaderDefinition = {
+      header,
+      label: item.label ?? preset?.label ?? item.header.trim(),
+      parse: item.parse ?? preset?.parse ?? 'single',
+      confidence: item.confidence ?? preset?.confidence ?? 50,
+      trustedProxies: item.trustedProxies ?? preset?.trustedProxies ?? ['trusted'],
+      ...(edge !== undefined && { edge })
+    };
+
+    if (!PARSE_MODES.includes(definition.parse)) {
+      throw new Error(`Client IP header ${header} has invalid parse mode ${definition.parse}`);
+    }
+    if (typeof definition.confidence !== 'number' || definition.confidence < 0 || definition.confidence > 100) {
+      throw new Error(`Client IP header ${header} confidence must be between 0 and 100`);
+    }
+    if (!Array.isArray(definition.trustedProxies) || definition.trustedProxies.length === 0) {
+      throw new Error(`Client IP header ${header} requires at least one trusted proxy set`);
+    }
+
+    return definition;
+  });
+};
+
+// Internal helpers
+
+function resolveHeaders(
+  presets: string[],
+  custom: ClientIPHeaderDefinition[]
+): Map<string, ClientIPHeaderDefinition> {
+  const headers = new Map<string, ClientIPHeaderDefinition>();
+
+  for (const name of presets) {
+    const definitions = CLIENT_IP_HEADER_PRESETS[name.toLowerCase()];
+    if (!definitions) {
+      logger.error('Ignoring unknown client IP header preset', {
+        preset: name,
+        expected: Object.keys(CLIENT_IP_HEADER_PRESETS).join(', ')
+      });
+      continue;
+    }
+    definitions.forEach(definition => headers.set(definition.header, definition));
+  }
+
+  // Custom entries replace preset entries for the same header
+  custom.forEach(definition => headers.set(definition.header, definition));
+  return headers;
+}
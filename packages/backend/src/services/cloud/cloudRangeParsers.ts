@@ -0,0 +1,200 @@
+import { formatCIDR, parseCIDR } from '@/utils/ipAddress';
+
+export type CloudRangeFormat = 'aws' | 'gcp' | 'azure' | 'oracle' | 'cloudflare';
+
+export const CLOUD_RANGE_FORMATS: readonly CloudRangeFormat[] = ['aws', 'gcp', 'azure', 'oracle', 'cloudflare'];
+
+export interface CloudRange {
+  cidr: string;
+  provider: string;
+  region?: string;
+  service?: string;
+}
+
+export interface ParsedCloudRanges {
+  ranges: CloudRange[];
+  // Publisher's own version marker (syncToken, changeNumber, timestamp) when the format has one
+  publishedVersion?: string;
+}
+
+/**
+ * Parse one of the published cloud range documents.
+ * When a prefix is listed more than once, the most specific entry (one naming
+ * a region and a service) wins over catch-all entries such as AWS "AMAZON".
+ */
+export const parseCloudRanges = (format: CloudRangeFormat, content: string): ParsedCloudRanges => {
+  switch (format) {
+    case 'aws':
+      return parseAws(content);
+    case 'gcp':
+      return parseGcp(content);
+    case 'azure':
+      return parseAzure(content);
+    case 'oracle':
+      return parseOracle(content);
+    case 'cloudflare':
+      return { ranges: parseCidrList(content, 'Cloudflare', 'CDN') };
+  }
+};
+
+// Format parsers
+
+interface AwsIpRanges {
+  syncToken?: string;
+  prefixes?: { ip_prefix?: string; region?: string; service?: string }[];
+  ipv6_prefixes?: { ipv6_prefix?: string; region?: string; service?: string }[];
+}
+
+function parseAws(content: string): ParsedCloudRanges {
+  const document = parseJSON<AwsIpRanges>(content, 'AWS ip-ranges.json');
+  const collector = new RangeCollector();
+
+  const entries = [
+    ...(document.prefixes ?? []).map(entry => ({ ...entry, cidr: entry.ip_prefix })),
+    ...(document.ipv6_prefixes ?? []).map(entry => ({ ...entry, cidr: entry.ipv6_prefix }))
+  ];
+
+  for (const { cidr, region, service } of entries) {
+    // "AMAZON" is the superset of every service range
+    const specificService = service !== undefined && service !== 'AMAZON' ? service : undefined;
+    collector.add(cidr, 'AWS', region === 'GLOBAL' ? undefined : region, specificService);
+  }
+
+  return withVersion(collector.ranges(), document.syncToken);
+}
+
+interface GcpCloudJson {
+  syncToken?: string;
+  creationTime?: string;
+  prefixes?: { ipv4Prefix?: string; ipv6Prefix?: string; service?: string; scope?: string }[];
+}
+
+function parseGcp(content: string): ParsedCloudRanges {
+  const document = parseJSON<GcpCloudJson>(content, 'GCP cloud.json');
+  const collector = new RangeCollector();
+
+  for (const entry of document.prefixes ?? []) {
+    const region = entry.scope === 'global' ? undefined : entry.scope;
+    collector.add(entry.ipv4Prefix ?? entry.ipv6Prefix, 'GCP', region, entry.service);
+  }
+
+  return withVersion(collector.ranges(), document.syncToken ?? document.creationTime);
+}
+
+interface AzureServiceTags {
+  changeNumber?: number;
+  cloud?: string;
+  values?: {
+    name?: string;
+    properties?: { region?: string; systemService?: string; addressPrefixes?: string[] };
+  }[];
+}
+
+function parseAzure(content: string): ParsedCloudRanges {
+  const document = parseJSON<AzureServiceTags>(content, 'Azure ServiceTags JSON');
+  const collector = new RangeCollector();
+
+  for (const tag of document.values ?? []) {
+    const properties = tag.properties ?? {};
+    const region = nonEmpty(properties.region);
+    const service = nonEmpty(properties.systemService);
+
+    for (const cidr of properties.addressPrefixes ?? []) {
+      collector.add(cidr, 'Azure', region, service);
+    }
+  }
+
+  const version = document.changeNumber !== undefined ? `${document.cloud ?? 'Public'}-${document.changeNumber}` : undefined;
+  return withVersion(collector.ranges(), version);
+}
+
+interface OracleIpRanges {
+  last_updated_timestamp?: string;
+  regions?: { region?: string; cidrs?: { cidr?: string; tags?: string[] }[] }[];
+}
+
+function parseOracle(content: string): ParsedCloudRanges {
+  const document = parseJSON<OracleIpRanges>(content, 'Oracle public_ip_ranges.json');
+  const collector = new RangeCollector();
+
+  for (const region of document.regions ?? []) {
+    for (const { cidr, tags = [] } of region.cidrs ?? []) {
+      // Tags are OCI (compute), OSN (services network) and OBJECT_STORAGE
+      const service = tags.includes('OBJECT_STORAGE') ? 'OBJECT_STORAGE' : tags[0];
+      collector.add(cidr, 'Oracle Cloud', region.region, service);
+    }
+  }
+
+  return withVersion(collector.ranges(), document.last_updated_timestamp);
+}
+
+function parseCidrList(content: string, provider: string, service: string): CloudRange[] {
+  const collector = new RangeCollector();
+
+  for (const line of content.split(/\r?\n/)) {
+    const cidr = line.replace(/#.*/, '').trim();
+    if (cidr !== '') {
+      collector.add(cidr, provider, undefined, service);
+    }
+  }
+
+  return collector.ranges();
+}
+
+// Internal helpers
+
+/**
+ * Collects ranges keyed by normalized CIDR, keeping the most specific entry per prefix
+ */
+class RangeCollector {
+  private readonly byCidr = new Map<string, CloudRange>();
+
+  add(cidr: string | undefined, provider: string, region: string | undefined, service: string | undefined): void {
+    if (cidr === undefined) return;
+
+    let normalized: string;
+    try {
+      const { network, prefixLength, version } = parseCIDR(cidr);
+      normalized = formatCIDR(network, prefixLength, version);
+    } catch {
+      return;
+    }
+
+    const candidate: CloudRange = {
+      cidr: normalized,
+      provider,
+      ...(region !== undefined && { region }),
+      ...(service !== undefined && { service })
+    };
+
+    const existing = this.byCidr.get(normalized);
+    if (!existing || specificity(candidate) > specificity(existing)) {
+      this.byCidr.set(normalized, candidate);
+    }
+  }
+
+  ranges(): CloudRange[] {
+    return [...this.byCidr.values()];
+  }
+}
+
+function specificity(range: CloudRange): number {
+  return (range.service !== undefined ? 2 : 0) + (range.region !== undefined ? 1 : 0);
+}
+
+function parseJSON<T>(content: string, label: string): T {
+  try {
+    return JSON.parse(content) as T;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid ${label}: ${errorMessage}`);
+  }
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+  return value !== undefined && value.trim() !== '' ? value : undefined;
+}
+
+function withVersion(ranges: CloudRange[], publishedVersion: string | number | undefined): ParsedCloudRanges {
+  return publishedVersion !== undefined ? { ranges, publishedVersion: String(publishedVersion) } : { ranges };
+}
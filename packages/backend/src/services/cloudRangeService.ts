@@ -0,0 +1,109 @@
+import { config } from '@/config';
+import { CloudProviderInfo } from '@/types/ip';
+import { logger } from '@/utils/logger';
+import { RangeEntry, RangeIndex, cidrEntry } from '@/utils/rangeIndex';
+import { promises as fs } from 'fs';
+import { CLOUD_RANGE_FORMATS, CloudRange, CloudRangeFormat, parseCloudRanges } from './cloud/cloudRangeParsers';
+import { DatasetManager } from './datasetManager';
+
+interface CloudRangeFile {
+  format: CloudRangeFormat;
+  path: string;
+}
+
+interface CloudRangeSet {
+  index: RangeIndex<CloudRange>;
+  versions: string[];
+  counts: Record<string, number>;
+}
+
+/**
+ * Identifies cloud and CDN provider address space from the providers' published range files
+ */
+export class CloudRangeService {
+  private static ranges: CloudRangeSet | null = null;
+
+  /**
+   * Register the configured range files with the DatasetManager as one dataset
+   */
+  static registerDataset(): void {
+    const files = this.parseConfiguredFiles(config.cloud.rangeFiles);
+    if (files.length === 0) {
+      logger.info('No cloud range files configured, hosting detection limited to built-in ranges');
+      return;
+    }
+
+    DatasetManager.register<CloudRangeSet>({
+      name: 'cloud-ranges',
+      description: `Cloud provider ranges (${files.map(file => file.format).join(', ')})`,
+      files: files.map(file => file.path),
+      load: async () => {
+        const set = await this.loadFiles(files);
+        return { value: set, version: set.versions.join(', '), recordCounts: set.counts };
+      },
+      validate: ({ recordCounts }) =>
+        Object.entries(recordCounts)
+          .filter(([, count]) => count === 0)
+          .map(([format]) => `${format} file contains no ranges`),
+      activate: set => {
+        this.ranges = set;
+      }
+    });
+  }
+
+  /**
+   * Find the most specific published cloud range containing an address
+   */
+  static lookup(ipAddress: string): CloudProviderInfo | null {
+    const range = this.ranges?.index.lookup(ipAddress) ?? null;
+    if (!range) return null;
+
+    return {
+      provider: range.provider,
+      ...(range.region !== undefined && { region: range.region }),
+      ...(range.service !== undefined && { service: range.service }),
+      cidr: range.cidr,
+      // e.g. "AWS / us-east-1 / EC2"
+      label: [range.provider, range.region, range.service].filter(part => part !== undefined).join(' / ')
+    };
+  }
+
+  // Private helper methods
+
+  private static parseConfiguredFiles(entries: string[]): CloudRangeFile[] {
+    const files: CloudRangeFile[] = [];
+
+    for (const entry of entries) {
+      const separator = entry.indexOf(':');
+      const format = entry.slice(0, separator).toLowerCase() as CloudRangeFormat;
+      const path = entry.slice(separator + 1);
+
+      if (separator === -1 || !CLOUD_RANGE_FORMATS.includes(format) || path === '') {
+        logger.error('Ignoring invalid cloud range file entry', { entry, expected: `<${CLOUD_RANGE_FORMATS.join('|')}>:<path>` });
+        continue;
+      }
+      files.push({ format, path });
+    }
+
+    return files;
+  }
+
+  private static async loadFiles(files: CloudRangeFile[]): Promise<CloudRangeSet> {
+    const versions: string[] = [];
+    const counts: Record<string, number> = {};
+    const entries: RangeEntry<CloudRange>[] = [];
+
+    for (const file of files) {
+      const { ranges, publishedVersion } = parseCloudRanges(file.format, await fs.readFile(file.path, 'utf8'));
+      const stats = await fs.stat(file.path);
+
+      versions.push(`${file.format}@${publishedVersion ?? stats.mtime.toISOString()}`);
+      counts[file.format] = (counts[file.format] ?? 0) + ranges.length;
+      for (const range of ranges) {
+        entries.push(cidrEntry(range.cidr, range));
+      }
+    }
+
+    return { index: RangeIndex.build(entries), versions, counts };
+  }
+}
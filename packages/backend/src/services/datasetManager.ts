@@ -0,0 +1,260 @@
+import { config } from '@/config';
+import { logger } from '@/utils/logger';
+import { Stats, promises as fs, unwatchFile, watchFile } from 'fs';
+
+export interface DatasetLoadResult<T> {
+  value: T;
+  version: string;
+  recordCounts: Record<string, number>;
+}
+
+/**
+ * A file-backed dataset managed by the DatasetManager.
+ * `load` builds a complete new version off to the side; `validate` returns a list of
+ * problems (empty when valid); `activate` swaps the new version in.
+ */
+export interface DatasetDefinition<T> {
+  name: string;
+  description: string;
+  files: string[];
+  load: () => Promise<DatasetLoadResult<T>>;
+  validate?: (result: DatasetLoadResult<T>) => string[];
+  activate: (value: T) => void;
+}
+
+export interface DatasetStatus {
+  name: string;
+  description: string;
+  files: string[];
+  state: 'pending' | 'loading' | 'loaded' | 'failed';
+  version: string | null;
+  loadedAt: string | null;
+  loadDurationMs: number | null;
+  recordCounts: Record<string, number>;
+  reloadCount: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+export type DatasetHealth = Pick<DatasetStatus, 'state' | 'version' | 'loadedAt' | 'lastError'>;
+
+interface ManagedDataset {
+  definition: DatasetDefinition<unknown>;
+  status: DatasetStatus;
+  loading: Promise<void> | null;
+  reloadQueued: boolean;
+  debounceTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export class DatasetManager {
+  private static readonly datasets = new Map<string, ManagedDataset>();
+  private static readonly watchedFiles = new Set<string>();
+
+  /**
+   * Register a dataset. It is loaded by loadAll() or the first change to one of its files.
+   */
+  static register<T>(definition: DatasetDefinition<T>): void {
+    if (this.datasets.has(definition.name)) {
+      throw new Error(`Dataset already registered: ${definition.name}`);
+    }
+
+    this.datasets.set(definition.name, {
+      definition: definition as DatasetDefinition<unknown>,
+      status: {
+        name: definition.name,
+        description: definition.description,
+        files: definition.files,
+        state: 'pending',
+        version: null,
+        loadedAt: null,
+        loadDurationMs: null,
+        recordCounts: {},
+        reloadCount: 0,
+        lastError: null,
+        lastErrorAt: null
+      },
+      loading: null,
+      reloadQueued: false,
+      debounceTimer: null
+    });
+  }
+
+  /**
+   * Load every registered dataset. Failures are recorded, never thrown.
+   */
+  static async loadAll(): Promise<void> {
+    await Promise.all([...this.datasets.keys()].map(name => this.reload(name)));
+  }
+
+  /**
+   * Load a new version of a dataset in the background and swap it in if it validates.
+   * Concurrent requests are coalesced: at most one extra load is queued behind a running one.
+   */
+  static async reload(name: string): Promise<void> {
+    const dataset = this.datasets.get(name);
+    if (!dataset) {
+      throw new Error(`Unknown dataset: ${name}`);
+    }
+
+    if (dataset.loading) {
+      dataset.reloadQueued = true;
+      return dataset.loading;
+    }
+
+    dataset.loading = this.performLoad(dataset).finally(() => {
+      dataset.loading = null;
+      if (dataset.reloadQueued) {
+        dataset.reloadQueued = false;
+        void this.reload(name);
+      }
+    });
+
+    return dataset.loading;
+  }
+
+  /**
+   * Watch the files of every registered dataset and reload on change
+   */
+  static watch(): void {
+    const { watchIntervalMs } = config.datasets;
+
+    for (const dataset of this.datasets.values()) {
+      for (const file of dataset.definition.files) {
+        if (this.watchedFiles.has(file)) continue;
+        this.watchedFiles.add(file);
+
+        watchFile(file, { interval: watchIntervalMs, persistent: false }, (current: Stats, previous: Stats) => {
+          if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) return;
+          this.scheduleReloadForFile(file);
+        });
+      }
+    }
+
+    logger.info('Watching dataset files for changes', { files: [...this.watchedFiles], intervalMs: watchIntervalMs });
+  }
+
+  /**
+   * Stop watching all dataset files
+   */
+  static stop(): void {
+    for (const file of this.watchedFiles) {
+      unwatchFile(file);
+    }
+    this.watchedFiles.clear();
+
+    for (const dataset of this.datasets.values()) {
+      if (dataset.debounceTimer) {
+        clearTimeout(dataset.debounceTimer);
+        dataset.debounceTimer = null;
+      }
+    }
+  }
+
+  /**
+   * Status of every registered dataset
+   */
+  static getStatus(): DatasetStatus[] {
+    return [...this.datasets.values()].map(dataset => ({ ...dataset.status }));
+  }
+
+  /**
+   * Compact status for the health endpoint
+   */
+  static getHealthSummary(): { healthy: boolean; datasets: Record<string, DatasetHealth> } {
+    const datasets: Record<string, DatasetHealth> = {};
+
+    for (const { status } of this.datasets.values()) {
+      datasets[status.name] = {
+        state: status.state,
+        version: status.version,
+        loadedAt: status.loadedAt,
+        lastError: status.lastError
+      };
+    }
+
+    // A dataset that never loaded means the service is running on fallbacks
+    const healthy = [...this.datasets.values()].every(({ status }) => status.state !== 'failed');
+    return { healthy, datasets };
+  }
+
+  // Private helper methods
+
+  private static scheduleReloadForFile(file: string): void {
+    for (const dataset of this.datasets.values()) {
+      if (!dataset.definition.files.includes(file)) continue;
+
+      // Writers often replace files in several steps - wait for the file to settle
+      if (dataset.debounceTimer) {
+        clearTimeout(dataset.debounceTimer);
+      }
+      dataset.debounceTimer = setTimeout(() => {
+        dataset.debounceTimer = null;
+        logger.info('Dataset file changed, reloading', { dataset: dataset.definition.name, file });
+        void this.reload(dataset.definition.name);
+      }, config.datasets.debounceMs);
+      // A pending reload must not keep the process alive on shutdown
+      dataset.debounceTimer.unref();
+    }
+  }
+
+  private static async performLoad(dataset: ManagedDataset): Promise<void> {
+    const { definition, status } = dataset;
+    const startTime = Date.now();
+    const previousState = status.state;
+
+    status.state = 'loading';
+
+    try {
+      await this.assertFilesReadable(definition.files);
+
+      const result = await definition.load();
+      const problems = definition.validate?.(result) ?? [];
+      if (problems.length > 0) {
+        throw new Error(`Validation failed: ${problems.join('; ')}`);
+      }
+
+      definition.activate(result.value);
+
+      const isReload = status.version !== null;
+      status.state = 'loaded';
+      status.version = result.version;
+      status.loadedAt = new Date().toISOString();
+      status.loadDurationMs = Date.now() - startTime;
+      status.recordCounts = result.recordCounts;
+      status.lastError = null;
+      status.lastErrorAt = null;
+      if (isReload) status.reloadCount++;
+
+      logger.info('Dataset loaded', {
+        dataset: definition.name,
+        version: result.version,
+        loadDurationMs: status.loadDurationMs,
+        recordCounts: result.recordCounts
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      // Keep serving the previous version if there is one
+      status.state = previousState === 'loaded' ? 'loaded' : 'failed';
+      status.lastError = errorMessage;
+      status.lastErrorAt = new Date().toISOString();
+
+      logger.error('Dataset load failed', {
+        dataset: definition.name,
+        error: errorMessage,
+        servingVersion: status.version
+      });
+    }
+  }
+
+  private static async assertFilesReadable(files: string[]): Promise<void> {
+    await Promise.all(
+      files.map(async file => {
+        const stats = await fs.stat(file);
+        if (!stats.isFile() || stats.size === 0) {
+          throw new Error(`Dataset file is empty or not a regular file: ${file}`);
+        }
+      })
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { logger } from '@/utils/logger';
 import { promises as dns } from 'dns';
 import { isIP } from 'net';
+import { DnsblResult, DnsblService } from './dnsblService';
+import { IPClassificationService } from './ipClassification';
 
 export interface DNSRecord {
   type: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS' | 'PTR' | 'SOA';
@@ -30,6 +32,9 @@ export interface DNSAnalysis {
     isMalware: boolean;
     isSpam: boolean;
     riskScore: number;
+    dnsbl?: DnsblResult[];
+    // e.g. "listed in zen.spamhaus.org (127.0.0.4 XBL - exploited or compromised host)"
+    evidence?: string[];
   };
   analysisTimestamp: string;
 }
@@ -83,8 +88,12 @@ export class DNSAnalysisService {
       // Check for DNS leaks
       const dnsLeaks = await this.checkDNSLeaks(ipAddress, dnsServers);
 
-      // Analyze reputation
-      const reputation = await this.analyzeReputation(reverseDNS.hostname, ipAddress);
+      // Analyze reputation, including DNS blocklist listings
+      const [hostnameReputation, dnsblResults] = await Promise.all([
+        this.analyzeReputation(reverseDNS.hostname, ipAddress),
+        DnsblService.check(ipAddress)
+      ]);
+      const reputation = this.applyDnsblResults(hostnameReputation, dnsblResults);
 
       const responseTime = Date.now() - startTime;
 
@@ -115,6 +124,19 @@ export class DNSAnalysisService {
     }
   }
 
+  /**
+   * Reputation of an address based on its reverse DNS name only
+   */
+  static async checkReputation(ipAddress: string): Promise<DNSAnalysis['reputation'] & { hostname?: string }> {
+    if (!isIP(ipAddress)) {
+      throw new Error(`Invalid IP address: ${ipAddress}`);
+    }
+
+    const { hostname } = await this.performReverseDNS(ipAddress);
+    const reputation = await this.analyzeReputation(hostname, ipAddress);
+    return hostname !== undefined ? { ...reputation, hostname } : reputation;
+  }
+
   /**
    * Perform reverse DNS lookup
    */
@@ -297,6 +319,33 @@ export class DNSAnalysisService {
     return 'unknown';
   }
 
+  /**
+   * Fold DNSBL listings into the reputation verdict
+   */
+  private static applyDnsblResults(reputation: DNSAnalysis['reputation'], results: DnsblResult[]): DNSAnalysis['reputation'] {
+    const severityScores = { low: 5, medium: 20, high: 35, critical: 50 };
+    let { isMalicious, isSpam, riskScore } = reputation;
+
+    for (const listing of results.flatMap(result => result.listings)) {
+      if (listing.category === 'spam') {
+        isSpam = true;
+      } else if (listing.category !== 'policy') {
+        // Policy listings (e.g. Spamhaus PBL) only mark end-user ranges
+        isMalicious = true;
+      }
+      riskScore += severityScores[listing.severity];
+    }
+
+    return {
+      ...reputation,
+      isMalicious,
+      isSpam,
+      riskScore: Math.min(riskScore, 100),
+      dnsbl: results,
+      evidence: DnsblService.describeListings(results)
+    };
+  }
+
   /**
    * Analyze reputation of hostname/IP
    */
@@ -356,14 +405,11 @@ export class DNSAnalysisService {
       }
     }
 
-    // Check IP-based reputation (simplified)
-    if (ipAddress) {
-      // Check for known bad IP ranges (simplified)
-      const firstOctet = parseInt(ipAddress.split('.')[0] || '0', 10);
-
-      // Some ranges are more commonly associated with malicious activity
-      if (firstOctet === 0 || firstOctet >= 224) {
-        riskScore += 15;
+    // Bogon sources are spoofed or misrouted; unallocated space more certainly so
+    if (ipAddress !== undefined && isIP(ipAddress) !== 0) {
+      const bogon = IPClassificationService.getBogonStatus(ipAddress);
+      if (bogon.isBogon) {
+        riskScore += bogon.category === 'martian' ? 15 : 30;
       }
     }
 
@@ -0,0 +1,239 @@
+import { config } from '@/config';
+import { DEFAULT_DNSBL_MEANING, DNSBL_ZONES, DnsblCodeMeaning, DnsblZoneDefinition } from '@/data/dnsblZones';
+import { expandIPv6, parseIP, unmapIPv4 } from '@/utils/ipAddress';
+import { logger } from '@/utils/logger';
+import { promises as dns } from 'dns';
+import { promises as fs } from 'fs';
+import { IPClassificationService } from './ipClassification';
+
+export interface DnsblListing extends DnsblCodeMeaning {
+  code: string;
+}
+
+export interface DnsblResult {
+  zone: string;
+  name: string;
+  query: string;
+  status: 'listed' | 'not_listed' | 'unsupported' | 'error';
+  listings: DnsblListing[];
+  error?: string;
+}
+
+interface CachedResult {
+  expiresAt: number;
+  result: Promise<DnsblResult>;
+}
+
+// Answers in 127.255.255.0/24 are zone errors (blocked resolver, rate limit), not listings
+const ERROR_CODE_PREFIX = '127.255.255.';
+
+// Upper bound on cached answers; the oldest are dropped first
+const MAX_CACHE_ENTRIES = 10000;
+
+/**
+ * DNS-based blocklist (DNSBL) lookups. Queries go through a dns.Resolver that
+ * can point at specific servers (DNSBL_SERVERS) or be replaced entirely, e.g.
+ * with a resolver pointed at a local DNS stand-in in tests. Answers are cached per
+ * zone and address for DNSBL_CACHE_TTL_MS; failed queries are not cached.
+ */
+export class DnsblService {
+  private static resolver: dns.Resolver = createResolver(config.dnsbl.servers);
+  private static zones: DnsblZoneDefinition[] = resolveZones(config.dnsbl.zones, []);
+  private static cache = new Map<string, CachedResult>();
+
+  /**
+   * Load custom zone definitions from DNSBL_CONFIG (a JSON array of zone definitions)
+   */
+  static async initialize(): Promise<void> {
+    const { configPath, zones } = config.dnsbl;
+    let custom: DnsblZoneDefinition[] = [];
+
+    if (configPath !== undefined) {
+      try {
+        custom = parseZoneConfig(await fs.readFile(configPath, 'utf8'));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to read DNSBL configuration', { configPath, error: errorMessage });
+      }
+    }
+
+    this.zones = resolveZones(zones, custom);
+    this.cache.clear();
+    if (this.zones.length > 0) {
+      logger.info('DNSBL zones configured', { zones: this.zones.map(zone => zone.zone) });
+    }
+  }
+
+  /**
+   * Replace the resolver used for DNSBL queries
+   */
+  static setResolver(resolver: dns.Resolver): void {
+    this.resolver = resolver;
+    this.cache.clear();
+  }
+
+  static getZones(): DnsblZoneDefinition[] {
+    return [...this.zones];
+  }
+
+  static isEnabled(): boolean {
+    return this.zones.length > 0;
+  }
+
+  /**
+   * Query every configured zone for an address. Non-public addresses are never sent out.
+   */
+  static async check(ipAddress: string): Promise<DnsblResult[]> {
+    if (!this.isEnabled() || IPClassificationService.classifyIP(ipAddress) !== 'public') {
+      return [];
+    }
+
+    return Promise.all(this.zones.map(zone => this.checkZoneCached(ipAddress, zone)));
+  }
+
+  /**
+   * Reversed-octet (IPv4) or reversed-nibble (IPv6) query name for a zone
+   */
+  static buildQueryName(ipAddress: string, zone: string): string | null {
+    const parsed = parseIP(ipAddress);
+    if (!parsed) return null;
+
+    const { version, value } = unmapIPv4(parsed);
+    if (version === 4) {
+      return `${[0n, 8n, 16n, 24n].map(shift => ((value >> shift) & 0xffn).toString()).join('.')}.${zone}`;
+    }
+
+    const nibbles = expandIPv6(value).replace(/:/g, '').split('').reverse();
+    return `${nibbles.join('.')}.${zone}`;
+  }
+
+  /**
+   * Human-readable evidence, e.g. "listed in zen.spamhaus.org (127.0.0.4 XBL - exploited or compromised host)"
+   */
+  static describeListings(results: DnsblResult[]): string[] {
+    return results.flatMap(result =>
+      result.listings.map(listing => `listed in ${result.zone} (${listing.code} ${listing.meaning})`)
+    );
+  }
+
+  // Private helper methods
+
+  /**
+   * Answer from the cache when fresh. The pending query itself is cached, so concurrent
+   * checks of the same address share one query.
+   */
+  private static checkZoneCached(ipAddress: string, zone: DnsblZoneDefinition): Promise<DnsblResult> {
+    const key = `${zone.zone} ${ipAddress}`;
+    const now = Date.now();
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > now) {
+      return cached.result;
+    }
+
+    const result = this.checkZone(ipAddress, zone);
+    this.cache.delete(key);
+    this.cache.set(key, { expiresAt: now + config.dnsbl.cacheTtlMs, result });
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+
+    // A failed query is retried by the next check
+    void result.then(answer => {
+      if (answer.status === 'error' && this.cache.get(key)?.result === result) {
+        this.cache.delete(key);
+      }
+    });
+
+    return result;
+  }
+
+  private static async checkZone(ipAddress: string, zone: DnsblZoneDefinition): Promise<DnsblResult> {
+    const query = this.buildQueryName(ipAddress, zone.zone) ?? '';
+    const base = { zone: zone.zone, name: zone.name, query, listings: [] };
+    const parsed = parseIP(ipAddress);
+
+    if (!parsed || (unmapIPv4(parsed).version === 6 && !zone.ipv6)) {
+      return { ...base, status: 'unsupported' };
+    }
+
+    try {
+      const answers = await this.resolver.resolve4(query);
+      const errors = answers.filter(answer => answer.startsWith(ERROR_CODE_PREFIX));
+      // Anything outside 127/8 is a wildcard or hijacked NXDOMAIN, not a listing
+      const codes = answers.filter(answer => answer.startsWith('127.') && !answer.startsWith(ERROR_CODE_PREFIX));
+
+      if (codes.length === 0 && errors.length > 0) {
+        return { ...base, status: 'error', error: `zone refused query (${errors.join(', ')})` };
+      }
+
+      const listings = codes.map(code => ({ code, ...(zone.codes[code] ?? DEFAULT_DNSBL_MEANING) }));
+      return { ...base, status: listings.length > 0 ? 'listed' : 'not_listed', listings };
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code === dns.NOTFOUND || code === dns.NODATA) {
+        return { ...base, status: 'not_listed' };
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('DNSBL query failed', { zone: zone.zone, error: errorMessage });
+      return { ...base, status: 'error', error: errorMessage };
+    }
+  }
+}
+
+// Internal helpers
+
+function createResolver(servers: string[]): dns.Resolver {
+  const resolver = new dns.Resolver({ timeout: config.dnsbl.timeoutMs, tries: 1 });
+  if (servers.length > 0) {
+    resolver.setServers(servers);
+  }
+  return resolver;
+}
+
+/**
+ * Zones named in DNSBL_ZONES plus every zone in the config file. Definitions from
+ * the config file win over the built-in presets; unknown zones get the generic meaning.
+ */
+function resolveZones(names: string[], custom: DnsblZoneDefinition[]): DnsblZoneDefinition[] {
+  const zones = new Map<string, DnsblZoneDefinition>();
+
+  for (const name of names) {
+    const zone = name.toLowerCase();
+    zones.set(zone, DNSBL_ZONES.find(preset => preset.zone === zone) ?? { zone, name: zone, ipv6: false, codes: {} });
+  }
+  for (const definition of custom) {
+    zones.set(definition.zone, definition);
+  }
+
+  return [...zones.values()];
+}
+
+function parseZoneConfig(content: string): DnsblZoneDefinition[] {
+  const parsed = JSON.parse(content) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error('DNSBL configuration must be a JSON array');
+  }
+
+  return parsed.map((item: Partial<DnsblZoneDefinition>, position) => {
+    if (typeof item.zone !== 'string' || item.zone === '') {
+      throw new Error(`DNSBL entry ${position} requires a zone`);
+    }
+
+    const zone = item.zone.toLowerCase();
+    const preset = DNSBL_ZONES.find(candidate => candidate.zone === zone);
+    const codes: Record<string, DnsblCodeMeaning> = {};
+
+    for (const [code, meaning] of Object.entries(item.codes ?? preset?.codes ?? {})) {
+      codes[code] = { ...DEFAULT_DNSBL_MEANING, ...meaning };
+    }
+
+    return {
+      zone,
+      name: item.name ?? preset?.name ?? zone,
+      ipv6: item.ipv6 ?? preset?.ipv6 ?? false,
+      codes
+    };
+  });
+}
@@ -0,0 +1,210 @@
+import { FirewallRuleRequest, FirewallRuleSet, FirewallRules, FirewallTarget } from '@/types/ip';
+import { ADDRESS_BITS, bigIntToIP, parseCIDR } from '@/utils/ipAddress';
+import { IPClassificationService } from './ipClassification';
+
+export const FIREWALL_TARGETS: FirewallTarget[] = ['iptables', 'nftables', 'cisco', 'pf', 'aws', 'nginx'];
+
+// Identifiers end up in shell commands and config files, so only plain tokens are accepted
+const ANALYSIS_ID_PATTERN = /^[\w.:-]{1,64}$/;
+const NAME_PATTERN = /^[A-Za-z_]\w{0,31}$/;
+
+// Default AWS quota for inbound rules per security group and address family
+const AWS_RULES_PER_FAMILY = 60;
+
+interface RuleContext {
+  name: string;
+  deny: boolean;
+  comment: string;
+  ipv4: string[];
+  ipv6: string[];
+}
+
+/**
+ * Turns analysis results and blocklist matches into ready-to-paste firewall rules. The
+ * input is aggregated first so that every target receives the same minimal prefix set.
+ */
+export class FirewallRuleService {
+  static generate(request: FirewallRuleRequest): FirewallRules {
+    const action = request.action ?? 'deny';
+    const targets = request.targets ?? FIREWALL_TARGETS;
+    const analysisId = request.analysisId ?? `fw_${Date.now()}`;
+    const name = request.name ?? 'ipprobe';
+
+    if (action !== 'allow' && action !== 'deny') {
+      throw new Error('Action must be "allow" or "deny"');
+    }
+    if (!ANALYSIS_ID_PATTERN.test(analysisId)) {
+      throw new Error('Analysis ID may only contain letters, digits, ".", ":", "_" and "-"');
+    }
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error('Name must start with a letter and contain only letters, digits and "_"');
+    }
+    const unknown = targets.filter(target => !FIREWALL_TARGETS.includes(target));
+    if (targets.length === 0 || unknown.length > 0) {
+      throw new Error(`Targets must be one or more of: ${FIREWALL_TARGETS.join(', ')}`);
+    }
+    if (!Array.isArray(request.cidrs) || request.cidrs.length === 0) {
+      throw new Error('At least one address or prefix is needed');
+    }
+
+    const cidrs = IPClassificationService.aggregateCIDRs(request.cidrs);
+    const context: RuleContext = {
+      name,
+      deny: action === 'deny',
+      comment: `ip-probe analysis ${analysisId}`,
+      ipv4: cidrs.filter(cidr => parseCIDR(cidr).version === 4),
+      ipv6: cidrs.filter(cidr => parseCIDR(cidr).version === 6)
+    };
+
+    const warnings: string[] = [];
+    const rulesets = [...new Set(targets)].flatMap(target => {
+      const ruleset = this.render(target, context, warnings);
+      return ruleset ? [ruleset] : [];
+    });
+
+    return { analysisId, action, name, ipv4: context.ipv4, ipv6: context.ipv6, rulesets, warnings };
+  }
+
+  // Private helper methods
+
+  private static render(target: FirewallTarget, context: RuleContext, warnings: string[]): FirewallRuleSet | null {
+    switch (target) {
+      case 'iptables':
+        return { target, format: 'text', rules: this.iptables(context) };
+      case 'nftables':
+        return { target, format: 'text', rules: this.nftables(context) };
+      case 'cisco':
+        return { target, format: 'text', rules: this.cisco(context) };
+      case 'pf':
+        return { target, format: 'text', rules: this.pf(context) };
+      case 'nginx':
+        return { target, format: 'text', rules: this.nginx(context) };
+      case 'aws':
+        if (context.deny) {
+          warnings.push('AWS security groups can only allow traffic; use a network ACL to deny it');
+          return null;
+        }
+        if (Math.max(context.ipv4.length, context.ipv6.length) > AWS_RULES_PER_FAMILY) {
+          warnings.push(`More than ${AWS_RULES_PER_FAMILY} prefixes per family exceeds the default AWS quota`);
+        }
+        return { target, format: 'json', rules: this.aws(context) };
+    }
+  }
+
+  private static iptables({ comment, deny, ipv4, ipv6 }: RuleContext): string {
+    const verdict = deny ? 'DROP' : 'ACCEPT';
+    const rule = (command: string, cidr: string): string =>
+      `${command} -A INPUT -s ${cidr} -m comment --comment "${comment}" -j ${verdict}`;
+
+    return [
+      `# ${comment}`,
+      ...ipv4.map(cidr => rule('iptables', cidr)),
+      ...ipv6.map(cidr => rule('ip6tables', cidr))
+    ].join('\n');
+  }
+
+  /**
+   * One interval set per family in an inet table, so a single chain covers both
+   */
+  private static nftables({ comment, deny, name, ipv4, ipv6 }: RuleContext): string {
+    const verdict = deny ? 'drop' : 'accept';
+    const families = [
+      { family: 'ip', type: 'ipv4_addr', set: `${name}_v4`, cidrs: ipv4 },
+      { family: 'ip6', type: 'ipv6_addr', set: `${name}_v6`, cidrs: ipv6 }
+    ].filter(({ cidrs }) => cidrs.length > 0);
+
+    return [
+      `# ${comment}`,
+      `table inet ${name} {`,
+      ...families.flatMap(({ type, set, cidrs }) => [
+        `  set ${set} {`,
+        `    type ${type}`,
+        '    flags interval',
+        `    comment "${comment}"`,
+        `    elements = { ${cidrs.join(', ')} }`,
+        '  }'
+      ]),
+      '  chain input {',
+      '    type filter hook input priority filter; policy accept;',
+      ...families.map(({ family, set }) => `    ${family} saddr @${set} ${verdict} comment "${comment}"`),
+      '  }',
+      '}'
+    ].join('\n');
+  }
+
+  /**
+   * IPv4 ACLs match with wildcard masks, IPv6 ACLs with prefixes
+   */
+  private static cisco({ comment, deny, name, ipv4, ipv6 }: RuleContext): string {
+    const verdict = deny ? 'deny' : 'permit';
+    const lines: string[] = [];
+
+    if (ipv4.length > 0) {
+      lines.push(`ip access-list extended ${name}`, ` remark ${comment}`);
+      ipv4.forEach(cidr => lines.push(` ${verdict} ip ${this.ciscoSource(cidr)} any`));
+      // ACLs end in an implicit deny, which would block everything else
+      if (deny) lines.push(' permit ip any any');
+    }
+
+    if (ipv6.length > 0) {
+      lines.push(`ipv6 access-list ${name}_v6`, ` remark ${comment}`);
+      ipv6.forEach(cidr => lines.push(` ${verdict} ipv6 ${this.ciscoSource(cidr)} any`));
+      if (deny) lines.push(' permit ipv6 any any');
+    }
+
+    return lines.join('\n');
+  }
+
+  private static ciscoSource(cidr: string): string {
+    const { version, network, prefixLength } = parseCIDR(cidr);
+    const address = bigIntToIP(network, version);
+
+    if (prefixLength === ADDRESS_BITS[version]) return `host ${address}`;
+    if (prefixLength === 0) return 'any';
+    return version === 4 ? `${address} ${IPClassificationService.cidrToWildcardMask(prefixLength)}` : cidr;
+  }
+
+  /**
+   * A pf table holds both families; the rules still name the family they apply to
+   */
+  private static pf({ comment, deny, name, ipv4, ipv6 }: RuleContext): string {
+    const verdict = deny ? 'block drop' : 'pass';
+    const families = [...(ipv4.length > 0 ? ['inet'] : []), ...(ipv6.length > 0 ? ['inet6'] : [])];
+
+    return [
+      `# ${comment}`,
+      `table <${name}> persist { ${[...ipv4, ...ipv6].join(', ')} }`,
+      ...families.map(family => `${verdict} in quick ${family} from <${name}> to any`)
+    ].join('\n');
+  }
+
+  /**
+   * Ingress permissions in the shape taken by `aws ec2 authorize-security-group-ingress --cli-input-json`
+   */
+  private static aws({ comment, ipv4, ipv6 }: RuleContext): string {
+    const permissions = {
+      IpPermissions: [
+        {
+          IpProtocol: '-1',
+          ...(ipv4.length > 0 && { IpRanges: ipv4.map(cidr => ({ CidrIp: cidr, Description: comment })) }),
+          ...(ipv6.length > 0 && { Ipv6Ranges: ipv6.map(cidr => ({ CidrIpv6: cidr, Description: comment })) })
+        }
+      ]
+    };
+
+    return JSON.stringify(permissions, null, 2);
+  }
+
+  /**
+   * nginx stops at the first match, so the catch-all goes last
+   */
+  private static nginx({ comment, deny, ipv4, ipv6 }: RuleContext): string {
+    const verdict = deny ? 'deny' : 'allow';
+
+    return [
+      `# ${comment}`,
+      ...[...ipv4, ...ipv6].map(cidr => `${verdict} ${cidr};`),
+      deny ? 'allow all;' : 'deny all;'
+    ].join('\n');
+  }
+}
@@ -0,0 +1,214 @@
+import { RangeEntry, RangeIndex } from '@/utils/rangeIndex';
+import { promises as fs } from 'fs';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * Compact on-disk geo database produced by the CSV importer.
+ *
+ * Layout (gzip-compressed):
+ *   magic "IPGEO" + format version (u8)
+ *   metadata       u32 length + JSON
+ *   locations      u32 length + JSON array of LocationRecord
+ *   asns           u32 length + JSON array of AsnRecord
+ *   location ranges, then asn ranges, each as:
+ *     u32 IPv4 count, count x (u32 start, u32 end, u32 record)
+ *     u32 IPv6 count, count x (u128 start, u128 end, u32 record)
+ */
+export const COMPILED_GEO_FORMAT_VERSION = 1;
+
+const MAGIC = Buffer.from('IPGEO', 'ascii');
+
+export interface LocationRecord {
+  country: string;
+  countryCode: string;
+  region: string;
+  city: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  accuracyRadius?: number;
+}
+
+export interface AsnRecord {
+  asn: number;
+  organization: string;
+}
+
+export interface CompiledGeoMetadata {
+  source: 'geolite2' | 'dbip';
+  builtAt: string;
+  formatVersion: number;
+  rowCounts: Record<string, number>;
+}
+
+export interface CompiledGeoDatabase {
+  metadata: CompiledGeoMetadata;
+  locations: LocationRecord[];
+  asns: AsnRecord[];
+  locationIndex: RangeIndex<number>;
+  asnIndex: RangeIndex<number>;
+}
+
+/**
+ * Serialize a compiled database to disk
+ */
+export const writeCompiledGeoDatabase = async (database: CompiledGeoDatabase, filePath: string): Promise<number> => {
+  const chunks: Buffer[] = [MAGIC, Buffer.from([COMPILED_GEO_FORMAT_VERSION])];
+
+  for (const section of [database.metadata, database.locations, database.asns]) {
+    chunks.push(lengthPrefixed(Buffer.from(JSON.stringify(section), 'utf8')));
+  }
+  chunks.push(encodeRanges(database.locationIndex), encodeRanges(database.asnIndex));
+
+  const compressed = await gzipAsync(Buffer.concat(chunks), { level: 9 });
+  await fs.writeFile(filePath, compressed);
+  return compressed.length;
+};
+
+/**
+ * Load a compiled database from disk
+ */
+export const readCompiledGeoDatabase = async (filePath: string): Promise<CompiledGeoDatabase> => {
+  const buffer = await gunzipAsync(await fs.readFile(filePath));
+
+  if (!buffer.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new Error(`${filePath} is not a compiled geo database`);
+  }
+
+  const formatVersion = buffer.readUInt8(MAGIC.length);
+  if (formatVersion !== COMPILED_GEO_FORMAT_VERSION) {
+    throw new Error(`Unsupported compiled geo database version ${formatVersion} in ${filePath}`);
+  }
+
+  const reader = { buffer, offset: MAGIC.length + 1 };
+  const metadata = readJSON<CompiledGeoMetadata>(reader);
+  const locations = readJSON<LocationRecord[]>(reader);
+  const asns = readJSON<AsnRecord[]>(reader);
+  const locationIndex = decodeRanges(reader, locations.length);
+  const asnIndex = decodeRanges(reader, asns.length);
+
+  return { metadata, locations, asns, locationIndex, asnIndex };
+};
+
+// Internal helpers
+
+interface BufferReader {
+  buffer: Buffer;
+  offset: number;
+}
+
+function lengthPrefixed(payload: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(payload.length);
+  return Buffer.concat([length, payload]);
+}
+
+function readJSON<T>(reader: BufferReader): T {
+  const length = reader.buffer.readUInt32BE(reader.offset);
+  const start = reader.offset + 4;
+  reader.offset = start + length;
+  return JSON.parse(reader.buffer.toString('utf8', start, reader.offset)) as T;
+}
+
+function encodeRanges(index: RangeIndex<number>): Buffer {
+  const counts = index.size;
+  const buffer = Buffer.alloc(8 + counts[4] * 12 + counts[6] * 36);
+  let offset = 0;
+
+  for (const version of [4, 6] as const) {
+    offset = buffer.writeUInt32BE(counts[version], offset);
+
+    for (const entry of index.entries(version)) {
+      if (version === 4) {
+        offset = buffer.writeUInt32BE(Number(entry.start), offset);
+        offset = buffer.writeUInt32BE(Number(entry.end), offset);
+      } else {
+        offset = writeUInt128(buffer, entry.start, offset);
+        offset = writeUInt128(buffer, entry.end, offset);
+      }
+      offset = buffer.writeUInt32BE(entry.value, offset);
+    }
+  }
+
+  return buffer;
+}
+
+function decodeRanges(reader: BufferReader, recordCount: number): RangeIndex<number> {
+  const { buffer } = reader;
+  const entries: RangeEntry<number>[] = [];
+
+  for (const version of [4, 6] as const) {
+    const count = buffer.readUInt32BE(reader.offset);
+    reader.offset += 4;
+
+    for (let i = 0; i < count; i++) {
+      let start: bigint;
+      let end: bigint;
+
+      if (version === 4) {
+        start = BigInt(buffer.readUInt32BE(reader.offset));
+        end = BigInt(buffer.readUInt32BE(reader.offset + 4));
+        reader.offset += 8;
+      } else {
+        start = readUInt128(buffer, reader.offset);
+        end = readUInt128(buffer, reader.offset + 16);
+        reader.offset += 32;
+      }
+
+      const value = buffer.readUInt32BE(reader.offset);
+      reader.offset += 4;
+
+      if (value >= recordCount) {
+        throw new Error(`Corrupt compiled geo database: record ${value} out of range`);
+      }
+      entries.push({ version, start, end, value });
+    }
+  }
+
+  return RangeIndex.build(entries);
+}
+
+function writeUInt128(buffer: Buffer, value: bigint, offset: number): number {
+  const next = buffer.writeBigUInt64BE(value >> 64n, offset);
+  return buffer.writeBigUInt64BE(value & 0xffffffffffffffffn, next);
+}
+
+function readUInt128(buffer: Buffer, offset: number): bigint {
+  return (buffer.readBigUInt64BE(offset) << 64n) | buffer.readBigUInt64BE(offset + 8);
+}
+
+export interface FamilyCoverage {
+  ranges: number;
+  addresses: string;
+  percent: number;
+}
+
+/**
+ * Address-space coverage of an index. IPv4 is measured against the whole
+ * 32-bit space, IPv6 against global unicast (2000::/3).
+ */
+export const summarizeCoverage = (index: RangeIndex<number>): Record<'ipv4' | 'ipv6', FamilyCoverage> => {
+  const totals: Record<4 | 6, { ranges: number; addresses: bigint }> = {
+    4: { ranges: 0, addresses: 0n },
+    6: { ranges: 0, addresses: 0n }
+  };
+
+  for (const entry of index.entries()) {
+    totals[entry.version].ranges++;
+    totals[entry.version].addresses += entry.end - entry.start + 1n;
+  }
+
+  const percentOf = (covered: bigint, space: bigint): number => Number((covered * 1000000n) / space) / 10000;
+
+  const summarize = (version: 4 | 6, space: bigint): FamilyCoverage => ({
+    ranges: totals[version].ranges,
+    addresses: totals[version].addresses.toString(),
+    percent: percentOf(totals[version].addresses, space)
+  });
+
+  return { ipv4: summarize(4, 1n << 32n), ipv6: summarize(6, 1n << 125n) };
+};
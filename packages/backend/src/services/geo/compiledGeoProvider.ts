@@ -0,0 +1,79 @@
+import { GeoLocation, NetworkInfo } from '@/types/ip';
+import { logger } from '@/utils/logger';
+import { CompiledGeoDatabase, readCompiledGeoDatabase } from './compiledGeoDatabase';
+import { GeoProvider, GeoProviderInfo, accuracyFromRadius } from './geoProvider';
+
+/**
+ * Geo provider backed by a database compiled from GeoLite2 / DB-IP CSV files
+ * (see scripts/buildGeoDatabase.ts).
+ */
+export class CompiledGeoProvider implements GeoProvider {
+  readonly name = 'compiled';
+
+  private readonly database: CompiledGeoDatabase;
+
+  constructor(database: CompiledGeoDatabase) {
+    this.database = database;
+  }
+
+  static async open(filePath: string): Promise<CompiledGeoProvider> {
+    const database = await readCompiledGeoDatabase(filePath);
+
+    logger.info('Compiled geo database loaded', {
+      filePath,
+      source: database.metadata.source,
+      builtAt: database.metadata.builtAt,
+      locationRanges: database.locationIndex.size,
+      asnRanges: database.asnIndex.size
+    });
+
+    return new CompiledGeoProvider(database);
+  }
+
+  describe(): GeoProviderInfo {
+    const { metadata, locations, asns, locationIndex, asnIndex } = this.database;
+    const locationRanges = locationIndex.size;
+    const asnRanges = asnIndex.size;
+
+    return {
+      version: `${metadata.source}@${metadata.builtAt}`,
+      recordCounts: {
+        locations: locations.length,
+        asns: asns.length,
+        locationRanges: locationRanges[4] + locationRanges[6],
+        asnRanges: asnRanges[4] + asnRanges[6]
+      }
+    };
+  }
+
+  getGeolocation(ipAddress: string): GeoLocation | null {
+    const recordIndex = this.database.locationIndex.lookup(ipAddress);
+    const record = recordIndex !== null ? this.database.locations[recordIndex] : undefined;
+    if (!record) return null;
+
+    return {
+      country: record.country,
+      countryCode: record.countryCode,
+      region: record.region,
+      city: record.city,
+      latitude: record.latitude,
+      longitude: record.longitude,
+      timezone: record.timezone,
+      accuracy: accuracyFromRadius(record.accuracyRadius, record.city !== 'Unknown')
+    };
+  }
+
+  getNetworkInfo(ipAddress: string): NetworkInfo | null {
+    const recordIndex = this.database.asnIndex.lookup(ipAddress);
+    const record = recordIndex !== null ? this.database.asns[recordIndex] : undefined;
+    if (!record) return null;
+
+    return {
+      isp: record.organization,
+      organization: record.organization,
+      asn: record.asn,
+      asnOrganization: record.organization,
+      connectionType: 'unknown'
+    };
+  }
+}
@@ -0,0 +1,375 @@
+import { parseCIDR, parseIP } from '@/utils/ipAddress';
+import { RangeEntry, RangeIndex } from '@/utils/rangeIndex';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline';
+import { createGunzip } from 'zlib';
+import {
+  AsnRecord,
+  COMPILED_GEO_FORMAT_VERSION,
+  CompiledGeoDatabase,
+  CompiledGeoMetadata,
+  LocationRecord
+} from './compiledGeoDatabase';
+
+export interface GeoLite2CsvFiles {
+  cityBlocksIPv4?: string | undefined;
+  cityBlocksIPv6?: string | undefined;
+  cityLocations?: string | undefined;
+  asnBlocksIPv4?: string | undefined;
+  asnBlocksIPv6?: string | undefined;
+}
+
+export interface DbIpCsvFiles {
+  city?: string | undefined;
+  asn?: string | undefined;
+}
+
+/**
+ * Importers for the GeoLite2 and DB-IP "lite" CSV layouts.
+ * Both produce a CompiledGeoDatabase that can be written with writeCompiledGeoDatabase.
+ */
+export class GeoCsvImporter {
+  private readonly locations: LocationRecord[] = [];
+  private readonly locationKeys = new Map<string, number>();
+  private readonly asns: AsnRecord[] = [];
+  private readonly asnKeys = new Map<string, number>();
+  private readonly locationRanges: RangeEntry<number>[] = [];
+  private readonly asnRanges: RangeEntry<number>[] = [];
+  private readonly rowCounts: Record<string, number> = {};
+
+  /**
+   * Locate the standard GeoLite2 CSV file names inside an extracted download directory
+   */
+  static async findGeoLite2Files(directory: string): Promise<GeoLite2CsvFiles> {
+    const files = await listFilesRecursive(directory);
+    const find = (suffix: string): string | undefined => files.find(file => file.endsWith(suffix));
+
+    return {
+      cityBlocksIPv4: find('-City-Blocks-IPv4.csv'),
+      cityBlocksIPv6: find('-City-Blocks-IPv6.csv'),
+      cityLocations: find('-City-Locations-en.csv'),
+      asnBlocksIPv4: find('-ASN-Blocks-IPv4.csv'),
+      asnBlocksIPv6: find('-ASN-Blocks-IPv6.csv')
+    };
+  }
+
+  /**
+   * Import GeoLite2 City (blocks + locations) and ASN CSV files
+   */
+  static async importGeoLite2(files: GeoLite2CsvFiles): Promise<CompiledGeoDatabase> {
+    const importer = new GeoCsvImporter();
+
+    const hasCityBlocks = files.cityBlocksIPv4 !== undefined || files.cityBlocksIPv6 !== undefined;
+    if (hasCityBlocks && files.cityLocations === undefined) {
+      throw new Error('GeoLite2 city blocks require the City-Locations-en.csv file');
+    }
+
+    const geonames =
+      files.cityLocations !== undefined ? await importer.readGeoLite2Locations(files.cityLocations) : null;
+
+    for (const file of [files.cityBlocksIPv4, files.cityBlocksIPv6]) {
+      if (file !== undefined && geonames) {
+        await importer.readGeoLite2CityBlocks(file, geonames);
+      }
+    }
+
+    for (const file of [files.asnBlocksIPv4, files.asnBlocksIPv6]) {
+      if (file !== undefined) {
+        await importer.readGeoLite2AsnBlocks(file);
+      }
+    }
+
+    return importer.compile('geolite2');
+  }
+
+  /**
+   * Import DB-IP lite CSV files (dbip-city-lite / dbip-country-lite and dbip-asn-lite)
+   */
+  static async importDbIp(files: DbIpCsvFiles): Promise<CompiledGeoDatabase> {
+    const importer = new GeoCsvImporter();
+
+    if (files.city !== undefined) {
+      await importer.readDbIpCity(files.city);
+    }
+    if (files.asn !== undefined) {
+      await importer.readDbIpAsn(files.asn);
+    }
+
+    return importer.compile('dbip');
+  }
+
+  // GeoLite2
+
+  private async readGeoLite2Locations(file: string): Promise<Map<string, Omit<LocationRecord, 'latitude' | 'longitude'>>> {
+    const geonames = new Map<string, Omit<LocationRecord, 'latitude' | 'longitude'>>();
+
+    await this.readCsvRows(file, row => {
+      const geonameId = row['geoname_id'];
+      if (geonameId === undefined || geonameId === '') return false;
+
+      geonames.set(geonameId, {
+        country: text(row['country_name'], text(row['continent_name'], 'Unknown')),
+        countryCode: text(row['country_iso_code'], 'XX'),
+        region: text(row['subdivision_1_name'], 'Unknown'),
+        city: text(row['city_name'], 'Unknown'),
+        timezone: text(row['time_zone'], 'UTC')
+      });
+      return true;
+    });
+
+    return geonames;
+  }
+
+  private async readGeoLite2CityBlocks(
+    file: string,
+    geonames: Map<string, Omit<LocationRecord, 'latitude' | 'longitude'>>
+  ): Promise<void> {
+    await this.readCsvRows(file, row => {
+      const network = row['network'];
+      const geonameId = text(row['geoname_id'], text(row['registered_country_geoname_id'], ''));
+      const place = geonames.get(geonameId);
+      if (network === undefined || !place) return false;
+
+      const radius = parseOptionalNumber(row['accuracy_radius']);
+      const location: LocationRecord = {
+        ...place,
+        latitude: parseOptionalNumber(row['latitude']) ?? 0,
+        longitude: parseOptionalNumber(row['longitude']) ?? 0,
+        ...(radius !== undefined && { accuracyRadius: radius })
+      };
+
+      const { version, network: start, broadcast: end } = parseCIDR(network);
+      this.locationRanges.push({ version, start, end, value: this.internLocation(location) });
+      return true;
+    });
+  }
+
+  private async readGeoLite2AsnBlocks(file: string): Promise<void> {
+    await this.readCsvRows(file, row => {
+      const network = row['network'];
+      const asn = parseOptionalNumber(row['autonomous_system_number']);
+      if (network === undefined || asn === undefined) return false;
+
+      const { version, network: start, broadcast: end } = parseCIDR(network);
+      const value = this.internAsn({ asn, organization: text(row['autonomous_system_organization'], 'Unknown') });
+      this.asnRanges.push({ version, start, end, value });
+      return true;
+    });
+  }
+
+  // DB-IP
+
+  private async readDbIpCity(file: string): Promise<void> {
+    const regionNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+    // city lite:    start,end,continent,country,stateprov,city,latitude,longitude
+    // country lite: start,end,country
+    await this.readCsvColumns(file, columns => {
+      const range = parseRange(columns[0], columns[1]);
+      const isCountryOnly = columns.length <= 3;
+      const countryCode = (isCountryOnly ? columns[2] : columns[3]) ?? '';
+      if (!range || countryCode === '' || countryCode === 'ZZ') return false;
+
+      const location: LocationRecord = {
+        country: safeDisplayName(regionNames, countryCode),
+        countryCode,
+        region: isCountryOnly ? 'Unknown' : text(columns[4], 'Unknown'),
+        city: isCountryOnly ? 'Unknown' : text(columns[5], 'Unknown'),
+        latitude: isCountryOnly ? 0 : (parseOptionalNumber(columns[6]) ?? 0),
+        longitude: isCountryOnly ? 0 : (parseOptionalNumber(columns[7]) ?? 0),
+        timezone: 'UTC'
+      };
+
+      this.locationRanges.push({ ...range, value: this.internLocation(location) });
+      return true;
+    });
+  }
+
+  private async readDbIpAsn(file: string): Promise<void> {
+    // asn lite: start,end,asn,organization
+    await this.readCsvColumns(file, columns => {
+      const range = parseRange(columns[0], columns[1]);
+      const asn = parseOptionalNumber(columns[2]);
+      if (!range || asn === undefined) return false;
+
+      const value = this.internAsn({ asn, organization: text(columns[3], 'Unknown') });
+      this.asnRanges.push({ ...range, value });
+      return true;
+    });
+  }
+
+  // Shared
+
+  private internLocation(location: LocationRecord): number {
+    const key = JSON.stringify(location);
+    let index = this.locationKeys.get(key);
+    if (index === undefined) {
+      index = this.locations.push(location) - 1;
+      this.locationKeys.set(key, index);
+    }
+    return index;
+  }
+
+  private internAsn(record: AsnRecord): number {
+    const key = `${record.asn}|${record.organization}`;
+    let index = this.asnKeys.get(key);
+    if (index === undefined) {
+      index = this.asns.push(record) - 1;
+      this.asnKeys.set(key, index);
+    }
+    return index;
+  }
+
+  private compile(source: CompiledGeoMetadata['source']): CompiledGeoDatabase {
+    return {
+      metadata: {
+        source,
+        builtAt: new Date().toISOString(),
+        formatVersion: COMPILED_GEO_FORMAT_VERSION,
+        rowCounts: this.rowCounts
+      },
+      locations: this.locations,
+      asns: this.asns,
+      locationIndex: RangeIndex.build(this.locationRanges),
+      asnIndex: RangeIndex.build(this.asnRanges)
+    };
+  }
+
+  /**
+   * Stream a headered CSV file, passing each row keyed by column name
+   */
+  private async readCsvRows(file: string, handler: (row: Record<string, string>) => boolean): Promise<void> {
+    let header: string[] | null = null;
+
+    await this.readCsvColumns(file, columns => {
+      if (header === null) {
+        header = columns;
+        return null;
+      }
+
+      const row: Record<string, string> = {};
+      header.forEach((column, index) => {
+        row[column] = columns[index] ?? '';
+      });
+      return handler(row);
+    });
+  }
+
+  /**
+   * Stream a CSV file (optionally gzip-compressed) line by line.
+   * The handler returns false for rows it skipped and null for lines that are not data (headers);
+   * imported and skipped rows are counted per file.
+   */
+  private async readCsvColumns(file: string, handler: (columns: string[]) => boolean | null): Promise<void> {
+    const name = path.basename(file);
+    const input = createReadStream(file);
+    const lines = createInterface({
+      input: file.endsWith('.gz') ? input.pipe(createGunzip()) : input,
+      crlfDelay: Infinity
+    });
+
+    let imported = 0;
+    let skipped = 0;
+
+    for await (const line of lines) {
+      if (line.trim() === '') continue;
+
+      let accepted: boolean | null;
+      try {
+        accepted = handler(parseCsvLine(line));
+      } catch {
+        accepted = false;
+      }
+
+      if (accepted === true) {
+        imported++;
+      } else if (accepted === false) {
+        skipped++;
+      }
+    }
+
+    this.rowCounts[name] = imported;
+    if (skipped > 0) {
+      this.rowCounts[`${name} (skipped)`] = skipped;
+    }
+  }
+}
+
+// Internal helpers
+
+/**
+ * Split a CSV line, honouring double-quoted fields and "" escapes
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * CSV fields are empty strings when absent
+ */
+function text(value: string | undefined, fallback: string): string {
+  return value !== undefined && value !== '' ? value : fallback;
+}
+
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseRange(startIP: string | undefined, endIP: string | undefined): Omit<RangeEntry<number>, 'value'> | null {
+  const start = startIP !== undefined ? parseIP(startIP) : null;
+  const end = endIP !== undefined ? parseIP(endIP) : null;
+
+  if (!start || !end || start.version !== end.version || end.value < start.value) {
+    return null;
+  }
+  return { version: start.version, start: start.value, end: end.value };
+}
+
+function safeDisplayName(names: Intl.DisplayNames, countryCode: string): string {
+  try {
+    return names.of(countryCode) ?? countryCode;
+  } catch {
+    return countryCode;
+  }
+}
+
+async function listFilesRecursive(directory: string): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async entry => {
+      const fullPath = path.join(directory, entry.name);
+      return entry.isDirectory() ? listFilesRecursive(fullPath) : [fullPath];
+    })
+  );
+  return files.flat();
+}
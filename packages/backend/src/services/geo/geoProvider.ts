@@ -0,0 +1,34 @@
+import { GeoLocation, NetworkInfo } from '@/types/ip';
+
+/**
+ * A source of geolocation and network (ASN) data.
+ * Providers return null when they have no record for an address; the
+ * GeolocationService decides what to fall back to.
+ */
+export interface GeoProvider {
+  readonly name: string;
+  getGeolocation(ipAddress: string): GeoLocation | null;
+  getNetworkInfo(ipAddress: string): NetworkInfo | null;
+  describe(): GeoProviderInfo;
+  close?(): void;
+}
+
+/**
+ * Identifies the loaded data (for dataset status reporting)
+ */
+export interface GeoProviderInfo {
+  version: string;
+  recordCounts: Record<string, number>;
+}
+
+/**
+ * Map an accuracy radius (km) onto the 0-100 accuracy score used by the API
+ */
+export const accuracyFromRadius = (radiusKm: number | undefined, hasCity: boolean): number => {
+  if (radiusKm === undefined) return hasCity ? 60 : 40;
+  if (radiusKm <= 10) return 95;
+  if (radiusKm <= 50) return 85;
+  if (radiusKm <= 100) return 75;
+  if (radiusKm <= 500) return 60;
+  return 40;
+};
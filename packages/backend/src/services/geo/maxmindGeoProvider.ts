@@ -0,0 +1,96 @@
+import { GeoLocation, NetworkInfo } from '@/types/ip';
+import { logger } from '@/utils/logger';
+import maxmind, { AsnResponse, CityResponse, Reader } from 'maxmind';
+import { GeoProvider, GeoProviderInfo, accuracyFromRadius } from './geoProvider';
+
+export interface MaxMindDatabasePaths {
+  cityDatabasePath?: string | undefined;
+  asnDatabasePath?: string | undefined;
+}
+
+/**
+ * Geo provider backed by local MaxMind GeoLite2/GeoIP2 .mmdb files.
+ * Either database may be omitted; lookups against a missing database return null.
+ */
+export class MaxMindGeoProvider implements GeoProvider {
+  readonly name = 'maxmind';
+
+  private readonly cityReader: Reader<CityResponse> | null;
+  private readonly asnReader: Reader<AsnResponse> | null;
+
+  private constructor(cityReader: Reader<CityResponse> | null, asnReader: Reader<AsnResponse> | null) {
+    this.cityReader = cityReader;
+    this.asnReader = asnReader;
+  }
+
+  /**
+   * Open the configured databases. Throws if a configured file cannot be read.
+   */
+  static async open(paths: MaxMindDatabasePaths): Promise<MaxMindGeoProvider> {
+    if (paths.cityDatabasePath === undefined && paths.asnDatabasePath === undefined) {
+      throw new Error('At least one MaxMind database path must be provided');
+    }
+
+    const [cityReader, asnReader] = await Promise.all([
+      paths.cityDatabasePath !== undefined ? maxmind.open<CityResponse>(paths.cityDatabasePath) : null,
+      paths.asnDatabasePath !== undefined ? maxmind.open<AsnResponse>(paths.asnDatabasePath) : null
+    ]);
+
+    logger.info('MaxMind databases loaded', {
+      city: cityReader ? cityReader.metadata.databaseType : null,
+      cityBuild: cityReader ? cityReader.metadata.buildEpoch.toISOString() : null,
+      asn: asnReader ? asnReader.metadata.databaseType : null,
+      asnBuild: asnReader ? asnReader.metadata.buildEpoch.toISOString() : null
+    });
+
+    return new MaxMindGeoProvider(cityReader, asnReader);
+  }
+
+  describe(): GeoProviderInfo {
+    const readers = [
+      ['city', this.cityReader],
+      ['asn', this.asnReader]
+    ] as const;
+    const version: string[] = [];
+    const recordCounts: Record<string, number> = {};
+
+    for (const [label, reader] of readers) {
+      if (!reader) continue;
+      version.push(`${reader.metadata.databaseType}@${reader.metadata.buildEpoch.toISOString()}`);
+      recordCounts[`${label}Nodes`] = reader.metadata.nodeCount;
+    }
+
+    return { version: version.join(', '), recordCounts };
+  }
+
+  getGeolocation(ipAddress: string): GeoLocation | null {
+    const record = this.cityReader?.get(ipAddress);
+    if (!record?.country && !record?.location) return null;
+
+    return {
+      country: record.country?.names.en ?? record.registered_country?.names.en ?? 'Unknown',
+      countryCode: record.country?.iso_code ?? record.registered_country?.iso_code ?? 'XX',
+      region: record.subdivisions?.[0]?.names.en ?? 'Unknown',
+      city: record.city?.names.en ?? 'Unknown',
+      latitude: record.location?.latitude ?? 0,
+      longitude: record.location?.longitude ?? 0,
+      timezone: record.location?.time_zone ?? 'UTC',
+      accuracy: accuracyFromRadius(record.location?.accuracy_radius, record.city !== undefined)
+    };
+  }
+
+  getNetworkInfo(ipAddress: string): NetworkInfo | null {
+    const record = this.asnReader?.get(ipAddress);
+    if (!record) return null;
+
+    const organization = record.autonomous_system_organization ?? 'Unknown';
+
+    return {
+      isp: organization,
+      organization,
+      asn: record.autonomous_system_number ?? 0,
+      asnOrganization: organization,
+      connectionType: 'unknown'
+    };
+  }
+}
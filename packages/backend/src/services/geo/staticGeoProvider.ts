@@ -0,0 +1,119 @@
+import { COUNTRY_INFO, GEOIP_RANGES, GeoIPRange } from '@/data/geoipDatabase';
+import { GeoLocation, NetworkInfo } from '@/types/ip';
+import { RangeIndex, rangeEntry } from '@/utils/rangeIndex';
+import { isIP } from 'net';
+import { GeoProvider, GeoProviderInfo } from './geoProvider';
+
+/**
+ * Geo provider backed by the built-in GEOIP_RANGES table.
+ * Used whenever no external database is configured.
+ */
+export class StaticGeoProvider implements GeoProvider {
+  readonly name = 'static';
+
+  private readonly index: RangeIndex<GeoIPRange>;
+
+  constructor(ranges: GeoIPRange[] = GEOIP_RANGES) {
+    this.index = RangeIndex.build(ranges.map(range => rangeEntry(range.startIP, range.endIP, range)));
+  }
+
+  describe(): GeoProviderInfo {
+    const { 4: ipv4, 6: ipv6 } = this.index.size;
+    return { version: 'builtin', recordCounts: { ranges: ipv4 + ipv6 } };
+  }
+
+  getGeolocation(ipAddress: string): GeoLocation | null {
+    const geoData = this.findGeoIPRange(ipAddress);
+    if (!geoData) return null;
+
+    return {
+      country: geoData.country,
+      countryCode: geoData.countryCode,
+      region: geoData.region || 'Unknown',
+      city: geoData.city || 'Unknown',
+      latitude: geoData.latitude || 0,
+      longitude: geoData.longitude || 0,
+      timezone: geoData.timezone || 'UTC',
+      accuracy: this.calculateAccuracy(geoData)
+    };
+  }
+
+  getNetworkInfo(ipAddress: string): NetworkInfo | null {
+    const geoData = this.findGeoIPRange(ipAddress);
+    if (!geoData) return null;
+
+    return {
+      isp: geoData.isp || 'Unknown ISP',
+      organization: geoData.organization || 'Unknown Organization',
+      asn: geoData.asn || 0,
+      asnOrganization: geoData.asnOrganization || 'Unknown',
+      connectionType: geoData.connectionType || 'unknown'
+    };
+  }
+
+  private findGeoIPRange(ipAddress: string): GeoIPRange | null {
+    // Exact ranges first, then the broad regional allocations
+    return this.index.lookup(ipAddress) ?? this.findByCIDRMatch(ipAddress);
+  }
+
+  private findByCIDRMatch(ipAddress: string): GeoIPRange | null {
+    // Check if IP falls within any of the broader ranges
+    const version = isIP(ipAddress);
+
+    if (version === 4) {
+      // Check common regional allocations
+      const firstOctet = parseInt(ipAddress.split('.')[0] || '0', 10);
+
+      // North America (ARIN) - simplified
+      if ((firstOctet >= 3 && firstOctet <= 126) || (firstOctet >= 128 && firstOctet <= 191)) {
+        return this.createRegionalRange('US', 'North America');
+      }
+
+      // Europe (RIPE NCC) - simplified
+      if (firstOctet >= 80 && firstOctet <= 95) {
+        return this.createRegionalRange('DE', 'Europe');
+      }
+
+      // Asia Pacific (APNIC) - simplified
+      if (firstOctet >= 1 && firstOctet <= 2) {
+        return this.createRegionalRange('SG', 'Asia');
+      }
+    }
+
+    return null;
+  }
+
+  private createRegionalRange(countryCode: string, region: string): GeoIPRange {
+    const countryInfo = COUNTRY_INFO[countryCode as keyof typeof COUNTRY_INFO];
+
+    return {
+      startIP: '0.0.0.0',
+      endIP: '255.255.255.255',
+      country: countryInfo?.name || 'Unknown',
+      countryCode,
+      region,
+      city: 'Unknown',
+      latitude: 0,
+      longitude: 0,
+      timezone: 'UTC',
+      isp: 'Unknown ISP',
+      organization: 'Regional Internet Registry',
+      asn: 0,
+      asnOrganization: 'Unknown',
+      connectionType: 'unknown'
+    };
+  }
+
+  private calculateAccuracy(geoData: GeoIPRange): number {
+    // Calculate accuracy based on data completeness
+    let accuracy = 50; // Base accuracy
+
+    if (geoData.latitude && geoData.longitude) accuracy += 20;
+    if (geoData.city && geoData.city !== 'Unknown') accuracy += 15;
+    if (geoData.region && geoData.region !== 'Unknown') accuracy += 10;
+    if (geoData.timezone && geoData.timezone !== 'UTC') accuracy += 5;
+
+    return Math.min(accuracy, 100);
+  }
+
+}
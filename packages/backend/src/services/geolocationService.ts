@@ -1,9 +1,20 @@
-import { COUNTRY_INFO, GEOIP_RANGES, GeoIPRange } from '@/data/geoipDatabase';
+import { config } from '@/config';
 import { GeoLocation, NetworkInfo, SecurityInfo } from '@/types/ip';
 import { logger } from '@/utils/logger';
 import { isIP } from 'net';
+import { BlocklistService } from './blocklistService';
+import { CloudRangeService } from './cloudRangeService';
+import { DatasetManager } from './datasetManager';
+import { CompiledGeoProvider } from './geo/compiledGeoProvider';
+import { GeoProvider } from './geo/geoProvider';
+import { MaxMindGeoProvider } from './geo/maxmindGeoProvider';
+import { StaticGeoProvider } from './geo/staticGeoProvider';
+import { NetworkAnnotationService } from './networkAnnotationService';
+import { TorExitService } from './torExitService';
 
 export class GeolocationService {
+  private static provider: GeoProvider = new StaticGeoProvider();
+
   /**
    * Get geolocation information for an IP address
    */
@@ -13,23 +24,14 @@ export class GeolocationService {
     }
 
     try {
-      const geoData = this.findGeoIPRange(ipAddress);
-
-      if (!geoData) {
-        // Return default location for unknown IPs
-        return this.getDefaultLocation(ipAddress);
+      // An annotated range's location override replaces the provider result entirely
+      const override = NetworkAnnotationService.lookup(ipAddress)?.location;
+      if (override) {
+        return { ...this.getDefaultLocation(ipAddress), ...override };
       }
 
-      return {
-        country: geoData.country,
-        countryCode: geoData.countryCode,
-        region: geoData.region || 'Unknown',
-        city: geoData.city || 'Unknown',
-        latitude: geoData.latitude || 0,
-        longitude: geoData.longitude || 0,
-        timezone: geoData.timezone || 'UTC',
-        accuracy: this.calculateAccuracy(geoData)
-      };
+      // Return default location for unknown IPs
+      return this.provider.getGeolocation(ipAddress) ?? this.getDefaultLocation(ipAddress);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Geolocation lookup failed', { ipAddress, error: errorMessage });
@@ -46,19 +48,7 @@ export class GeolocationService {
     }
 
     try {
-      const geoData = this.findGeoIPRange(ipAddress);
-
-      if (!geoData) {
-        return this.getDefaultNetworkInfo(ipAddress);
-      }
-
-      return {
-        isp: geoData.isp || 'Unknown ISP',
-        organization: geoData.organization || 'Unknown Organization',
-        asn: geoData.asn || 0,
-        asnOrganization: geoData.asnOrganization || 'Unknown',
-        connectionType: geoData.connectionType || 'unknown'
-      };
+      return this.resolveNetworkInfo(ipAddress) ?? this.getDefaultNetworkInfo(ipAddress);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Network info lookup failed', { ipAddress, error: errorMessage });
@@ -86,8 +76,18 @@ export class GeolocationService {
         reputation: 'neutral'
       };
 
-      // Calculate risk score
-      securityInfo.riskScore = this.calculateRiskScore(ipAddress, securityInfo);
+      // Exit list timestamps tell how recently the address was seen relaying Tor traffic
+      const torExit = TorExitService.lookup(ipAddress);
+      if (torExit) {
+        securityInfo.firstSeen = torExit.firstSeen;
+        securityInfo.lastSeen = torExit.lastSeen;
+      }
+
+      // Calculate risk score, scaled by the trust level of an annotated range
+      securityInfo.riskScore = NetworkAnnotationService.adjustRiskScore(
+        this.calculateRiskScore(ipAddress, securityInfo),
+        NetworkAnnotationService.lookup(ipAddress)
+      );
 
       // Determine reputation
       securityInfo.reputation = this.determineReputation(securityInfo.riskScore);
@@ -122,71 +122,123 @@ export class GeolocationService {
     return { geolocation, network, security };
   }
 
+  /**
+   * Register the configured geo databases with the DatasetManager so they are
+   * loaded at startup and reloaded when the files change. MaxMind databases take
+   * precedence; if they fail to open, the compiled CSV database is loaded instead.
+   * The built-in static table stays active until a configured database loads.
+   */
+  static registerDataset(): void {
+    const { cityDatabasePath, asnDatabasePath, compiledDatabasePath } = config.geo;
+    const useMaxMind = cityDatabasePath !== undefined || asnDatabasePath !== undefined;
+    const files = [cityDatabasePath, asnDatabasePath, compiledDatabasePath].filter(
+      (file): file is string => file !== undefined
+    );
+
+    if (files.length === 0) {
+      logger.info('Using built-in static GeoIP ranges');
+      return;
+    }
+
+    DatasetManager.register<GeoProvider>({
+      name: 'geo',
+      description: useMaxMind ? 'MaxMind geolocation and ASN databases' : 'Compiled GeoLite2 / DB-IP database',
+      files,
+      load: async () => {
+        const provider = await this.openProvider();
+        return { value: provider, ...provider.describe() };
+      },
+      validate: ({ value, recordCounts }) => this.validateProvider(value, recordCounts),
+      activate: provider => this.setProvider(provider)
+    });
+  }
+
+  /**
+   * Replace the active geo provider
+   */
+  static setProvider(provider: GeoProvider): void {
+    const previous = this.provider;
+    this.provider = provider;
+    previous.close?.();
+    logger.info('Geo provider activated', { provider: provider.name });
+  }
+
+  /**
+   * Get the active geo provider
+   */
+  static getProvider(): GeoProvider {
+    return this.provider;
+  }
+
   // Private helper methods
 
-  private static findGeoIPRange(ipAddress: string): GeoIPRange | null {
-    // Convert IP to decimal for range comparison
-    const ipDecimal = this.ipToDecimal(ipAddress);
+  /**
+   * Provider network info, overlaid with the cloud provider when the address is in published
+   * cloud ranges and with the user-defined annotation for the range
+   */
+  private static resolveNetworkInfo(ipAddress: string): NetworkInfo | null {
+    let network = this.provider.getNetworkInfo(ipAddress);
 
-    for (const range of GEOIP_RANGES) {
-      const startDecimal = this.ipToDecimal(range.startIP);
-      const endDecimal = this.ipToDecimal(range.endIP);
+    const cloud = CloudRangeService.lookup(ipAddress);
+    if (cloud) {
+      network = { ...(network ?? this.getDefaultNetworkInfo(ipAddress)), connectionType: 'hosting', cloud };
+    }
 
-      if (ipDecimal >= startDecimal && ipDecimal <= endDecimal) {
-        return range;
-      }
+    const annotation = NetworkAnnotationService.lookup(ipAddress);
+    if (annotation) {
+      network = {
+        ...(network ?? this.getDefaultNetworkInfo(ipAddress)),
+        organization: annotation.owner ?? annotation.name,
+        annotation
+      };
     }
 
-    // Try CIDR-based matching for broader ranges
-    return this.findByCIDRMatch(ipAddress);
+    return network;
   }
 
-  private static findByCIDRMatch(ipAddress: string): GeoIPRange | null {
-    // Check if IP falls within any of the broader ranges
-    const version = isIP(ipAddress);
-
-    if (version === 4) {
-      // Check common regional allocations
-      const firstOctet = parseInt(ipAddress.split('.')[0] || '0', 10);
-
-      // North America (ARIN) - simplified
-      if ((firstOctet >= 3 && firstOctet <= 126) || (firstOctet >= 128 && firstOctet <= 191)) {
-        return this.createRegionalRange('US', 'North America');
-      }
+  /**
+   * Open the MaxMind databases, falling back to the compiled database when they
+   * are missing or broken
+   */
+  private static async openProvider(): Promise<GeoProvider> {
+    const { cityDatabasePath, asnDatabasePath, compiledDatabasePath } = config.geo;
 
-      // Europe (RIPE NCC) - simplified
-      if (firstOctet >= 80 && firstOctet <= 95) {
-        return this.createRegionalRange('DE', 'Europe');
-      }
+    if (cityDatabasePath !== undefined || asnDatabasePath !== undefined) {
+      try {
+        return await MaxMindGeoProvider.open({ cityDatabasePath, asnDatabasePath });
+      } catch (error) {
+        if (compiledDatabasePath === undefined) throw error;
 
-      // Asia Pacific (APNIC) - simplified
-      if (firstOctet >= 1 && firstOctet <= 2) {
-        return this.createRegionalRange('SG', 'Asia');
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to load MaxMind databases', { cityDatabasePath, asnDatabasePath, error: errorMessage });
       }
     }
 
-    return null;
+    if (compiledDatabasePath === undefined) {
+      throw new Error('No geo database configured');
+    }
+    return CompiledGeoProvider.open(compiledDatabasePath);
   }
 
-  private static createRegionalRange(countryCode: string, region: string): GeoIPRange {
-    const countryInfo = COUNTRY_INFO[countryCode as keyof typeof COUNTRY_INFO];
+  private static validateProvider(provider: GeoProvider, recordCounts: Record<string, number>): string[] {
+    const problems: string[] = [];
 
-    return {
-      startIP: '0.0.0.0',
-      endIP: '255.255.255.255',
-      country: countryInfo?.name || 'Unknown',
-      countryCode,
-      region,
-      city: 'Unknown',
-      latitude: 0,
-      longitude: 0,
-      timezone: 'UTC',
-      isp: 'Unknown ISP',
-      organization: 'Regional Internet Registry',
-      asn: 0,
-      asnOrganization: 'Unknown',
-      connectionType: 'unknown'
-    };
+    if (Object.values(recordCounts).every(count => count === 0)) {
+      problems.push('database contains no records');
+    }
+
+    // A database that loads but cannot answer lookups must not replace a working one
+    for (const probe of ['8.8.8.8', '2001:4860:4860::8888']) {
+      try {
+        provider.getGeolocation(probe);
+        provider.getNetworkInfo(probe);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        problems.push(`lookup of ${probe} failed: ${errorMessage}`);
+      }
+    }
+
+    return problems;
   }
 
   private static getDefaultLocation(_ipAddress: string): GeoLocation {
@@ -214,39 +266,30 @@ export class GeolocationService {
     };
   }
 
-  private static calculateAccuracy(geoData: GeoIPRange): number {
-    // Calculate accuracy based on data completeness
-    let accuracy = 50; // Base accuracy
-
-    if (geoData.latitude && geoData.longitude) accuracy += 20;
-    if (geoData.city && geoData.city !== 'Unknown') accuracy += 15;
-    if (geoData.region && geoData.region !== 'Unknown') accuracy += 10;
-    if (geoData.timezone && geoData.timezone !== 'UTC') accuracy += 5;
-
-    return Math.min(accuracy, 100);
-  }
-
   private static isKnownProxy(ipAddress: string): boolean {
     // Simple proxy detection based on known patterns
-    const geoData = this.findGeoIPRange(ipAddress);
-    return geoData?.connectionType === 'hosting' || false;
+    const network = this.resolveNetworkInfo(ipAddress);
+    // An annotated range is described by its trust level, not by the heuristics
+    if (network?.annotation) return false;
+    return network?.connectionType === 'hosting' || false;
   }
 
   private static isKnownVPN(ipAddress: string): boolean {
     // Basic VPN detection - in production, you'd use a VPN database
-    const geoData = this.findGeoIPRange(ipAddress);
+    const network = this.resolveNetworkInfo(ipAddress);
+    // The organization of an annotated range is the user's own label, e.g. "Office VPN"
+    if (network?.annotation) return false;
 
     // Check for common VPN providers
     const vpnKeywords = ['vpn', 'proxy', 'tunnel', 'private'];
-    const orgName = (geoData?.organization || '').toLowerCase();
+    const orgName = (network?.organization || '').toLowerCase();
 
     return vpnKeywords.some(keyword => orgName.includes(keyword));
   }
 
-  private static isKnownTor(_ipAddress: string): boolean {
-    // Tor detection - in production, you'd use the Tor exit node list
-    // This is a simplified implementation
-    return false; // Would need real Tor exit node database
+  private static isKnownTor(ipAddress: string): boolean {
+    // Tor detection against the locally loaded Tor Project exit list
+    return TorExitService.isExitNode(ipAddress);
   }
 
   private static calculateRiskScore(ipAddress: string, securityInfo: SecurityInfo): number {
@@ -257,8 +300,8 @@ export class GeolocationService {
     if (securityInfo.isTor) riskScore += 50;
 
     // Check for suspicious patterns
-    const geoData = this.findGeoIPRange(ipAddress);
-    if (geoData?.connectionType === 'hosting') riskScore += 10;
+    const network = this.resolveNetworkInfo(ipAddress);
+    if (network?.connectionType === 'hosting') riskScore += 10;
 
     return Math.min(riskScore, 100);
   }
@@ -278,20 +321,11 @@ export class GeolocationService {
     if (this.isKnownVPN(ipAddress)) threats.push('vpn');
     if (this.isKnownTor(ipAddress)) threats.push('tor');
 
-    return threats;
-  }
-
-  private static ipToDecimal(ipAddress: string): number {
-    if (!isIP(ipAddress)) return 0;
-
-    const version = isIP(ipAddress);
-    if (version === 4) {
-      return (
-        ipAddress.split('.').reduce((acc, octet, index) => acc + (parseInt(octet, 10) << (8 * (3 - index))), 0) >>> 0
-      );
+    // Categories of any configured blocklist containing the address
+    for (const match of BlocklistService.lookup(ipAddress)) {
+      if (!threats.includes(match.category)) threats.push(match.category);
     }
 
-    // IPv6 handling would be more complex
-    return 0;
+    return threats;
   }
 }
@@ -1,165 +1,119 @@
-import { IPAddress, IPRange } from '@/types/ip';
-import { logger } from '@/utils/logger';
+import { IPV4_SPECIAL_PURPOSE, IPV6_SPECIAL_PURPOSE, SpecialPurposeEntry } from '@/data/specialPurposeRegistry';
+import { BogonStatus, IPAddress, IPRange, ListMembership, MembershipResult, SubnetInfo } from '@/types/ip';
+import {
+  ADDRESS_BITS,
+  AddressRange,
+  IPVersion,
+  bigIntToIP,
+  cidrContains,
+  formatCIDR,
+  mergeRanges,
+  parseCIDR,
+  parseIP,
+  prefixMask,
+  rangeToCIDRs,
+  unmapIPv4
+} from '@/utils/ipAddress';
+import { PrefixTrie, prefixEntry } from '@/utils/prefixTrie';
+import { RangeIndex, cidrEntry } from '@/utils/rangeIndex';
 import ip from 'ip';
 import { isIP } from 'net';
+import { BogonService } from './bogonService';
+import { IPv6AnalysisService } from './ipv6AnalysisService';
+import { NetworkAnnotationService } from './networkAnnotationService';
 
-export class IPClassificationService {
-  // Private IP ranges as defined by RFC 1918, RFC 4193, etc.
-  private static readonly PRIVATE_RANGES: IPRange[] = [
-    // IPv4 Private ranges
-    {
-      start: '10.0.0.0',
-      end: '10.255.255.255',
-      cidr: '10.0.0.0/8',
-      type: 'private',
-      description: 'RFC 1918 - Class A'
-    },
-    {
-      start: '172.16.0.0',
-      end: '172.31.255.255',
-      cidr: '172.16.0.0/12',
-      type: 'private',
-      description: 'RFC 1918 - Class B'
-    },
-    {
-      start: '192.168.0.0',
-      end: '192.168.255.255',
-      cidr: '192.168.0.0/16',
-      type: 'private',
-      description: 'RFC 1918 - Class C'
-    },
-
-    // IPv6 Private ranges
-    {
-      start: 'fc00::',
-      end: 'fdff:ffff:ffff:ffff:ffff:ffff:ffff:ffff',
-      cidr: 'fc00::/7',
-      type: 'private',
-      description: 'RFC 4193 - Unique Local'
-    },
-    {
-      start: 'fe80::',
-      end: 'febf:ffff:ffff:ffff:ffff:ffff:ffff:ffff',
-      cidr: 'fe80::/10',
-      type: 'private',
-      description: 'RFC 4291 - Link Local'
-    }
-  ];
-
-  // Reserved IP ranges
-  private static readonly RESERVED_RANGES: IPRange[] = [
-    // IPv4 Reserved ranges
-    {
-      start: '0.0.0.0',
-      end: '0.255.255.255',
-      cidr: '0.0.0.0/8',
-      type: 'reserved',
-      description: 'RFC 1122 - This network'
-    },
-    {
-      start: '127.0.0.0',
-      end: '127.255.255.255',
-      cidr: '127.0.0.0/8',
-      type: 'reserved',
-      description: 'RFC 1122 - Loopback'
-    },
-    {
-      start: '169.254.0.0',
-      end: '169.254.255.255',
-      cidr: '169.254.0.0/16',
-      type: 'reserved',
-      description: 'RFC 3927 - Link Local'
-    },
-    {
-      start: '224.0.0.0',
-      end: '239.255.255.255',
-      cidr: '224.0.0.0/4',
-      type: 'reserved',
-      description: 'RFC 3171 - Multicast'
-    },
-    {
-      start: '240.0.0.0',
-      end: '255.255.255.254',
-      cidr: '240.0.0.0/4',
-      type: 'reserved',
-      description: 'RFC 1112 - Reserved'
-    },
-    {
-      start: '255.255.255.255',
-      end: '255.255.255.255',
-      cidr: '255.255.255.255/32',
-      type: 'reserved',
-      description: 'RFC 919 - Broadcast'
-    },
-
-    // IPv6 Reserved ranges
-    { start: '::', end: '::', cidr: '::/128', type: 'reserved', description: 'RFC 4291 - Unspecified' },
-    { start: '::1', end: '::1', cidr: '::1/128', type: 'reserved', description: 'RFC 4291 - Loopback' },
-    {
-      start: '::ffff:0:0',
-      end: '::ffff:ffff:ffff',
-      cidr: '::ffff:0:0/96',
-      type: 'reserved',
-      description: 'RFC 4291 - IPv4 Mapped'
-    },
-    {
-      start: '2001:db8::',
-      end: '2001:db8:ffff:ffff:ffff:ffff:ffff:ffff',
-      cidr: '2001:db8::/32',
-      type: 'reserved',
-      description: 'RFC 3849 - Documentation'
-    },
-    {
-      start: 'ff00::',
-      end: 'ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff',
-      cidr: 'ff00::/8',
-      type: 'reserved',
-      description: 'RFC 4291 - Multicast'
-    }
-  ];
+interface SpecialPurposeRange {
+  entry: SpecialPurposeEntry;
+  range: IPRange;
+}
 
+// Upper bound on the subnets a single split may return
+const MAX_SPLIT_SUBNETS = 4096;
+
+// Upper bound on the prefixes a set operation may return; a few cuts into a large block
+// can turn into hundreds of thousands of prefixes
+const MAX_RESULT_PREFIXES = 100000;
+
+// Upper bound on the addresses a single membership check may test
+const MAX_MEMBERSHIP_ADDRESSES = 10000;
+
+// Special-purpose blocks keyed by range; the most specific block wins
+const SPECIAL_PURPOSE: RangeIndex<SpecialPurposeRange> = RangeIndex.build(
+  [...IPV4_SPECIAL_PURPOSE, ...IPV6_SPECIAL_PURPOSE].map(entry => {
+    const { version, network, broadcast } = parseCIDR(entry.cidr);
+    return cidrEntry(entry.cidr, {
+      entry,
+      range: {
+        start: bigIntToIP(network, version),
+        end: bigIntToIP(broadcast, version),
+        cidr: entry.cidr,
+        type: entry.type,
+        description: `${entry.rfc} - ${entry.name}`
+      }
+    });
+  })
+);
+
+export class IPClassificationService {
   /**
-   * Classify an IP address type
+   * Classify an IP address type from the IANA special-purpose registries. IPv4-mapped
+   * IPv6 addresses are classified by the IPv4 address they carry.
    */
   static classifyIP(ipAddress: string): IPAddress['type'] {
-    if (!isIP(ipAddress)) {
+    const parsed = parseIP(ipAddress);
+    if (!parsed || !isIP(ipAddress)) {
       throw new Error(`Invalid IP address: ${ipAddress}`);
     }
 
-    // Check if it's a loopback address
-    if (ip.isLoopback(ipAddress)) {
-      return 'loopback';
+    const { version, value } = unmapIPv4(parsed);
+    const special = SPECIAL_PURPOSE.lookupValue(version, value);
+    if (special) {
+      return special.entry.type;
     }
 
-    // Check if it's a private address
-    if (ip.isPrivate(ipAddress)) {
-      return 'private';
+    if (this.isMulticast(version, value)) {
+      return 'multicast';
     }
 
-    // Check reserved ranges (but exclude IPv6 ranges for IPv4 addresses)
-    const ipVersion = isIP(ipAddress) as 4 | 6;
-    const relevantReservedRanges = this.RESERVED_RANGES.filter(range => {
-      const isIPv4 = ipVersion === 4;
-      const isRangeIPv4 = !range.cidr.includes(':');
-      return isIPv4 === isRangeIPv4;
-    });
+    // If none of the above, it's public
+    return 'public';
+  }
+
+  /**
+   * Special-purpose registry entry covering an address, with its attributes.
+   * IPv4-mapped IPv6 addresses report the entry of the IPv4 address they carry.
+   */
+  static getSpecialPurpose(ipAddress: string): SpecialPurposeEntry | null {
+    return this.lookupSpecialPurpose(ipAddress)?.entry ?? null;
+  }
 
-    if (this.isInRanges(ipAddress, relevantReservedRanges)) {
-      return 'reserved';
+  /**
+   * Whether an address can be a source on the public internet. The special-purpose
+   * registry decides for its own blocks; everything else must be allocated and assigned.
+   */
+  static getBogonStatus(ipAddress: string): BogonStatus {
+    const parsed = parseIP(ipAddress);
+    if (!parsed) {
+      throw new Error(`Invalid IP address: ${ipAddress}`);
     }
 
-    // Check for multicast
-    if (this.isMulticast(ipAddress)) {
-      return 'multicast';
+    const { version, value } = unmapIPv4(parsed);
+    const source = BogonService.isFullBogonsAvailable() ? 'full-bogons' : 'iana-registries';
+
+    const special = SPECIAL_PURPOSE.lookupValue(version, value)?.entry;
+    if (special) {
+      return special.globallyReachable === false
+        ? { isBogon: true, category: 'martian', cidr: special.cidr, description: special.name, source }
+        : { isBogon: false, source };
     }
 
-    // Check for broadcast
-    if (this.isBroadcast(ipAddress)) {
-      return 'broadcast';
+    if (this.isMulticast(version, value)) {
+      const cidr = version === 4 ? '224.0.0.0/4' : 'ff00::/8';
+      return { isBogon: true, category: 'martian', cidr, description: 'Multicast', source };
     }
 
-    // If none of the above, it's public
-    return 'public';
+    const unrouted = BogonService.lookup(version, value);
+    return unrouted ? { isBogon: true, ...unrouted, source } : { isBogon: false, source };
   }
 
   /**
@@ -173,12 +127,19 @@ export class IPClassificationService {
     const version = isIP(ipAddress) as 4 | 6;
     const type = this.classifyIP(ipAddress);
     const range = this.findIPRange(ipAddress);
+    const specialPurpose = this.getSpecialPurpose(ipAddress);
+    const bogon = this.getBogonStatus(ipAddress);
+
+    const annotation = NetworkAnnotationService.lookup(ipAddress);
 
     const details = {
       address: ipAddress,
       version,
       type,
-      range
+      range,
+      specialPurpose,
+      bogon,
+      ...(annotation && { annotation })
     };
 
     // Add version-specific details
@@ -193,91 +154,222 @@ export class IPClassificationService {
     }
 
     // Add IPv6 specific details
+    const ipv6 = IPv6AnalysisService.analyze(ipAddress);
     const ipv6Details = {
-      subnet: this.getIPv6Subnet(ipAddress),
-      cidr: this.getIPv6CIDR(ipAddress)
+      subnet: ipv6.prefix.split('/')[0],
+      cidr: ipv6.prefix,
+      ipv6
     };
     return { ...details, ...ipv6Details };
   }
 
   /**
-   * Calculate subnet information for an IP
+   * Calculate subnet information for an IP. The mask is a prefix length (24 or /24) or,
+   * for either family, a netmask such as 255.255.255.0 or ffff:ffff:ffff:ffff::.
    */
-  static calculateSubnet(
-    ipAddress: string,
-    subnetMask: string
-  ): {
-    network: string;
-    broadcast: string;
-    firstHost: string;
-    lastHost: string;
-    totalHosts: number;
-    usableHosts: number;
-    cidr: string;
-  } {
-    if (!isIP(ipAddress) || !isIP(subnetMask)) {
+  static calculateSubnet(ipAddress: string, mask: string): SubnetInfo {
+    const parsed = parseIP(ipAddress);
+    if (!parsed) {
       throw new Error('Invalid IP address or subnet mask');
     }
 
-    try {
-      const subnet = ip.subnet(ipAddress, subnetMask);
+    const { version } = parsed;
+    const bits = ADDRESS_BITS[version];
+    const prefixLength = this.maskToPrefixLength(mask, version);
+    const network = parsed.value & prefixMask(prefixLength, version);
+    const last = network | (prefixMask(prefixLength, version) ^ prefixMask(bits, version));
+    const totalAddresses = last - network + 1n;
+
+    const base = {
+      cidr: formatCIDR(network, prefixLength, version),
+      network: bigIntToIP(network, version),
+      prefixLength,
+      totalAddresses: totalAddresses.toString(),
+      parent:
+        prefixLength > 0
+          ? formatCIDR(network & prefixMask(prefixLength - 1, version), prefixLength - 1, version)
+          : null,
+      children: prefixLength < bits ? this.splitPrefix(network, prefixLength, version) : []
+    };
 
+    if (version === 6) {
+      // No broadcast in IPv6; every address in the prefix is assignable
       return {
-        network: subnet.networkAddress,
-        broadcast: subnet.broadcastAddress,
-        firstHost: subnet.firstAddress,
-        lastHost: subnet.lastAddress,
-        totalHosts: subnet.numHosts,
-        usableHosts: Math.max(0, subnet.numHosts - 2), // Subtract network and broadcast
-        cidr: `${subnet.networkAddress}/${subnet.subnetMaskLength}`
+        ...base,
+        version,
+        firstHost: base.network,
+        lastHost: bigIntToIP(last, 6),
+        lastAddress: bigIntToIP(last, 6),
+        subnets64: (prefixLength <= 64 ? 1n << BigInt(64 - prefixLength) : 0n).toString()
       };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error('Subnet calculation failed', { ipAddress, subnetMask, error: errorMessage });
-      throw new Error('Failed to calculate subnet information');
     }
+
+    // A /31 is a point-to-point link with two usable addresses (RFC 3021), a /32 a single host
+    const hasBroadcast = prefixLength < 31;
+    return {
+      ...base,
+      version,
+      firstHost: bigIntToIP(hasBroadcast ? network + 1n : network, 4),
+      lastHost: bigIntToIP(hasBroadcast ? last - 1n : last, 4),
+      ...(hasBroadcast && { broadcast: bigIntToIP(last, 4) }),
+      subnetMask: this.cidrToSubnetMask(prefixLength),
+      wildcardMask: bigIntToIP(last - network, 4),
+      totalHosts: Number(totalAddresses),
+      usableHosts: Number(hasBroadcast ? totalAddresses - 2n : totalAddresses)
+    };
   }
 
   /**
    * Convert CIDR to subnet mask
    */
-  static cidrToSubnetMask(cidr: number): string {
-    if (cidr < 0 || cidr > 32) {
-      throw new Error('CIDR must be between 0 and 32');
+  static cidrToSubnetMask(cidr: number, version: IPVersion = 4): string {
+    const bits = ADDRESS_BITS[version];
+    if (!Number.isInteger(cidr) || cidr < 0 || cidr > bits) {
+      throw new Error(`CIDR must be between 0 and ${bits}`);
     }
 
-    const mask = (0xffffffff << (32 - cidr)) >>> 0;
-    return [(mask >>> 24) & 0xff, (mask >>> 16) & 0xff, (mask >>> 8) & 0xff, mask & 0xff].join('.');
+    return bigIntToIP(prefixMask(cidr, version), version);
+  }
+
+  /**
+   * Convert CIDR to the inverted mask used by Cisco ACLs and OSPF
+   */
+  static cidrToWildcardMask(cidr: number): string {
+    return this.cidrToSubnetMask(cidr)
+      .split('.')
+      .map(octet => 255 - Number(octet))
+      .join('.');
   }
 
   /**
    * Convert subnet mask to CIDR
    */
   static subnetMaskToCidr(subnetMask: string): number {
-    if (!isIP(subnetMask)) {
+    const parsed = parseIP(subnetMask);
+    if (!parsed) {
       throw new Error('Invalid subnet mask');
     }
 
-    const parts = subnetMask.split('.').map(Number);
+    const bits = ADDRESS_BITS[parsed.version];
     let cidr = 0;
-
-    for (const part of parts) {
-      const binary = part.toString(2).padStart(8, '0');
-      const ones = binary.indexOf('0');
-      cidr += ones === -1 ? 8 : ones;
-      if (ones !== -1) break;
+    while (cidr < bits && ((parsed.value >> BigInt(bits - cidr - 1)) & 1n) === 1n) {
+      cidr++;
     }
 
+    if (prefixMask(cidr, parsed.version) !== parsed.value) {
+      throw new Error(`Invalid subnet mask: ${subnetMask} is not contiguous`);
+    }
     return cidr;
   }
 
+  /**
+   * Merge a list of prefixes of either family into the smallest set covering the same addresses
+   */
+  static aggregateCIDRs(cidrs: string[]): string[] {
+    return this.formatRanges(this.toRanges(cidrs));
+  }
+
+  /**
+   * Addresses covered by the first list but not by the second
+   */
+  static excludeCIDRs(cidrs: string[], exclude: string[]): string[] {
+    const remaining: AddressRange[] = [];
+
+    // Both lists are merged and sorted, so one sweep cuts every range with the cuts that overlap it
+    this.sweep(this.toRanges(cidrs), this.toRanges(exclude), (range, cuts) => {
+      let start = range.start;
+      for (const cut of cuts) {
+        if (cut.start > start) remaining.push({ version: range.version, start, end: cut.start - 1n });
+        if (cut.end + 1n > start) start = cut.end + 1n;
+      }
+      if (start <= range.end) remaining.push({ version: range.version, start, end: range.end });
+    });
+
+    return this.formatRanges(remaining);
+  }
+
+  /**
+   * Addresses covered by both lists
+   */
+  static intersectCIDRs(a: string[], b: string[]): string[] {
+    const overlaps: AddressRange[] = [];
+
+    this.sweep(this.toRanges(a), this.toRanges(b), (range, others) => {
+      for (const other of others) {
+        overlaps.push({
+          version: range.version,
+          start: other.start > range.start ? other.start : range.start,
+          end: other.end < range.end ? other.end : range.end
+        });
+      }
+    });
+
+    return this.formatRanges(overlaps);
+  }
+
+  /**
+   * Split a prefix into subnets of a given length, or into at least `count` equal subnets
+   * (rounded up to the next power of two)
+   */
+  static splitCIDR(cidr: string, options: { count?: number; prefixLength?: number }): string[] {
+    const parsed = parseCIDR(cidr);
+    const bits = ADDRESS_BITS[parsed.version];
+    const { count, prefixLength } = options;
+
+    let newPrefix: number;
+    if (prefixLength !== undefined) {
+      newPrefix = prefixLength;
+    } else if (count !== undefined && Number.isInteger(count) && count > 0) {
+      newPrefix = parsed.prefixLength + Math.ceil(Math.log2(count));
+    } else {
+      throw new Error('Provide a positive integer count or a prefix length to split into');
+    }
+
+    if (!Number.isInteger(newPrefix) || newPrefix < parsed.prefixLength || newPrefix > bits) {
+      throw new Error(`Cannot split a /${parsed.prefixLength} into /${newPrefix} subnets`);
+    }
+    if (newPrefix - parsed.prefixLength > Math.log2(MAX_SPLIT_SUBNETS)) {
+      throw new Error(`Splitting into /${newPrefix} would produce more than ${MAX_SPLIT_SUBNETS} subnets`);
+    }
+
+    const size = 1n << BigInt(bits - newPrefix);
+    const subnets: string[] = [];
+    for (let network = parsed.network; network <= parsed.broadcast; network += size) {
+      subnets.push(formatCIDR(network, newPrefix, parsed.version));
+    }
+    return subnets;
+  }
+
+  /**
+   * Prefixes covering an arbitrary start-end range exactly
+   */
+  static rangeToCIDRs(start: string, end: string): string[] {
+    const first = parseIP(start);
+    const last = parseIP(end);
+
+    if (!first || !last) {
+      throw new Error(`Invalid address range: ${start} - ${end}`);
+    }
+    if (first.version !== last.version) {
+      throw new Error('Range start and end must be of the same address family');
+    }
+    if (first.value > last.value) {
+      throw new Error(`Range start ${start} is after its end ${end}`);
+    }
+
+    return rangeToCIDRs(first.value, last.value, first.version).map(prefix =>
+      formatCIDR(prefix.network, prefix.prefixLength, prefix.version)
+    );
+  }
+
   /**
    * Check if an IP is in a list of ranges
    */
   static isInRanges(ipAddress: string, ranges: IPRange[]): boolean {
     return ranges.some(range => {
       try {
-        return ip.cidrSubnet(range.cidr).contains(ipAddress);
+        const address = parseIP(ipAddress);
+        return address !== null && cidrContains(parseCIDR(range.cidr), address);
       } catch {
         return false;
       }
@@ -285,48 +377,147 @@ export class IPClassificationService {
   }
 
   /**
-   * Find which range an IP belongs to
+   * Check addresses against named prefix lists with longest-prefix-match semantics. All
+   * lists share one radix tree, so each address costs a single walk however long they are.
    */
-  static findIPRange(ipAddress: string): IPRange | undefined {
-    const version = isIP(ipAddress) as 4 | 6;
-    const allRanges = [...this.PRIVATE_RANGES, ...this.RESERVED_RANGES];
+  static checkMembership(ips: string[], lists: Record<string, string[]>): MembershipResult[] {
+    if (ips.length > MAX_MEMBERSHIP_ADDRESSES) {
+      throw new Error(`At most ${MAX_MEMBERSHIP_ADDRESSES} addresses can be checked at once`);
+    }
 
-    // Filter ranges to match IP version
-    const relevantRanges = allRanges.filter(range => {
-      const isIPv4 = version === 4;
-      const isRangeIPv4 = !range.cidr.includes(':');
-      return isIPv4 === isRangeIPv4;
-    });
+    const trie = PrefixTrie.build(
+      Object.entries(lists).flatMap(([list, cidrs]) =>
+        cidrs.map(cidr => {
+          try {
+            return prefixEntry(cidr, list);
+          } catch {
+            throw new Error(`Invalid prefix in list "${list}": ${cidr}`);
+          }
+        })
+      )
+    );
 
-    return relevantRanges.find(range => {
-      try {
-        return ip.cidrSubnet(range.cidr).contains(ipAddress);
-      } catch {
-        return false;
+    return ips.map(ipAddress => {
+      const parsed = parseIP(ipAddress);
+      if (!parsed) {
+        return { ip: ipAddress, valid: false, lists: [], matches: [], longestMatch: null };
+      }
+
+      // Most specific prefix first; the first prefix seen for a list is its longest match
+      const { version, value } = unmapIPv4(parsed);
+      const byList = new Map<string, ListMembership>();
+      for (const match of trie.matchValue(version, value).reverse()) {
+        const cidr = formatCIDR(match.network, match.prefixLength, version);
+        for (const list of new Set(match.values)) {
+          const membership = byList.get(list);
+          if (membership) {
+            membership.prefixes.push(cidr);
+          } else {
+            byList.set(list, { list, cidr, prefixLength: match.prefixLength, prefixes: [cidr] });
+          }
+        }
       }
+
+      const matches = [...byList.values()];
+      return {
+        ip: ipAddress,
+        valid: true,
+        lists: matches.map(membership => membership.list),
+        matches,
+        longestMatch: matches[0] ?? null
+      };
     });
   }
 
+  /**
+   * Find which special-purpose range an IP belongs to
+   */
+  static findIPRange(ipAddress: string): IPRange | undefined {
+    return this.lookupSpecialPurpose(ipAddress)?.range;
+  }
+
   // Private helper methods
 
-  private static isMulticast(ipAddress: string): boolean {
-    const version = isIP(ipAddress);
-    if (version === 4) {
-      // IPv4 multicast: 224.0.0.0/4
-      try {
-        return ip.cidrSubnet('224.0.0.0/4').contains(ipAddress);
-      } catch {
-        return false;
+  private static lookupSpecialPurpose(ipAddress: string): SpecialPurposeRange | null {
+    const parsed = parseIP(ipAddress);
+    if (!parsed) return null;
+
+    const { version, value } = unmapIPv4(parsed);
+    return SPECIAL_PURPOSE.lookupValue(version, value);
+  }
+
+  private static toRanges(cidrs: string[]): AddressRange[] {
+    return mergeRanges(
+      cidrs.map(cidr => {
+        const { version, network, broadcast } = parseCIDR(cidr);
+        return { version, start: network, end: broadcast };
+      })
+    );
+  }
+
+  /**
+   * Walk two merged, sorted range lists together, passing each range of the first list
+   * the ranges of the second that overlap it. Runs in linear time over both lists.
+   */
+  private static sweep(
+    ranges: AddressRange[],
+    others: AddressRange[],
+    visit: (range: AddressRange, overlapping: AddressRange[]) => void
+  ): void {
+    const precedes = (a: AddressRange, b: AddressRange): boolean =>
+      a.version < b.version || (a.version === b.version && a.end < b.start);
+    let first = 0;
+
+    for (const range of ranges) {
+      while (first < others.length && precedes(others[first] as AddressRange, range)) first++;
+
+      // A range of the second list may reach into the next range too, so `first` stays on it
+      let last = first;
+      while (last < others.length && !precedes(range, others[last] as AddressRange)) last++;
+      visit(range, others.slice(first, last));
+    }
+  }
+
+  private static formatRanges(ranges: AddressRange[]): string[] {
+    const cidrs: string[] = [];
+
+    for (const range of mergeRanges(ranges)) {
+      for (const prefix of rangeToCIDRs(range.start, range.end, range.version)) {
+        cidrs.push(formatCIDR(prefix.network, prefix.prefixLength, prefix.version));
+      }
+      if (cidrs.length > MAX_RESULT_PREFIXES) {
+        throw new Error(`Result would contain more than ${MAX_RESULT_PREFIXES} prefixes`);
       }
-    } else if (version === 6) {
-      // IPv6 multicast: ff00::/8
-      return ipAddress.toLowerCase().startsWith('ff');
     }
-    return false;
+
+    return cidrs;
+  }
+
+  // Multicast has registries of its own: 224.0.0.0/4 and ff00::/8
+  private static isMulticast(version: IPVersion, value: bigint): boolean {
+    return version === 4 ? value >> 28n === 0xen : value >> 120n === 0xffn;
   }
 
-  private static isBroadcast(ipAddress: string): boolean {
-    return ipAddress === '255.255.255.255';
+  private static splitPrefix(network: bigint, prefixLength: number, version: IPVersion): string[] {
+    const upperHalf = network | (1n << BigInt(ADDRESS_BITS[version] - prefixLength - 1));
+    return [formatCIDR(network, prefixLength + 1, version), formatCIDR(upperHalf, prefixLength + 1, version)];
+  }
+
+  private static maskToPrefixLength(mask: string, version: IPVersion): number {
+    const value = mask.trim().replace(/^\//, '');
+
+    if (/^\d{1,3}$/.test(value)) {
+      const prefixLength = Number(value);
+      if (prefixLength > ADDRESS_BITS[version]) {
+        throw new Error(`CIDR must be between 0 and ${ADDRESS_BITS[version]}`);
+      }
+      return prefixLength;
+    }
+
+    if (isIP(value) !== version) {
+      throw new Error(`Subnet mask ${mask} is not an IPv${version} mask`);
+    }
+    return this.subnetMaskToCidr(value);
   }
 
   private static ipToBinary(ipAddress: string): string {
@@ -361,19 +552,4 @@ export class IPClassificationService {
       return 'Unknown';
     }
   }
-
-  private static getIPv6Subnet(ipAddress: string): string {
-    // IPv6 subnet calculation (simplified)
-    const parts = ipAddress.split(':');
-    if (parts.length >= 4) {
-      return parts.slice(0, 4).join(':') + '::';
-    }
-    return 'Unknown';
-  }
-
-  private static getIPv6CIDR(ipAddress: string): string {
-    // Default to /64 for IPv6
-    const subnet = this.getIPv6Subnet(ipAddress);
-    return subnet !== 'Unknown' ? `${subnet}/64` : 'Unknown';
-  }
 }
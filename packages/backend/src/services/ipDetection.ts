@@ -1,52 +1,79 @@
-import { ConnectionAnalysis, IPAddress, IPAnalysis, NetworkConnection } from '@/types/ip';
+import { ClientIPHeaderDefinition } from '@/data/clientIPHeaders';
+import { ConnectionAnalysis, ForwardedElement, IPAddress, IPAnalysis, NetworkConnection } from '@/types/ip';
+import { parseForwardedHeader } from '@/utils/forwardedHeader';
 import { logger } from '@/utils/logger';
 import { Request } from 'express';
-import ip from 'ip';
 import { isIP } from 'net';
+import { ClientIPHeaderService } from './clientIPHeaderService';
+import { IPClassificationService } from './ipClassification';
+import { ProxyProtocolService } from './proxyProtocolService';
+import { TrustedProxyService } from './trustedProxyService';
+
+export interface ForwardingChains {
+  // PROXY protocol source or socket peer - whoever sent the headers
+  peerIP: string | null;
+  socketIP: string | null;
+  proxyProtocolIP: string | null;
+  xForwardedFor: string[];
+  // for= values of the Forwarded header
+  forwarded: string[];
+  forwardedElements: ForwardedElement[];
+}
+
+// Confidence of header values the socket peer was not trusted to supply
+const UNTRUSTED_CONFIDENCE = 10;
 
 export class IPDetectionService {
   /**
-   * Extract all possible IP addresses from request headers and connection
+   * Extract all possible IP addresses from request headers and connection.
+   * Header values are only trusted when the socket peer is a trusted proxy for that header;
+   * untrusted values are still reported, with minimal confidence.
    */
   static extractAllIPs(req: Request): IPAddress[] {
     const detectedIPs: IPAddress[] = [];
 
+    // 0. PROXY protocol header from a TCP load balancer (the client address as the balancer saw it)
+    const proxyProtocolIP = this.extractProxyProtocolIP(req);
+    if (proxyProtocolIP) {
+      detectedIPs.push(proxyProtocolIP);
+    }
+
     // 1. Socket/Connection IP (most direct)
     const socketIP = this.extractSocketIP(req);
     if (socketIP) {
       detectedIPs.push(socketIP);
     }
 
-    // 2. X-Forwarded-For header (most common proxy header)
-    const forwardedIPs = this.extractForwardedForIPs(req);
-    detectedIPs.push(...forwardedIPs);
-
-    // 3. X-Real-IP header (nginx, apache)
-    const realIP = this.extractRealIP(req);
-    if (realIP) {
-      detectedIPs.push(realIP);
-    }
-
-    // 4. CF-Connecting-IP (Cloudflare)
-    const cfIP = this.extractCloudflareIP(req);
-    if (cfIP) {
-      detectedIPs.push(cfIP);
-    }
+    // Headers were sent by whoever connected to the load balancer, not by the balancer itself
+    const peerIP = proxyProtocolIP?.address ?? socketIP?.address ?? null;
 
-    // 5. X-Cluster-Client-IP (cluster environments)
-    const clusterIP = this.extractClusterIP(req);
-    if (clusterIP) {
-      detectedIPs.push(clusterIP);
+    // 2. Client IP headers from the catalog, each trusted only from its own proxy sets
+    for (const definition of ClientIPHeaderService.list()) {
+      detectedIPs.push(...this.extractHeaderIPs(req, definition, peerIP));
     }
 
-    // 6. Forwarded header (RFC 7239)
-    const forwardedRFC = this.extractForwardedRFC(req);
-    detectedIPs.push(...forwardedRFC);
-
     // Remove duplicates and invalid IPs
     return this.deduplicateIPs(detectedIPs);
   }
 
+  /**
+   * Raw forwarding chains of a request (oldest hop first) and the peer that sent them
+   */
+  static getForwardingChains(req: Request): ForwardingChains {
+    const socketIP = this.extractSocketIP(req)?.address ?? null;
+    const proxyProtocolIP = this.extractProxyProtocolIP(req)?.address ?? null;
+    const forwardedElements = parseForwardedHeader(req.get('Forwarded'));
+
+    return {
+      peerIP: proxyProtocolIP ?? socketIP,
+      socketIP,
+      proxyProtocolIP,
+      xForwardedFor: this.splitForwardedFor(req.get('X-Forwarded-For')),
+      forwarded: forwardedElements.map(element => element.for?.value ?? ''),
+      forwardedElements
+    };
+  }
+
   /**
    * Determine the most likely real client IP
    */
@@ -54,8 +81,12 @@ export class IPDetectionService {
     if (ips.length === 0) return null;
     if (ips.length === 1) return ips[0] || null;
 
+    // Only addresses from sources the socket peer may supply can be the client
+    const trustedIPs = ips.filter(ip => ip.trusted !== false);
+    const candidates = trustedIPs.length > 0 ? trustedIPs : ips;
+
     // Sort by confidence score (highest first)
-    const sortedIPs = [...ips].sort((a, b) => b.confidence - a.confidence);
+    const sortedIPs = [...candidates].sort((a, b) => b.confidence - a.confidence);
 
     // Prefer public IPs over private ones
     const publicIPs = sortedIPs.filter(ip => ip.type === 'public');
@@ -72,6 +103,9 @@ export class IPDetectionService {
    */
   static analyzeConnectionProperties(req: Request): NetworkConnection {
     const protocol = req.secure ? 'HTTPS' : 'HTTP';
+    const proxyProtocol = ProxyProtocolService.getInfo(req.socket);
+    // Node joins repeated Forwarded headers into one comma-separated value
+    const forwarded = parseForwardedHeader(req.get('Forwarded'));
     const port = req.socket.localPort || (req.secure ? 443 : 80);
 
     return {
@@ -82,7 +116,9 @@ export class IPDetectionService {
       acceptLanguage: req.get('Accept-Language') || undefined,
       acceptEncoding: req.get('Accept-Encoding') || undefined,
       dnt: req.get('DNT') === '1',
-      headers: this.sanitizeHeaders(req.headers)
+      headers: this.sanitizeHeaders(req.headers),
+      ...(proxyProtocol && { proxyProtocol }),
+      ...(forwarded.length > 0 && { forwarded })
     };
   }
 
@@ -137,6 +173,20 @@ export class IPDetectionService {
 
   // Private helper methods
 
+  private static extractProxyProtocolIP(req: Request): IPAddress | null {
+    const sourceAddress = ProxyProtocolService.getInfo(req.socket)?.sourceAddress;
+    if (sourceAddress === undefined) return null;
+
+    return {
+      address: sourceAddress,
+      version: isIP(sourceAddress) as 4 | 6,
+      type: this.classifyIPType(sourceAddress),
+      source: 'proxy-protocol',
+      confidence: 100, // Set by our own load balancer from the TCP connection it accepted
+      trusted: true
+    };
+  }
+
   private static extractSocketIP(req: Request): IPAddress | null {
     const socketIP = req.socket.remoteAddress || req.ip;
     if (!socketIP || !isIP(socketIP)) return null;
@@ -146,104 +196,100 @@ export class IPDetectionService {
       version: isIP(socketIP) as 4 | 6,
       type: this.classifyIPType(socketIP),
       source: 'socket',
-      confidence: 70 // Medium confidence as it could be a proxy
+      confidence: 70, // Medium confidence as it could be a proxy
+      trusted: true
     };
   }
 
-  private static extractForwardedForIPs(req: Request): IPAddress[] {
-    const forwardedFor = req.get('X-Forwarded-For');
-    if (!forwardedFor) return [];
-
-    const ips = forwardedFor.split(',').map(ip => ip.trim());
-    const result: IPAddress[] = [];
-
-    ips.forEach((ipStr, index) => {
-      if (isIP(ipStr)) {
-        result.push({
-          address: this.normalizeIP(ipStr),
-          version: isIP(ipStr) as 4 | 6,
-          type: this.classifyIPType(ipStr),
-          source: 'x-forwarded-for',
-          confidence: index === 0 ? 90 : Math.max(50 - index * 10, 10) // First IP has highest confidence
-        });
+  private static extractHeaderIPs(
+    req: Request,
+    definition: ClientIPHeaderDefinition,
+    peerIP: string | null
+  ): IPAddress[] {
+    const value = req.get(definition.header);
+    const { header, confidence } = definition;
+
+    switch (definition.parse) {
+      case 'list':
+        return this.extractChainIPs(this.splitForwardedFor(value), header, peerIP, confidence);
+      case 'rfc7239':
+        return this.extractChainIPs(this.splitForwardedRFC(value), header, peerIP, confidence);
+      default: {
+        const singleIP = this.extractSingleIP(value?.trim(), header, peerIP, confidence);
+        return singleIP ? [singleIP] : [];
       }
-    });
-
-    return result;
+    }
   }
 
-  private static extractRealIP(req: Request): IPAddress | null {
-    const realIP = req.get('X-Real-IP');
-    if (!realIP || !isIP(realIP)) return null;
-
-    return {
-      address: this.normalizeIP(realIP),
-      version: isIP(realIP) as 4 | 6,
-      type: this.classifyIPType(realIP),
-      source: 'x-real-ip',
-      confidence: 85
-    };
+  private static splitForwardedFor(header: string | undefined): string[] {
+    if (header === undefined || header.trim() === '') return [];
+    return header.split(',').map(ip => ip.trim());
   }
 
-  private static extractCloudflareIP(req: Request): IPAddress | null {
-    const cfIP = req.get('CF-Connecting-IP');
-    if (!cfIP || !isIP(cfIP)) return null;
-
-    return {
-      address: this.normalizeIP(cfIP),
-      version: isIP(cfIP) as 4 | 6,
-      type: this.classifyIPType(cfIP),
-      source: 'cf-connecting-ip',
-      confidence: 95 // Cloudflare is very reliable
-    };
+  /**
+   * for= nodes of a Forwarded header: addresses, "unknown", obfuscated identifiers, or ''
+   * for elements without for=
+   */
+  private static splitForwardedRFC(header: string | undefined): string[] {
+    return parseForwardedHeader(header).map(element => element.for?.value ?? '');
   }
 
-  private static extractClusterIP(req: Request): IPAddress | null {
-    const clusterIP = req.get('X-Cluster-Client-IP');
-    if (!clusterIP || !isIP(clusterIP)) return null;
+  /**
+   * Single-address header, trusted only when the socket peer may set it
+   */
+  private static extractSingleIP(
+    value: string | undefined,
+    source: IPAddress['source'],
+    peerIP: string | null,
+    confidence: number
+  ): IPAddress | null {
+    if (value === undefined || !isIP(value)) return null;
+
+    const trusted = TrustedProxyService.isTrustedFor(peerIP, source);
 
     return {
-      address: this.normalizeIP(clusterIP),
-      version: isIP(clusterIP) as 4 | 6,
-      type: this.classifyIPType(clusterIP),
-      source: 'x-cluster-client-ip',
-      confidence: 80
+      address: this.normalizeIP(value),
+      version: isIP(value) as 4 | 6,
+      type: this.classifyIPType(value),
+      source,
+      confidence: trusted ? confidence : UNTRUSTED_CONFIDENCE,
+      trusted
     };
   }
 
-  private static extractForwardedRFC(req: Request): IPAddress[] {
-    const forwarded = req.get('Forwarded');
-    if (!forwarded) return [];
-
+  /**
+   * Forwarding chain (oldest hop first), resolved right to left from the socket peer.
+   * The client is the first hop that is not a trusted proxy; hops to its right are the
+   * proxies in between, hops to its left were supplied by the client and are not trusted.
+   */
+  private static extractChainIPs(
+    chain: string[],
+    source: IPAddress['source'],
+    peerIP: string | null,
+    clientConfidence: number
+  ): IPAddress[] {
+    const honored = TrustedProxyService.isTrustedFor(peerIP, source);
+    const clientIndex = honored ? TrustedProxyService.resolveChain(chain, source).clientIndex : chain.length;
     const result: IPAddress[] = [];
 
-    // Parse RFC 7239 Forwarded header: for=192.0.2.60;proto=http;by=203.0.113.43
-    const forwardedEntries = forwarded.split(',');
-
-    forwardedEntries.forEach(entry => {
-      const forMatch = entry.match(/for=([^;,\s]+)/);
-      if (forMatch && forMatch[1]) {
-        let ipStr = forMatch[1];
-
-        // Remove quotes and brackets
-        ipStr = ipStr.replace(/["\[\]]/g, '');
-
-        // Handle IPv6 with port (e.g., [::1]:8080)
-        const ipv6Match = ipStr.match(/^(.+):(\d+)$/);
-        if (ipv6Match && ipv6Match[1] && isIP(ipv6Match[1])) {
-          ipStr = ipv6Match[1];
-        }
-
-        if (isIP(ipStr)) {
-          result.push({
-            address: this.normalizeIP(ipStr),
-            version: isIP(ipStr) as 4 | 6,
-            type: this.classifyIPType(ipStr),
-            source: 'forwarded',
-            confidence: 75
-          });
-        }
-      }
+    chain.forEach((ipStr, index) => {
+      if (!isIP(ipStr)) return;
+
+      const trusted = index >= clientIndex;
+      const confidence = !trusted
+        ? UNTRUSTED_CONFIDENCE
+        : index === clientIndex
+          ? clientConfidence
+          : Math.max(50 - (index - clientIndex) * 10, 20); // Proxies between the client and us
+
+      result.push({
+        address: this.normalizeIP(ipStr),
+        version: isIP(ipStr) as 4 | 6,
+        type: this.classifyIPType(ipStr),
+        source,
+        confidence,
+        trusted
+      });
     });
 
     return result;
@@ -255,57 +301,19 @@ export class IPDetectionService {
   }
 
   private static classifyIPType(ipStr: string): IPAddress['type'] {
-    if (ip.isPrivate(ipStr)) return 'private';
-    if (ip.isLoopback(ipStr)) return 'loopback';
-
-    // Check for reserved ranges
-    if (this.isReservedIP(ipStr)) return 'reserved';
-    if (this.isMulticastIP(ipStr)) return 'multicast';
-    if (this.isBroadcastIP(ipStr)) return 'broadcast';
-
-    return 'public';
-  }
-
-  private static isReservedIP(ipStr: string): boolean {
-    // Common reserved IP ranges
-    const reservedRanges = [
-      '0.0.0.0/8', // "This" network
-      '169.254.0.0/16', // Link-local
-      '224.0.0.0/4', // Multicast
-      '240.0.0.0/4', // Reserved for future use
-      '255.255.255.255/32' // Broadcast
-    ];
-
-    return reservedRanges.some(range => {
-      try {
-        return ip.cidrSubnet(range).contains(ipStr);
-      } catch {
-        return false;
-      }
-    });
-  }
-
-  private static isMulticastIP(ipStr: string): boolean {
-    try {
-      return ip.cidrSubnet('224.0.0.0/4').contains(ipStr);
-    } catch {
-      return false;
-    }
-  }
-
-  private static isBroadcastIP(ipStr: string): boolean {
-    return ipStr === '255.255.255.255';
+    return IPClassificationService.classifyIP(ipStr);
   }
 
   private static deduplicateIPs(ips: IPAddress[]): IPAddress[] {
-    const seen = new Set<string>();
-    return ips.filter(ipObj => {
-      if (seen.has(ipObj.address)) {
-        return false;
+    // Keep the most confident report of each address, in first-seen order
+    const seen = new Map<string, IPAddress>();
+    ips.forEach(ipObj => {
+      const existing = seen.get(ipObj.address);
+      if (!existing || ipObj.confidence > existing.confidence) {
+        seen.set(ipObj.address, ipObj);
       }
-      seen.add(ipObj.address);
-      return true;
     });
+    return [...seen.values()];
   }
 
   private static sanitizeHeaders(headers: any): Record<string, string> {
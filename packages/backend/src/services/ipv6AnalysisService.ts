@@ -0,0 +1,116 @@
+import { IPv6Analysis, IPv6Transition } from '@/types/ip';
+import { bigIntToIP, expandIPv6, formatCIDR, parseIP, prefixMask } from '@/utils/ipAddress';
+
+const LOW_64 = (1n << 64n) - 1n;
+const LOW_32 = 0xffffffffn;
+
+// Prefixes of the transition mechanisms that carry an IPv4 address
+const SIX_TO_FOUR = 0x2002n; // 2002::/16
+const TEREDO = 0x20010000n; // 2001::/32
+const NAT64_WELL_KNOWN = 0x0064ff9bn << 64n; // 64:ff9b::/96, upper 96 bits
+const IPV4_MAPPED = 0xffffn; // ::ffff:0:0/96, upper 96 bits
+
+/**
+ * Decodes the parts of an IPv6 address that carry meaning beyond routing: EUI-64
+ * interface identifiers with the MAC they were built from, randomized identifiers of
+ * privacy addresses, and the IPv4 address embedded by 6to4, NAT64, Teredo, ISATAP and
+ * IPv4-mapped addresses.
+ */
+export class IPv6AnalysisService {
+  static analyze(ipAddress: string): IPv6Analysis {
+    const parsed = parseIP(ipAddress);
+    if (parsed?.version !== 6) {
+      throw new Error(`Invalid IPv6 address: ${ipAddress}`);
+    }
+
+    const { value } = parsed;
+    const transition = this.decodeTransition(value);
+    const interfaceIdType = this.interfaceIdType(value, transition);
+
+    return {
+      compressed: bigIntToIP(value, 6),
+      expanded: expandIPv6(value),
+      prefix: formatCIDR(value & prefixMask(64, 6), 64, 6),
+      interfaceId: this.formatInterfaceId(value & LOW_64),
+      interfaceIdType,
+      ...(interfaceIdType === 'eui-64' && { mac: this.eui64ToMAC(value & LOW_64) }),
+      // Temporary (RFC 8981) and stable opaque (RFC 7217) identifiers are both random-looking
+      // global addresses; a single address cannot tell the two apart
+      likelyPrivacyAddress: interfaceIdType === 'randomized' && value >> 125n === 1n,
+      ...(transition && { transition })
+    };
+  }
+
+  // Private helper methods
+
+  private static decodeTransition(value: bigint): IPv6Transition | undefined {
+    if (value >> 32n === IPV4_MAPPED) {
+      return { mechanism: 'ipv4-mapped', ipv4: bigIntToIP(value & LOW_32, 4) };
+    }
+    if (value >> 32n === NAT64_WELL_KNOWN) {
+      return { mechanism: 'nat64', ipv4: bigIntToIP(value & LOW_32, 4) };
+    }
+    if (value >> 112n === SIX_TO_FOUR) {
+      // 2002:AABB:CCDD::/48 - the site's IPv4 address follows the prefix
+      return { mechanism: '6to4', ipv4: bigIntToIP((value >> 80n) & LOW_32, 4) };
+    }
+    if (value >> 96n === TEREDO) {
+      // RFC 4380: prefix, server IPv4, flags, then the client's mapped port and address, bits inverted
+      const flags = Number((value >> 48n) & 0xffffn);
+      return {
+        mechanism: 'teredo',
+        ipv4: bigIntToIP(~value & LOW_32, 4),
+        teredo: {
+          server: bigIntToIP((value >> 64n) & LOW_32, 4),
+          port: Number(~(value >> 32n) & 0xffffn),
+          cone: (flags & 0x8000) !== 0,
+          flags
+        }
+      };
+    }
+    if (this.isISATAP(value)) {
+      return { mechanism: 'isatap', ipv4: bigIntToIP(value & LOW_32, 4) };
+    }
+    return undefined;
+  }
+
+  private static interfaceIdType(
+    value: bigint,
+    transition: IPv6Transition | undefined
+  ): IPv6Analysis['interfaceIdType'] {
+    const interfaceId = value & LOW_64;
+
+    if (transition && transition.mechanism !== '6to4' && transition.mechanism !== 'isatap') {
+      return 'embedded-ipv4';
+    }
+    if (this.isISATAP(value)) return 'isatap';
+    // Modified EUI-64 inserts ff:fe between the two halves of the MAC (RFC 4291 appendix A)
+    if (((interfaceId >> 24n) & 0xffffn) === 0xfffen) return 'eui-64';
+    // Manually assigned or sequential DHCPv6 addresses such as ::1 or ::10:25
+    if (interfaceId >> 32n === 0n) return 'low-order';
+    return 'randomized';
+  }
+
+  /**
+   * ISATAP identifiers are 0000:5efe or 0200:5efe (local or universal) followed by an IPv4 address
+   */
+  private static isISATAP(value: bigint): boolean {
+    return ((value >> 32n) & 0xfdffffffn) === 0x5efen;
+  }
+
+  private static eui64ToMAC(interfaceId: bigint): string {
+    // Drop the inserted ff:fe and flip the universal/local bit back
+    const mac = (((interfaceId >> 40n) << 24n) | (interfaceId & 0xffffffn)) ^ (0x02n << 40n);
+    return mac
+      .toString(16)
+      .padStart(12, '0')
+      .replace(/(..)(?!$)/g, '$1:');
+  }
+
+  private static formatInterfaceId(interfaceId: bigint): string {
+    return interfaceId
+      .toString(16)
+      .padStart(16, '0')
+      .replace(/(.{4})(?!$)/g, '$1:');
+  }
+}
@@ -1,3 +1,4 @@
+import { CloudProviderInfo, IPAddress } from '@/types/ip';
 import { logger } from '@/utils/logger';
 import ip from 'ip';
 import { isIP } from 'net';
@@ -8,7 +9,7 @@ export interface NetworkAnalysisResult {
   ipAddress: string;
   version: 4 | 6;
   classification: {
-    type: 'public' | 'private' | 'reserved' | 'loopback' | 'multicast' | 'broadcast';
+    type: IPAddress['type'];
     isRoutable: boolean;
     isGlobalUnicast: boolean;
   };
@@ -28,6 +29,7 @@ export interface NetworkAnalysisResult {
     asn: number;
     asnOrganization: string;
     connectionType: 'residential' | 'business' | 'mobile' | 'hosting' | 'unknown';
+    cloud?: CloudProviderInfo;
   };
   security?: {
     isProxy: boolean;
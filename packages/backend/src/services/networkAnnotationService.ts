@@ -0,0 +1,271 @@
+import { config } from '@/config';
+import { InternalServerError } from '@/middleware/errorHandler';
+import { GeoLocation, NetworkAnnotation, TrustLevel } from '@/types/ip';
+import { formatCIDR, parseCIDR } from '@/utils/ipAddress';
+import { logger } from '@/utils/logger';
+import { RangeIndex, cidrEntry } from '@/utils/rangeIndex';
+import { promises as fs } from 'fs';
+import { DatasetManager } from './datasetManager';
+
+export type NetworkAnnotationInput = Omit<NetworkAnnotation, 'id' | 'tags' | 'trustLevel'> &
+  Partial<Pick<NetworkAnnotation, 'id' | 'tags' | 'trustLevel'>>;
+
+export const TRUST_LEVELS: TrustLevel[] = ['trusted', 'partner', 'neutral', 'untrusted'];
+
+// Multiplier applied to risk scores of addresses inside an annotated range
+const TRUST_RISK_FACTORS: Record<TrustLevel, number> = {
+  trusted: 0.25,
+  partner: 0.5,
+  neutral: 1,
+  untrusted: 1.5
+};
+
+const LOCATION_FIELDS: Record<keyof GeoLocation, 'string' | 'number'> = {
+  country: 'string',
+  countryCode: 'string',
+  region: 'string',
+  city: 'string',
+  latitude: 'number',
+  longitude: 'number',
+  timezone: 'string',
+  accuracy: 'number'
+};
+
+/**
+ * User-defined annotations for address ranges the built-in datasets cannot know about:
+ * office egress, VPN concentrators, partner networks. Annotations are consulted before
+ * any other data source; the most specific annotated range wins.
+ *
+ * Annotations are read from NETWORK_ANNOTATIONS (a JSON array) and every runtime
+ * change is written back to that file before it takes effect. Without a file they
+ * live in memory only.
+ */
+export class NetworkAnnotationService {
+  private static annotations = new Map<string, NetworkAnnotation>();
+  private static index: RangeIndex<NetworkAnnotation> = RangeIndex.empty();
+  private static writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Register the annotation file with the DatasetManager so manual edits are picked up
+   */
+  static registerDataset(): void {
+    const { configPath } = config.annotations;
+    if (configPath === undefined) {
+      logger.info('No network annotation file configured, annotations are kept in memory only');
+      return;
+    }
+
+    DatasetManager.register<NetworkAnnotation[]>({
+      name: 'network-annotations',
+      description: 'User-defined network annotations',
+      files: [configPath],
+      load: async () => {
+        const annotations = parseAnnotations(await fs.readFile(configPath, 'utf8'));
+        const stats = await fs.stat(configPath);
+        return {
+          value: annotations,
+          version: stats.mtime.toISOString(),
+          recordCounts: { annotations: annotations.length }
+        };
+      },
+      activate: annotations => {
+        this.replaceAll(annotations);
+      }
+    });
+  }
+
+  /**
+   * Most specific annotation covering an address
+   */
+  static lookup(ipAddress: string): NetworkAnnotation | null {
+    return this.index.lookup(ipAddress);
+  }
+
+  static list(): NetworkAnnotation[] {
+    return [...this.annotations.values()];
+  }
+
+  static get(id: string): NetworkAnnotation | null {
+    return this.annotations.get(id) ?? null;
+  }
+
+  static async create(input: NetworkAnnotationInput): Promise<NetworkAnnotation> {
+    const annotation = normalizeAnnotation(input);
+
+    return this.commit(annotations => {
+      if (annotations.has(annotation.id)) {
+        throw new Error(`Annotation ${annotation.id} already exists`);
+      }
+      annotations.set(annotation.id, annotation);
+      return annotation;
+    });
+  }
+
+  static async update(id: string, input: Partial<NetworkAnnotationInput>): Promise<NetworkAnnotation | null> {
+    return this.commit(annotations => {
+      const existing = annotations.get(id);
+      if (!existing) return null;
+
+      const annotation = normalizeAnnotation({ ...existing, ...input, id });
+      annotations.set(id, annotation);
+      return annotation;
+    });
+  }
+
+  static async remove(id: string): Promise<boolean> {
+    return this.commit(annotations => annotations.delete(id));
+  }
+
+  /**
+   * Scale a 0-100 risk score by the trust level of the annotation covering the address
+   */
+  static adjustRiskScore(riskScore: number, annotation: NetworkAnnotation | null): number {
+    if (!annotation) return riskScore;
+    return Math.min(Math.round(riskScore * TRUST_RISK_FACTORS[annotation.trustLevel]), 100);
+  }
+
+  // Private helper methods
+
+  private static replaceAll(annotations: NetworkAnnotation[]): void {
+    this.annotations = new Map(annotations.map(annotation => [annotation.id, annotation]));
+    this.rebuildIndex();
+  }
+
+  private static rebuildIndex(): void {
+    this.index = RangeIndex.build(
+      [...this.annotations.values()].map(annotation => cidrEntry(annotation.cidr, annotation))
+    );
+  }
+
+  /**
+   * Apply a change, checking for duplicate ranges, and make it live once it is persisted.
+   * Changes are serialized so each one starts from the state the previous one left; a
+   * change that returns null or false (nothing to update or delete) is not persisted.
+   */
+  private static async commit<T>(change: (annotations: Map<string, NetworkAnnotation>) => T): Promise<T> {
+    const applied = this.writeQueue.then(async () => {
+      const next = new Map(this.annotations);
+      const result = change(next);
+      if (result === null || result === false) return result;
+
+      const cidrs = new Map<string, string>();
+      for (const annotation of next.values()) {
+        const owner = cidrs.get(annotation.cidr);
+        if (owner !== undefined) {
+          throw new Error(`Range ${annotation.cidr} is already annotated by ${owner}`);
+        }
+        cidrs.set(annotation.cidr, annotation.id);
+      }
+
+      await this.persist([...next.values()]);
+      this.annotations = next;
+      this.rebuildIndex();
+      return result;
+    });
+
+    this.writeQueue = applied.then(
+      () => undefined,
+      () => undefined
+    );
+    return applied;
+  }
+
+  private static async persist(annotations: NetworkAnnotation[]): Promise<void> {
+    const { configPath } = config.annotations;
+    if (configPath === undefined) return;
+
+    const content = `${JSON.stringify(annotations, null, 2)}\n`;
+    const tempPath = `${configPath}.tmp`;
+
+    try {
+      // Atomic so the file watcher never sees a partial file
+      await fs.writeFile(tempPath, content, 'utf8');
+      await fs.rename(tempPath, configPath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to write network annotations', { configPath, error: errorMessage });
+      throw new InternalServerError(
+        `Annotations could not be written to ${configPath}, the change was not applied: ${errorMessage}`
+      );
+    }
+  }
+}
+
+/**
+ * Parse and validate an annotation file: a JSON array of annotations
+ */
+export const parseAnnotations = (content: string): NetworkAnnotation[] => {
+  const parsed = JSON.parse(content) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error('Network annotation file must be a JSON array');
+  }
+
+  const ids = new Set<string>();
+  return parsed.map((item: NetworkAnnotationInput, position) => {
+    const annotation = normalizeAnnotation(item, `Annotation ${position}`);
+    if (ids.has(annotation.id)) {
+      throw new Error(`Duplicate annotation id: ${annotation.id}`);
+    }
+    ids.add(annotation.id);
+    return annotation;
+  });
+};
+
+// Internal helpers
+
+function normalizeAnnotation(input: NetworkAnnotationInput, label: string = 'Annotation'): NetworkAnnotation {
+  const { id, cidr, name, owner, tags = [], trustLevel = 'neutral', location, description } = input;
+
+  if (typeof cidr !== 'string' || typeof name !== 'string' || name.trim() === '') {
+    throw new Error(`${label} requires a cidr and a name`);
+  }
+  if (id !== undefined && (typeof id !== 'string' || id.trim() === '')) {
+    throw new Error(`${label} id must be a non-empty string`);
+  }
+  for (const [field, value] of Object.entries({ owner, description })) {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new Error(`${label} ${field} must be a string`);
+    }
+  }
+
+  const parsed = parseCIDR(cidr);
+  const normalizedCIDR = formatCIDR(parsed.network, parsed.prefixLength, parsed.version);
+
+  if (!TRUST_LEVELS.includes(trustLevel)) {
+    throw new Error(`${label} has invalid trust level ${trustLevel}, expected one of ${TRUST_LEVELS.join(', ')}`);
+  }
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    throw new Error(`${label} tags must be an array of strings`);
+  }
+  if (location !== undefined) {
+    validateLocation(location, label);
+  }
+
+  return {
+    // Annotations without an id get a stable one derived from the range, e.g. 10-20-0-0-16
+    id: id ?? normalizedCIDR.replace(/[^0-9a-f]+/gi, '-'),
+    cidr: normalizedCIDR,
+    name: name.trim(),
+    ...(owner !== undefined && { owner }),
+    tags: [...new Set(tags)],
+    trustLevel,
+    ...(location !== undefined && { location }),
+    ...(description !== undefined && { description })
+  };
+}
+
+function validateLocation(location: Partial<GeoLocation>, label: string): void {
+  if (typeof location !== 'object' || location === null) {
+    throw new Error(`${label} location must be an object`);
+  }
+
+  for (const [field, value] of Object.entries(location)) {
+    const expected = LOCATION_FIELDS[field as keyof GeoLocation];
+    if (expected === undefined) {
+      throw new Error(`${label} location has unknown field ${field}`);
+    }
+    if (typeof value !== expected) {
+      throw new Error(`${label} location ${field} must be a ${expected}`);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import { ForwardedElement, ForwardedNode, ProxyChain, ProxyHop } from '@/types/ip';
+import { logger } from '@/utils/logger';
+import { Request } from 'express';
+import { isIP } from 'net';
+import { GeolocationService } from './geolocationService';
+import { IPClassificationService } from './ipClassification';
+import { IPDetectionService } from './ipDetection';
+import { TrustedProxyService } from './trustedProxyService';
+
+type HopDraft = Pick<ProxyHop, 'address' | 'identifier' | 'port' | 'sources' | 'proto' | 'host' | 'by'>;
+
+/**
+ * Reconstructs the path a request took from the client to this server out of the
+ * X-Forwarded-For chain, Forwarded elements, the PROXY protocol header and the socket
+ * peer. X-Forwarded-For defines the order when present; Forwarded elements then add
+ * proto, host and by to the hops with the same address.
+ */
+export class ProxyChainService {
+  static async reconstruct(req: Request): Promise<ProxyChain> {
+    const chains = IPDetectionService.getForwardingChains(req);
+    const detectedIPs = IPDetectionService.extractAllIPs(req);
+    const clientIP = IPDetectionService.determinePrimaryIP(detectedIPs)?.address ?? null;
+
+    const chainHeader = chains.xForwardedFor.length > 0 ? 'x-forwarded-for' : 'forwarded';
+    const drafts: HopDraft[] =
+      chains.xForwardedFor.length > 0
+        ? chains.xForwardedFor.map(entry => this.draftFromEntry(entry, 'x-forwarded-for'))
+        : chains.forwardedElements.filter(element => element.for).map(element => this.draftFromForwarded(element));
+    const unmatchedForwarded =
+      chains.xForwardedFor.length > 0 ? this.mergeForwarded(drafts, chains.forwardedElements) : [];
+
+    if (chains.proxyProtocolIP !== null) {
+      drafts.push({ address: chains.proxyProtocolIP, sources: ['proxy-protocol'] });
+    }
+    if (chains.socketIP !== null) {
+      drafts.push({ address: chains.socketIP, sources: ['socket'] });
+    }
+
+    // Single-value headers (X-Real-IP, CF-Connecting-IP, ...) confirm hops or name a client the chains omit
+    for (const detected of detectedIPs) {
+      const hop = drafts.find(draft => draft.address === detected.address);
+      if (hop && !hop.sources.includes(detected.source)) {
+        hop.sources.push(detected.source);
+      } else if (!hop && detected.address === clientIP) {
+        drafts.unshift({ address: detected.address, sources: [detected.source] });
+      }
+    }
+
+    const hops = await Promise.all(
+      this.collapseDuplicates(drafts).map((draft, index, all) =>
+        this.enrichHop(draft, index, all, clientIP, chainHeader)
+      )
+    );
+
+    return { hops, clientIP, unmatchedForwarded };
+  }
+
+  // Private helper methods
+
+  private static draftFromEntry(entry: string, source: string): HopDraft {
+    return isIP(entry) !== 0
+      ? { address: entry, sources: [source] }
+      : { address: null, identifier: entry, sources: [source] };
+  }
+
+  private static draftFromForwarded(element: ForwardedElement): HopDraft {
+    const node = element.for as ForwardedNode;
+    return {
+      address: node.type === 'ip' ? node.value : null,
+      ...(node.type !== 'ip' && { identifier: node.value }),
+      ...(node.port !== undefined && { port: node.port }),
+      sources: ['forwarded'],
+      ...this.forwardedParameters(element)
+    };
+  }
+
+  /**
+   * Attach Forwarded elements to the X-Forwarded-For hops with the same address, in order
+   */
+  private static mergeForwarded(drafts: HopDraft[], elements: ForwardedElement[]): ForwardedElement[] {
+    const unmatched: ForwardedElement[] = [];
+    let position = 0;
+
+    for (const element of elements) {
+      const address = element.for?.type === 'ip' ? element.for.value : null;
+      const index = drafts.findIndex((draft, candidate) => candidate >= position && draft.address === address);
+
+      if (address === null || index === -1) {
+        unmatched.push(element);
+        continue;
+      }
+
+      const draft = drafts[index] as HopDraft;
+      draft.sources.push('forwarded');
+      Object.assign(draft, this.forwardedParameters(element));
+      if (element.for?.port !== undefined) draft.port = element.for.port;
+      position = index + 1;
+    }
+
+    return unmatched;
+  }
+
+  private static forwardedParameters(element: ForwardedElement): Pick<HopDraft, 'proto' | 'host' | 'by'> {
+    return {
+      ...(element.proto !== undefined && { proto: element.proto }),
+      ...(element.host !== undefined && { host: element.host }),
+      ...(element.by !== undefined && { by: element.by.value })
+    };
+  }
+
+  /**
+   * Merge neighbouring hops with the same address, e.g. a proxy that appends its own peer
+   */
+  private static collapseDuplicates(drafts: HopDraft[]): HopDraft[] {
+    return drafts.reduce<HopDraft[]>((collapsed, draft) => {
+      const previous = collapsed[collapsed.length - 1];
+      if (previous && draft.address !== null && previous.address === draft.address) {
+        previous.sources.push(...draft.sources.filter(source => !previous.sources.includes(source)));
+        return collapsed;
+      }
+      return [...collapsed, draft];
+    }, []);
+  }
+
+  private static async enrichHop(
+    draft: HopDraft,
+    index: number,
+    drafts: HopDraft[],
+    clientIP: string | null,
+    chainHeader: string
+  ): Promise<ProxyHop> {
+    const clientIndex = drafts.map(hop => hop.address).lastIndexOf(clientIP);
+    const role: ProxyHop['role'] =
+      index === clientIndex
+        ? 'client'
+        : index < clientIndex
+          ? 'client-supplied'
+          : index === drafts.length - 1
+            ? 'peer'
+            : 'proxy';
+
+    if (draft.address === null) {
+      return { ...draft, role, trusted: false };
+    }
+
+    const address = draft.address;
+    // Hops seen only on the connection (socket, PROXY protocol) relayed the forwarding chain
+    const headers = draft.sources.filter(source => source !== 'socket' && source !== 'proxy-protocol');
+    const hop: ProxyHop = {
+      ...draft,
+      role,
+      // Only hops between the client and this server act as proxies, and only for the headers they appear in
+      trusted:
+        (role === 'proxy' || role === 'peer') &&
+        (headers.length > 0 ? headers : [chainHeader]).some(header =>
+          TrustedProxyService.isTrustedFor(address, header)
+        ),
+      classification: IPClassificationService.classifyIP(address)
+    };
+
+    // Only public hops have a meaningful location and network owner
+    if (hop.classification !== 'public') return hop;
+
+    try {
+      const [geolocation, network] = await Promise.all([
+        GeolocationService.getGeolocation(address),
+        GeolocationService.getNetworkInfo(address)
+      ]);
+
+      return {
+        ...hop,
+        ...(geolocation && { geolocation }),
+        ...(network && {
+          network: {
+            asn: network.asn,
+            asnOrganization: network.asnOrganization,
+            organization: network.organization,
+            isp: network.isp
+          }
+        })
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Failed to enrich proxy hop', { address, error: errorMessage });
+      return hop;
+    }
+  }
+}
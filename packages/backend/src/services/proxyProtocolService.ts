@@ -0,0 +1,124 @@
+import { config } from '@/config';
+import { ProxyProtocolInfo } from '@/types/ip';
+import { logger } from '@/utils/logger';
+import { parseProxyHeader } from '@/utils/proxyProtocol';
+import { Server } from 'http';
+import { Socket } from 'net';
+import { TrustedProxyService } from './trustedProxyService';
+
+type ProxyProtocolMode = 'off' | 'optional' | 'required';
+
+const PROXY_PROTOCOL_MODES: ProxyProtocolMode[] = ['off', 'optional', 'required'];
+
+/**
+ * PROXY protocol (v1 text, v2 binary) support for the HTTP listener. TCP load balancers
+ * such as HAProxy and AWS NLB send the original client address in a header ahead of the
+ * HTTP request; it is read and stripped before the HTTP parser sees the connection.
+ *
+ * In 'optional' mode connections without a header are served as plain HTTP; in 'required'
+ * mode they are dropped. Headers are only accepted from peers in PROXY_PROTOCOL_TRUSTED.
+ */
+export class ProxyProtocolService {
+  private static readonly connections = new WeakMap<Socket, ProxyProtocolInfo>();
+
+  /**
+   * Read PROXY headers on every new connection of the server, according to PROXY_PROTOCOL
+   */
+  static attach(server: Server, mode: string = config.proxyProtocol.mode): void {
+    if (!PROXY_PROTOCOL_MODES.includes(mode as ProxyProtocolMode)) {
+      logger.error('Ignoring invalid PROXY protocol mode', { mode, expected: PROXY_PROTOCOL_MODES.join(', ') });
+      return;
+    }
+    if (mode === 'off') return;
+
+    // The HTTP server's own connection handling runs once the header has been consumed
+    const listeners = server.listeners('connection') as ((socket: Socket) => void)[];
+    server.removeAllListeners('connection');
+
+    server.on('connection', (socket: Socket) => {
+      void this.readHeader(socket, mode as ProxyProtocolMode).then(accepted => {
+        if (!accepted) return;
+        listeners.forEach(listener => listener.call(server, socket));
+        socket.resume();
+      });
+    });
+
+    logger.info('PROXY protocol enabled', { mode, trusted: config.proxyProtocol.trusted });
+  }
+
+  /**
+   * PROXY header received on the connection, if any
+   */
+  static getInfo(socket: Socket): ProxyProtocolInfo | null {
+    return this.connections.get(socket) ?? null;
+  }
+
+  // Private helper methods
+
+  /**
+   * Consume the PROXY header and push any following bytes back onto the socket.
+   * Resolves false when the connection was dropped.
+   */
+  private static readHeader(socket: Socket, mode: ProxyProtocolMode): Promise<boolean> {
+    const peer = socket.remoteAddress ?? '';
+
+    if (!TrustedProxyService.isTrusted(peer, config.proxyProtocol.trusted)) {
+      if (mode === 'required') {
+        logger.warn('Dropping connection from peer not trusted to send PROXY headers', { peer });
+        socket.destroy();
+        return Promise.resolve(false);
+      }
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      let buffered = Buffer.alloc(0);
+
+      const finish = (accepted: boolean, remainder?: Buffer): void => {
+        clearTimeout(timer);
+        socket.removeListener('data', onData);
+        socket.removeListener('error', onClose);
+        socket.removeListener('close', onClose);
+        socket.pause();
+        if (remainder && remainder.length > 0) socket.unshift(remainder);
+        resolve(accepted);
+      };
+
+      const drop = (reason: string): void => {
+        logger.warn('Dropping connection with invalid PROXY protocol header', { peer, reason });
+        finish(false);
+        socket.destroy();
+      };
+
+      const onData = (chunk: Buffer): void => {
+        buffered = Buffer.concat([buffered, chunk]);
+
+        try {
+          const result = parseProxyHeader(buffered);
+          if (result.status === 'incomplete') return;
+
+          if (result.status === 'absent') {
+            if (mode === 'required') {
+              drop('missing PROXY protocol header');
+              return;
+            }
+            finish(true, buffered);
+            return;
+          }
+
+          this.connections.set(socket, result.info);
+          finish(true, buffered.subarray(result.length));
+        } catch (error) {
+          drop(error instanceof Error ? error.message : 'Unknown error');
+        }
+      };
+
+      const onClose = (): void => finish(false);
+
+      const timer = setTimeout(() => drop('header timed out'), config.proxyProtocol.headerTimeoutMs);
+      socket.on('data', onData);
+      socket.once('error', onClose);
+      socket.once('close', onClose);
+    });
+  }
+}
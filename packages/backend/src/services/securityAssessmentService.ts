@@ -1,17 +1,28 @@
+import { BogonStatus, NetworkAnnotation } from '@/types/ip';
 import { logger } from '@/utils/logger';
 import { Request } from 'express';
 import { isIP } from 'net';
 import { DNSAnalysisService } from './dnsAnalysisService';
 import { FingerprintingService, NetworkFingerprint } from './fingerprintingService';
 import { GeolocationService } from './geolocationService';
+import { IPClassificationService } from './ipClassification';
+import { NetworkAnnotationService } from './networkAnnotationService';
+import { SpoofingAnalysisService, SpoofingIndicator } from './spoofingAnalysisService';
+import { ThreatIntelAggregator } from './threatIntel/threatIntelAggregator';
+import { AggregationStrategy, ProviderVerdict } from './threatIntel/threatIntelProvider';
 
 export interface ThreatIntelligence {
   isMalicious: boolean;
   threatTypes: string[];
   severity: 'low' | 'medium' | 'high' | 'critical';
   confidence: number;
+  firstSeen?: string;
   lastSeen?: string;
   sources: string[];
+  evidence?: string[];
+  strategy?: AggregationStrategy;
+  insufficientVotes?: boolean;
+  providerVerdicts?: ProviderVerdict[];
 }
 
 export interface VulnerabilityAssessment {
@@ -23,6 +34,8 @@ export interface VulnerabilityAssessment {
     description: string;
     recommendation: string;
   }[];
+  // Traffic from unallocated or unassigned space is most likely spoofed
+  bogon: BogonStatus;
   securityScore: number;
 }
 
@@ -33,6 +46,8 @@ export interface BehaviorAnalysis {
   requestFrequency?: number;
   userAgentConsistency: boolean;
   geolocationConsistency: boolean;
+  // Forwarding headers of the request that contradict each other or the socket peer
+  spoofingIndicators: SpoofingIndicator[];
   riskIndicators: string[];
 }
 
@@ -45,6 +60,7 @@ export interface ComprehensiveSecurityAssessment {
   behaviorAnalysis: BehaviorAnalysis;
   networkFingerprint?: NetworkFingerprint;
   dnsAnalysis?: any; // Will be populated by DNS service
+  networkAnnotation?: NetworkAnnotation;
   recommendations: string[];
   analysisTimestamp: string;
   analysisVersion: string;
@@ -53,13 +69,6 @@ export interface ComprehensiveSecurityAssessment {
 export class SecurityAssessmentService {
   private static readonly ANALYSIS_VERSION = '1.0.0';
 
-  // Known malicious IP ranges (simplified for demo) - currently unused but kept for future expansion
-  // private static readonly MALICIOUS_RANGES = [
-  //   { start: '0.0.0.0', end: '0.255.255.255', type: 'reserved' },
-  //   { start: '127.0.0.0', end: '127.255.255.255', type: 'loopback' },
-  //   // Add more known malicious ranges here
-  // ];
-
   // Known bot user agents
   private static readonly BOT_PATTERNS = [
     /bot/i,
@@ -95,12 +104,11 @@ export class SecurityAssessmentService {
           DNSAnalysisService.analyzeDNS(ipAddress).catch(() => null) // Don't fail if DNS analysis fails
         ]);
 
-      // Calculate overall risk score
-      const overallRiskScore = this.calculateOverallRiskScore(
-        threatIntelligence,
-        vulnerabilityAssessment,
-        behaviorAnalysis,
-        dnsAnalysis
+      // Calculate overall risk score, scaled by the trust level of an annotated range
+      const networkAnnotation = NetworkAnnotationService.lookup(ipAddress);
+      const overallRiskScore = NetworkAnnotationService.adjustRiskScore(
+        this.calculateOverallRiskScore(threatIntelligence, vulnerabilityAssessment, behaviorAnalysis, dnsAnalysis),
+        networkAnnotation
       );
 
       const riskLevel = this.determineRiskLevel(overallRiskScore);
@@ -111,6 +119,13 @@ export class SecurityAssessmentService {
         riskLevel
       );
 
+      if (networkAnnotation) {
+        const { name, cidr, trustLevel } = networkAnnotation;
+        recommendations.unshift(
+          `Address is in annotated network "${name}" (${cidr}, ${trustLevel}); risk adjusted for trust level`
+        );
+      }
+
       const assessment: ComprehensiveSecurityAssessment = {
         ipAddress,
         overallRiskScore,
@@ -120,6 +135,7 @@ export class SecurityAssessmentService {
         behaviorAnalysis,
         networkFingerprint,
         dnsAnalysis,
+        ...(networkAnnotation && { networkAnnotation }),
         recommendations,
         analysisTimestamp: new Date().toISOString(),
         analysisVersion: this.ANALYSIS_VERSION
@@ -142,66 +158,10 @@ export class SecurityAssessmentService {
   }
 
   /**
-   * Analyze threat intelligence
+   * Analyze threat intelligence by aggregating every registered provider
    */
   private static async analyzeThreatIntelligence(ipAddress: string): Promise<ThreatIntelligence> {
-    const threatTypes: string[] = [];
-    let isMalicious = false;
-    let severity: 'low' | 'medium' | 'high' | 'critical' = 'low';
-    let confidence = 50;
-    const sources: string[] = ['local_analysis'];
-
-    // Check against known malicious ranges
-    if (this.isInMaliciousRange(ipAddress)) {
-      isMalicious = true;
-      threatTypes.push('malicious_range');
-      severity = 'high';
-      confidence = 80;
-    }
-
-    // Get geolocation for additional context
-    try {
-      const { security } = await GeolocationService.getComprehensiveAnalysis(ipAddress);
-      if (security) {
-        if (security.isProxy) {
-          threatTypes.push('proxy');
-          confidence += 10;
-        }
-        if (security.isVPN) {
-          threatTypes.push('vpn');
-          confidence += 10;
-        }
-        if (security.isTor) {
-          threatTypes.push('tor');
-          severity = 'medium';
-          confidence += 20;
-        }
-        if (security.isThreat) {
-          isMalicious = true;
-          threatTypes.push(...security.threatTypes);
-        }
-      }
-    } catch {
-      // Geolocation analysis failed, continue with other checks
-    }
-
-    // Additional threat analysis based on IP characteristics
-    const ipParts = ipAddress.split('.');
-    const firstOctet = parseInt(ipParts[0] || '0', 10);
-
-    // Check for suspicious IP patterns
-    if (firstOctet === 0 || firstOctet >= 224) {
-      threatTypes.push('suspicious_range');
-      confidence += 15;
-    }
-
-    return {
-      isMalicious,
-      threatTypes,
-      severity,
-      confidence: Math.min(confidence, 100),
-      sources
-    };
+    return ThreatIntelAggregator.evaluate(ipAddress);
   }
 
   /**
@@ -234,6 +194,17 @@ export class SecurityAssessmentService {
       }
     }
 
+    // Space no RIR hands out cannot be the real source of internet traffic
+    const bogon = IPClassificationService.getBogonStatus(ipAddress);
+    if (bogon.isBogon && bogon.category !== 'martian') {
+      vulnerabilities.push({
+        severity: 'high',
+        description: `Address in ${bogon.category} space (${bogon.cidr}) - a strong sign of a spoofed source`,
+        recommendation: 'Drop traffic from bogon prefixes at the network edge (BCP 38 / BCP 84)'
+      });
+      securityScore -= 30;
+    }
+
     // Simulated port scan results (in real implementation, this would be actual scanning)
     const commonPorts = [22, 23, 25, 53, 80, 110, 143, 443, 993, 995];
     const openPorts = commonPorts.filter(() => Math.random() < 0.1); // Randomly simulate some open ports
@@ -261,6 +232,7 @@ export class SecurityAssessmentService {
     return {
       openPorts,
       vulnerabilities,
+      bogon,
       securityScore: Math.max(securityScore, 0)
     };
   }
@@ -314,28 +286,24 @@ export class SecurityAssessmentService {
       riskIndicators.push('geolocation_inconsistency');
     }
 
+    // Forwarding header consistency
+    const spoofing = SpoofingAnalysisService.analyze(req);
+    if (spoofing.suspected) {
+      isSuspicious = true;
+    }
+    riskIndicators.push(...new Set(spoofing.indicators.map(indicator => indicator.type)));
+
     return {
       isBot,
       isSuspicious,
       activityPattern,
       userAgentConsistency,
       geolocationConsistency,
+      spoofingIndicators: spoofing.indicators,
       riskIndicators
     };
   }
 
-  /**
-   * Check if IP is in malicious range
-   */
-  private static isInMaliciousRange(ipAddress: string): boolean {
-    // Simplified implementation - in production, use proper IP range checking
-    const ipParts = ipAddress.split('.');
-    const firstOctet = parseInt(ipParts[0] || '0', 10);
-
-    // Check for obviously malicious ranges
-    return firstOctet === 0 || firstOctet >= 240;
-  }
-
   /**
    * Check user agent consistency
    */
@@ -463,6 +431,10 @@ export class SecurityAssessmentService {
       recommendations.push('Enable enhanced logging and monitoring');
     }
 
+    if (behavior.spoofingIndicators.some(indicator => indicator.severity !== 'low')) {
+      recommendations.push('Do not rely on forwarding headers for this client; review the trusted proxy configuration');
+    }
+
     if (riskLevel === 'critical' || riskLevel === 'high') {
       recommendations.push('Consider immediate blocking or quarantine');
       recommendations.push('Escalate to security team for investigation');
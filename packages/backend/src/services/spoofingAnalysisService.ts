@@ -0,0 +1,225 @@
+import { IPAddress } from '@/types/ip';
+import { Request } from 'express';
+import { isIP } from 'net';
+import { ClientIPHeaderService } from './clientIPHeaderService';
+import { IPClassificationService } from './ipClassification';
+import { IPDetectionService } from './ipDetection';
+import { TrustedProxyService } from './trustedProxyService';
+
+export type SpoofingIndicatorType =
+  | 'private_ip_in_cdn_header'
+  | 'untrusted_forwarding_header'
+  | 'chain_not_anchored'
+  | 'forwarded_xff_mismatch'
+  | 'conflicting_client_headers'
+  | 'impossible_chain'
+  | 'malformed_chain';
+
+export interface SpoofingIndicator {
+  type: SpoofingIndicatorType;
+  severity: 'low' | 'medium' | 'high';
+  header: string;
+  description: string;
+  values: string[];
+}
+
+export interface SpoofingAnalysis {
+  suspected: boolean;
+  riskScore: number;
+  indicators: SpoofingIndicator[];
+}
+
+// Addresses no client can connect from
+const UNROUTABLE_HOPS = ['0.0.0.0', '::', '255.255.255.255'];
+
+const SEVERITY_SCORES: Record<SpoofingIndicator['severity'], number> = { low: 10, medium: 25, high: 40 };
+
+/**
+ * Consistency checks across the client addresses reported by a request. Headers that
+ * disagree with each other, with the socket peer or with how networks work point at a
+ * client forging its forwarding headers or at a misconfigured proxy chain.
+ */
+export class SpoofingAnalysisService {
+  /**
+   * Analyze the forwarding headers of a request
+   */
+  static analyze(req: Request): SpoofingAnalysis {
+    const detectedIPs = IPDetectionService.extractAllIPs(req);
+    const chains = IPDetectionService.getForwardingChains(req);
+    const indicators: SpoofingIndicator[] = [
+      ...this.checkCDNHeaders(detectedIPs),
+      ...this.checkUntrustedHeaders(detectedIPs, chains.peerIP),
+      ...this.checkChainAnchor(chains.xForwardedFor, chains.peerIP),
+      ...this.checkForwardedAgainstXFF(chains.forwarded, chains.xForwardedFor),
+      ...this.checkConflictingClients(detectedIPs),
+      ...this.checkChain('x-forwarded-for', chains.xForwardedFor),
+      ...this.checkChain('forwarded', chains.forwarded)
+    ];
+
+    return {
+      suspected: indicators.some(indicator => indicator.severity !== 'low'),
+      riskScore: Math.min(
+        indicators.reduce((score, indicator) => score + SEVERITY_SCORES[indicator.severity], 0),
+        100
+      ),
+      indicators
+    };
+  }
+
+  // Private helper methods
+
+  private static checkCDNHeaders(detectedIPs: IPAddress[]): SpoofingIndicator[] {
+    return detectedIPs
+      .filter(ip => ClientIPHeaderService.get(ip.source)?.edge === true && ip.type !== 'public')
+      .map(ip => ({
+        type: 'private_ip_in_cdn_header',
+        severity: 'high',
+        header: ip.source,
+        description: `${ip.source} carries a ${ip.type} address; CDN edges only report public client addresses`,
+        values: [ip.address]
+      }));
+  }
+
+  private static checkUntrustedHeaders(detectedIPs: IPAddress[], peerIP: string | null): SpoofingIndicator[] {
+    // X-Forwarded-For from an untrusted peer is reported as an unanchored chain instead
+    const untrusted = detectedIPs.filter(
+      ip =>
+        isHeaderSource(ip.source) &&
+        ip.source !== 'x-forwarded-for' &&
+        !TrustedProxyService.isTrustedFor(peerIP, ip.source)
+    );
+    const headers = [...new Set(untrusted.map(ip => ip.source))];
+
+    return headers.map(header => ({
+      type: 'untrusted_forwarding_header',
+      severity: 'low',
+      header,
+      description: `${header} was sent by ${peerIP ?? 'an unknown peer'}, which is not a trusted proxy for it`,
+      values: untrusted.filter(ip => ip.source === header).map(ip => ip.address)
+    }));
+  }
+
+  /**
+   * A chain appended by our own proxies ends at a trusted hop. If the peer that delivered
+   * it is not one of them, every entry was written by the client.
+   */
+  private static checkChainAnchor(chain: string[], peerIP: string | null): SpoofingIndicator[] {
+    if (chain.length === 0 || TrustedProxyService.isTrustedFor(peerIP, 'x-forwarded-for')) return [];
+
+    const publicHops = chain.filter(hop => isIP(hop) !== 0 && IPClassificationService.classifyIP(hop) === 'public');
+
+    return [
+      {
+        type: 'chain_not_anchored',
+        // Claiming a public origin from an untrusted peer is the classic spoofing attempt
+        severity: publicHops.length > 0 ? 'medium' : 'low',
+        header: 'x-forwarded-for',
+        description: `X-Forwarded-For does not end at a trusted proxy: ${peerIP ?? 'an unknown peer'} sent it directly`,
+        values: chain
+      }
+    ];
+  }
+
+  private static checkForwardedAgainstXFF(forwarded: string[], xForwardedFor: string[]): SpoofingIndicator[] {
+    if (forwarded.length === 0 || xForwardedFor.length === 0) return [];
+
+    // Obfuscated and unknown Forwarded nodes cannot be compared
+    const comparable = forwarded.filter(hop => isIP(hop) !== 0);
+    const xffAddresses = xForwardedFor.filter(hop => isIP(hop) !== 0);
+    if (comparable.length === 0) return [];
+
+    const disagreeing = comparable.filter(hop => !xffAddresses.includes(hop));
+    if (disagreeing.length === 0 && comparable.length === xffAddresses.length) return [];
+
+    return [
+      {
+        type: 'forwarded_xff_mismatch',
+        severity: 'medium',
+        header: 'forwarded',
+        description: `Forwarded (${comparable.join(', ')}) and X-Forwarded-For (${xffAddresses.join(', ')}) disagree`,
+        values: disagreeing
+      }
+    ];
+  }
+
+  /**
+   * Trusted headers that name different clients
+   */
+  private static checkConflictingClients(detectedIPs: IPAddress[]): SpoofingIndicator[] {
+    const clients = new Map<IPAddress['source'], string>();
+
+    for (const ip of detectedIPs) {
+      // Forwarded against X-Forwarded-For is compared hop by hop in checkForwardedAgainstXFF
+      if (ip.trusted === false || !isHeaderSource(ip.source) || ip.source === 'forwarded') continue;
+      // The most confident entry of a chain is the resolved client, the rest are proxies
+      const current = detectedIPs.find(other => other.source === ip.source && other.address === clients.get(ip.source));
+      if (!current || ip.confidence > current.confidence) clients.set(ip.source, ip.address);
+    }
+
+    const addresses = new Set(clients.values());
+    if (addresses.size <= 1) return [];
+
+    return [
+      {
+        type: 'conflicting_client_headers',
+        severity: 'medium',
+        header: [...clients.keys()].join(', '),
+        description: `Trusted headers name different clients: ${[...clients].map(pair => pair.join('=')).join(', ')}`,
+        values: [...addresses]
+      }
+    ];
+  }
+
+  /**
+   * Hops that cannot appear where they do in a real proxy chain
+   */
+  private static checkChain(header: string, chain: string[]): SpoofingIndicator[] {
+    const indicators: SpoofingIndicator[] = [];
+    const malformed = chain.filter(hop => isIP(hop) === 0 && !(header === 'forwarded' && isForwardedPlaceholder(hop)));
+
+    if (malformed.length > 0) {
+      indicators.push({
+        type: 'malformed_chain',
+        severity: 'medium',
+        header,
+        description: `${header} contains entries that are not IP addresses`,
+        values: malformed
+      });
+    }
+
+    const impossible = chain.filter((hop, index) => {
+      if (isIP(hop) === 0) return false;
+      if (UNROUTABLE_HOPS.includes(hop)) return true;
+      const type = IPClassificationService.classifyIP(hop);
+
+      // Loopback traffic never leaves the host, so only the last hop may be a local proxy's client
+      if (type === 'loopback') return index < chain.length - 1;
+      return type === 'multicast';
+    });
+
+    if (impossible.length > 0) {
+      indicators.push({
+        type: 'impossible_chain',
+        severity: 'high',
+        header,
+        description: `${header} contains loopback, unspecified, multicast or broadcast hops where no client can be`,
+        values: impossible
+      });
+    }
+
+    return indicators;
+  }
+}
+
+// Internal helpers
+
+function isHeaderSource(source: IPAddress['source']): boolean {
+  return source !== 'socket' && source !== 'proxy-protocol';
+}
+
+/**
+ * Forwarded elements may hide the node ("unknown", obfuscated "_identifier") or omit for=
+ */
+function isForwardedPlaceholder(hop: string): boolean {
+  return hop === '' || hop === 'unknown' || /^_[\w.-]+$/.test(hop);
+}
@@ -0,0 +1,167 @@
+import { VLSMAllocation, VLSMPlan, VLSMRequest, VLSMRequirement } from '@/types/ip';
+import { ADDRESS_BITS, IPVersion, bigIntToIP, formatCIDR, parseCIDR } from '@/utils/ipAddress';
+import { IPClassificationService } from './ipClassification';
+
+// Upper bound on the subnets one plan may request
+const MAX_PLANNED_SUBNETS = 4096;
+
+interface PlannedSubnet {
+  name: string;
+  requestedHosts: number;
+  plannedHosts: number;
+  prefixLength: number | null;
+}
+
+/**
+ * Variable-length subnet planner: carves named subnets out of a parent block, largest
+ * first so that every allocation stays aligned and the free space stays contiguous.
+ */
+export class SubnetPlannerService {
+  static plan(request: VLSMRequest): VLSMPlan {
+    const parent = parseCIDR(request.parent);
+    const { version } = parent;
+    const bits = ADDRESS_BITS[version];
+    const headroom = request.headroom ?? 0;
+    const alignment = request.alignment ?? 1;
+
+    if (!Number.isFinite(headroom) || headroom < 0) {
+      throw new Error('Headroom must be a non-negative percentage');
+    }
+    if (!Number.isInteger(alignment) || alignment < 1 || alignment > bits) {
+      throw new Error(`Alignment must be a whole number of bits between 1 and ${bits}`);
+    }
+
+    const subnets = this.expandRequirements(request.requirements).map(({ name, hosts }) => {
+      const plannedHosts = Math.ceil(hosts * (1 + headroom / 100));
+      const prefixLength = this.prefixForHosts(plannedHosts, version);
+      return {
+        name,
+        requestedHosts: hosts,
+        plannedHosts,
+        prefixLength: prefixLength === null ? null : Math.floor(prefixLength / alignment) * alignment
+      };
+    });
+
+    // Largest first; the sort is stable so equal sizes keep their requested order
+    const ordered = [...subnets].sort((a, b) => (a.prefixLength ?? -1) - (b.prefixLength ?? -1));
+    const allocations: VLSMAllocation[] = [];
+    const unallocated: VLSMPlan['unallocated'] = [];
+    let cursor = parent.network;
+
+    for (const subnet of ordered) {
+      const { prefixLength } = subnet;
+      if (prefixLength === null || prefixLength < parent.prefixLength) {
+        unallocated.push(this.unallocated(subnet, `Needs more addresses than ${request.parent} holds`));
+        continue;
+      }
+
+      const size = 1n << BigInt(bits - prefixLength);
+      const network = ((cursor + size - 1n) / size) * size;
+      if (network + size - 1n > parent.broadcast) {
+        unallocated.push(this.unallocated(subnet, `No free /${prefixLength} left in ${request.parent}`));
+        continue;
+      }
+
+      allocations.push(this.allocate(subnet, network, prefixLength, version));
+      cursor = network + size;
+    }
+
+    const totalAddresses = parent.broadcast - parent.network + 1n;
+    const allocatedAddresses = allocations.reduce(
+      (sum, allocation) => sum + (1n << BigInt(bits - allocation.prefixLength)),
+      0n
+    );
+
+    return {
+      parent: formatCIDR(parent.network, parent.prefixLength, version),
+      allocations,
+      unallocated,
+      totalAddresses: totalAddresses.toString(),
+      allocatedAddresses: allocatedAddresses.toString(),
+      wastedAddresses: allocations.reduce((sum, allocation) => sum + BigInt(allocation.wasted), 0n).toString(),
+      freeAddresses: (totalAddresses - allocatedAddresses).toString(),
+      free: IPClassificationService.excludeCIDRs(
+        [request.parent],
+        allocations.map(allocation => allocation.cidr)
+      )
+    };
+  }
+
+  // Private helper methods
+
+  private static expandRequirements(requirements: VLSMRequirement[]): { name: string; hosts: number }[] {
+    if (!Array.isArray(requirements) || requirements.length === 0) {
+      throw new Error('At least one subnet requirement is needed');
+    }
+
+    const expanded = requirements.flatMap((requirement, position) => {
+      const { name, hosts, count = 1 } = requirement;
+
+      if (typeof name !== 'string' || name.trim() === '') {
+        throw new Error(`Requirement ${position} needs a name`);
+      }
+      if (!Number.isInteger(hosts) || hosts < 1) {
+        throw new Error(`Requirement ${name} needs a positive whole number of hosts`);
+      }
+      if (!Number.isInteger(count) || count < 1) {
+        throw new Error(`Requirement ${name} needs a positive whole count`);
+      }
+
+      return Array.from({ length: Math.min(count, MAX_PLANNED_SUBNETS + 1) }, (_, index) => ({
+        name: count > 1 ? `${name.trim()} ${index + 1}` : name.trim(),
+        hosts
+      }));
+    });
+
+    if (expanded.length > MAX_PLANNED_SUBNETS) {
+      throw new Error(`A plan may request at most ${MAX_PLANNED_SUBNETS} subnets`);
+    }
+    return expanded;
+  }
+
+  /**
+   * Longest prefix with enough usable addresses, counted the way calculateSubnet counts them
+   */
+  private static prefixForHosts(hosts: number, version: IPVersion): number | null {
+    const bits = ADDRESS_BITS[version];
+
+    for (let prefixLength = bits; prefixLength >= 0; prefixLength--) {
+      const total = 1n << BigInt(bits - prefixLength);
+      // IPv4 loses the network and broadcast addresses below /31
+      const usable = version === 4 && prefixLength < 31 ? total - 2n : total;
+      if (usable >= BigInt(hosts)) return prefixLength;
+    }
+    return null;
+  }
+
+  private static allocate(
+    subnet: PlannedSubnet,
+    network: bigint,
+    prefixLength: number,
+    version: IPVersion
+  ): VLSMAllocation {
+    const info = IPClassificationService.calculateSubnet(bigIntToIP(network, version), String(prefixLength));
+    const usableHosts = info.version === 4 ? BigInt(info.usableHosts) : BigInt(info.totalAddresses);
+
+    return {
+      name: subnet.name,
+      requestedHosts: subnet.requestedHosts,
+      plannedHosts: subnet.plannedHosts,
+      cidr: info.cidr,
+      prefixLength,
+      firstHost: info.firstHost,
+      lastHost: info.lastHost,
+      usableHosts: usableHosts.toString(),
+      wasted: (usableHosts - BigInt(subnet.requestedHosts)).toString()
+    };
+  }
+
+  private static unallocated(subnet: PlannedSubnet, reason: string): VLSMPlan['unallocated'][number] {
+    return {
+      name: subnet.name,
+      requestedHosts: subnet.requestedHosts,
+      prefixLength: subnet.prefixLength,
+      reason
+    };
+  }
+}
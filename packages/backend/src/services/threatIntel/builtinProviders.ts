@@ -0,0 +1,159 @@
+import { BlocklistService } from '../blocklistService';
+import { DNSAnalysisService } from '../dnsAnalysisService';
+import { DnsblService } from '../dnsblService';
+import { GeolocationService } from '../geolocationService';
+import { IPClassificationService } from '../ipClassification';
+import { ThreatIntelProvider, ThreatVerdict, maxSeverity } from './threatIntelProvider';
+
+/**
+ * Configured local blocklists (FireHOL, Spamhaus DROP, plain CIDR lists)
+ */
+const blocklistProvider: ThreatIntelProvider = {
+  name: 'blocklists',
+  description: 'Local IP blocklists',
+  weight: 3,
+  check: async ipAddress => {
+    if (BlocklistService.getLoadedLists().length === 0) return null;
+
+    const matches = BlocklistService.lookup(ipAddress);
+    return {
+      isMalicious: matches.some(match => match.severity !== 'low'),
+      threatTypes: [...new Set(matches.map(match => match.category))],
+      severity: maxSeverity(matches.map(match => match.severity)),
+      // Each additional independent list raises confidence
+      confidence: matches.length > 0 ? Math.min(70 + 10 * matches.length, 100) : 60,
+      sources: matches.map(match => `blocklist:${match.list}`),
+      evidence: matches.map(
+        match => `${match.cidr} listed in ${match.list}${match.reference !== undefined ? ` (${match.reference})` : ''}`
+      )
+    };
+  }
+};
+
+/**
+ * Anonymizer signals from the geolocation data: proxies, VPNs and Tor exits
+ */
+const anonymizerProvider: ThreatIntelProvider = {
+  name: 'anonymizers',
+  description: 'Proxy, VPN and Tor exit detection',
+  weight: 1,
+  check: async ipAddress => {
+    const security = await GeolocationService.getSecurityInfo(ipAddress);
+    if (!security) return null;
+
+    const threatTypes: string[] = [];
+    let confidence = 50;
+
+    if (security.isProxy) {
+      threatTypes.push('proxy');
+      confidence += 10;
+    }
+    if (security.isVPN) {
+      threatTypes.push('vpn');
+      confidence += 10;
+    }
+    if (security.isTor) {
+      threatTypes.push('tor');
+      confidence += 20;
+    }
+
+    // Anonymizers are reported as threat types with a severity, not as malicious in themselves
+    const verdict: ThreatVerdict = {
+      isMalicious: false,
+      threatTypes,
+      severity: security.isTor ? 'medium' : 'low',
+      confidence,
+      ...(security.isTor && { sources: ['tor_exit_list'] }),
+      ...(security.firstSeen !== undefined && { firstSeen: security.firstSeen }),
+      ...(security.lastSeen !== undefined && { lastSeen: security.lastSeen })
+    };
+    return verdict;
+  }
+};
+
+/**
+ * Reverse DNS name reputation (suspicious TLDs, DGA-like names, keywords)
+ */
+const dnsReputationProvider: ThreatIntelProvider = {
+  name: 'dns-reputation',
+  description: 'Reverse DNS hostname reputation',
+  weight: 0.5,
+  check: async ipAddress => {
+    const reputation = await DNSAnalysisService.checkReputation(ipAddress);
+    if (reputation.hostname === undefined) return null;
+
+    const threatTypes = [
+      ...(reputation.isPhishing ? ['phishing'] : []),
+      ...(reputation.isMalware ? ['malware'] : []),
+      ...(reputation.isSpam ? ['spam'] : []),
+      ...(reputation.isMalicious ? ['suspicious_hostname'] : [])
+    ];
+
+    return {
+      isMalicious: reputation.isMalicious || reputation.isPhishing || reputation.isMalware,
+      threatTypes,
+      severity: reputation.riskScore >= 70 ? 'high' : reputation.riskScore >= 40 ? 'medium' : 'low',
+      confidence: Math.min(40 + reputation.riskScore / 2, 90),
+      evidence: [`reverse DNS ${reputation.hostname}`]
+    };
+  }
+};
+
+/**
+ * DNS blocklist (DNSBL) listings
+ */
+const dnsblProvider: ThreatIntelProvider = {
+  name: 'dnsbl',
+  description: 'DNS-based blocklists',
+  weight: 2,
+  check: async ipAddress => {
+    if (!DnsblService.isEnabled()) return null;
+
+    const results = await DnsblService.check(ipAddress);
+    const answered = results.filter(result => result.status === 'listed' || result.status === 'not_listed');
+    if (answered.length === 0) return null;
+
+    const listings = answered.flatMap(result => result.listings);
+    const listedZones = answered.filter(result => result.status === 'listed');
+
+    return {
+      // Policy listings (e.g. Spamhaus PBL) only mark end-user ranges
+      isMalicious: listings.some(listing => listing.category !== 'policy' && listing.severity !== 'low'),
+      threatTypes: [...new Set(listings.map(listing => listing.category))],
+      severity: maxSeverity(listings.map(listing => listing.severity)),
+      confidence: listedZones.length > 0 ? Math.min(60 + 15 * listedZones.length, 95) : 60,
+      sources: listedZones.map(result => `dnsbl:${result.zone}`),
+      evidence: DnsblService.describeListings(listedZones)
+    };
+  }
+};
+
+/**
+ * Address-based heuristics that need no dataset
+ */
+const localHeuristicsProvider: ThreatIntelProvider = {
+  name: 'local-heuristics',
+  description: 'Local address heuristics',
+  weight: 0.5,
+  check: async ipAddress => {
+    const bogon = IPClassificationService.getBogonStatus(ipAddress);
+    // Unallocated and unassigned space reaching us is a strong spoofing signal
+    const unrouted = bogon.isBogon && bogon.category !== 'martian';
+
+    return {
+      isMalicious: false,
+      threatTypes: bogon.isBogon ? ['bogon'] : [],
+      severity: unrouted ? 'medium' : 'low',
+      confidence: unrouted ? 80 : bogon.isBogon ? 65 : 50,
+      ...(bogon.isBogon && { evidence: [`${bogon.category} space ${bogon.cidr}: ${bogon.description}`] })
+    };
+  }
+};
+
+export const BUILTIN_PROVIDERS: readonly ThreatIntelProvider[] = [
+  blocklistProvider,
+  anonymizerProvider,
+  dnsReputationProvider,
+  dnsblProvider,
+  localHeuristicsProvider
+];
@@ -0,0 +1,146 @@
+import { config } from '@/config';
+import { logger } from '@/utils/logger';
+import { ThreatIntelRegistry } from './threatIntelRegistry';
+import {
+  AGGREGATION_STRATEGIES,
+  AggregatedThreatVerdict,
+  AggregationStrategy,
+  ProviderVerdict,
+  ThreatIntelProvider,
+  ThreatVerdict,
+  maxSeverity
+} from './threatIntelProvider';
+
+export interface AggregationOptions {
+  strategy?: AggregationStrategy;
+  // Only consult these providers
+  providers?: string[];
+}
+
+const TIMED_OUT = Symbol('timeout');
+
+/**
+ * Runs every registered provider in parallel, each with its own timeout, and
+ * combines their verdicts:
+ *   max      - malicious if any provider says so; most severe finding wins
+ *   weighted - weighted average of malicious confidence must reach THREAT_INTEL_WEIGHTED_THRESHOLD
+ *   quorum   - at least THREAT_INTEL_QUORUM providers must say malicious
+ * Providers that return no data, time out or fail are recorded but do not vote, so a
+ * quorum can fail for lack of votes; the verdict then reports insufficientVotes.
+ */
+export class ThreatIntelAggregator {
+  static async evaluate(ipAddress: string, options: AggregationOptions = {}): Promise<AggregatedThreatVerdict> {
+    const strategy = options.strategy ?? resolveStrategy(config.threatIntel.strategy);
+    const providers = ThreatIntelRegistry.getProviders().filter(
+      provider => !options.providers || options.providers.includes(provider.name)
+    );
+
+    const providerVerdicts = await Promise.all(providers.map(provider => this.runProvider(provider, ipAddress)));
+    return this.combine(strategy, providerVerdicts);
+  }
+
+  // Private helper methods
+
+  private static async runProvider(provider: ThreatIntelProvider, ipAddress: string): Promise<ProviderVerdict> {
+    const startTime = Date.now();
+    const timeoutMs = provider.timeoutMs ?? config.threatIntel.providerTimeoutMs;
+    const weight = config.threatIntel.weights[provider.name] ?? provider.weight ?? 1;
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<typeof TIMED_OUT>(resolve => {
+      timer = setTimeout(() => {
+        controller.abort();
+        resolve(TIMED_OUT);
+      }, timeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([provider.check(ipAddress, { signal: controller.signal }), timeout]);
+      const durationMs = Date.now() - startTime;
+
+      if (result === TIMED_OUT) {
+        logger.warn('Threat intel provider timed out', { provider: provider.name, ipAddress, timeoutMs });
+        return { provider: provider.name, status: 'timeout', durationMs, weight };
+      }
+      if (result === null) {
+        return { provider: provider.name, status: 'no_data', durationMs, weight };
+      }
+      return { provider: provider.name, status: 'ok', durationMs, weight, verdict: result };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Threat intel provider failed', { provider: provider.name, ipAddress, error: errorMessage });
+      return { provider: provider.name, status: 'error', durationMs: Date.now() - startTime, weight, error: errorMessage };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private static combine(strategy: AggregationStrategy, providerVerdicts: ProviderVerdict[]): AggregatedThreatVerdict {
+    const voting = providerVerdicts.filter(
+      (record): record is ProviderVerdict & { verdict: ThreatVerdict } => record.verdict !== undefined
+    );
+    const malicious = voting.filter(record => record.verdict.isMalicious);
+    const withFindings = voting.filter(record => record.verdict.isMalicious || record.verdict.threatTypes.length > 0);
+
+    let isMalicious: boolean;
+    let confidence: number;
+    let insufficientVotes = false;
+
+    switch (strategy) {
+      case 'weighted': {
+        const totalWeight = voting.reduce((sum, record) => sum + record.weight, 0);
+        const score =
+          totalWeight > 0
+            ? malicious.reduce((sum, record) => sum + record.weight * record.verdict.confidence, 0) / totalWeight
+            : 0;
+        isMalicious = score >= config.threatIntel.weightedThreshold;
+        confidence = isMalicious ? score : highestConfidence(withFindings);
+        break;
+      }
+      case 'quorum':
+        insufficientVotes = voting.length < config.threatIntel.quorum;
+        isMalicious = malicious.length >= config.threatIntel.quorum;
+        confidence = isMalicious
+          ? malicious.reduce((sum, record) => sum + record.verdict.confidence, 0) / malicious.length
+          : highestConfidence(withFindings);
+        break;
+      case 'max':
+        isMalicious = malicious.length > 0;
+        confidence = highestConfidence(isMalicious ? malicious : withFindings);
+        break;
+    }
+
+    const firstSeen = voting.map(record => record.verdict.firstSeen).filter(isDefined).sort()[0];
+    const lastSeen = voting.map(record => record.verdict.lastSeen).filter(isDefined).sort().pop();
+
+    return {
+      isMalicious,
+      threatTypes: [...new Set(withFindings.flatMap(record => record.verdict.threatTypes))],
+      severity: maxSeverity(withFindings.map(record => record.verdict.severity)),
+      confidence: Math.round(Math.min(confidence, 100)),
+      sources: [...new Set(withFindings.flatMap(record => record.verdict.sources ?? [record.provider]))],
+      evidence: withFindings.flatMap(record => record.verdict.evidence ?? []),
+      ...(firstSeen !== undefined && { firstSeen }),
+      ...(lastSeen !== undefined && { lastSeen }),
+      strategy,
+      ...(insufficientVotes && { insufficientVotes }),
+      providerVerdicts
+    };
+  }
+}
+
+// Internal helpers
+
+function resolveStrategy(value: string): AggregationStrategy {
+  return AGGREGATION_STRATEGIES.includes(value as AggregationStrategy) ? (value as AggregationStrategy) : 'max';
+}
+
+function highestConfidence(records: { verdict: ThreatVerdict }[]): number {
+  // With no findings at all, confidence stays at the neutral baseline
+  return records.reduce((highest, record) => Math.max(highest, record.verdict.confidence), 50);
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
@@ -0,0 +1,72 @@
+export type ThreatSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export const SEVERITY_ORDER: readonly ThreatSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export type AggregationStrategy = 'max' | 'weighted' | 'quorum';
+
+export const AGGREGATION_STRATEGIES: readonly AggregationStrategy[] = ['max', 'weighted', 'quorum'];
+
+/**
+ * A single provider's opinion about an address
+ */
+export interface ThreatVerdict {
+  isMalicious: boolean;
+  threatTypes: string[];
+  severity: ThreatSeverity;
+  confidence: number; // 0-100
+  // Finer-grained sources than the provider itself, e.g. individual blocklists
+  sources?: string[];
+  evidence?: string[];
+  firstSeen?: string;
+  lastSeen?: string;
+}
+
+export interface ThreatCheckContext {
+  // Aborted when the provider's timeout expires
+  signal: AbortSignal;
+}
+
+/**
+ * A source of threat intelligence. Return null when the provider has no data
+ * for the address (for example, its dataset is not loaded) so it does not
+ * count towards weighted or quorum decisions.
+ */
+export interface ThreatIntelProvider {
+  readonly name: string;
+  readonly description?: string;
+  // Relative weight for the weighted strategy (default 1)
+  readonly weight?: number;
+  // Overrides the default per-provider timeout
+  readonly timeoutMs?: number;
+  check(ipAddress: string, context: ThreatCheckContext): Promise<ThreatVerdict | null>;
+}
+
+export interface ProviderVerdict {
+  provider: string;
+  status: 'ok' | 'no_data' | 'timeout' | 'error';
+  durationMs: number;
+  weight: number;
+  verdict?: ThreatVerdict;
+  error?: string;
+}
+
+export interface AggregatedThreatVerdict {
+  isMalicious: boolean;
+  threatTypes: string[];
+  severity: ThreatSeverity;
+  confidence: number;
+  sources: string[];
+  evidence: string[];
+  firstSeen?: string;
+  lastSeen?: string;
+  strategy: AggregationStrategy;
+  // Quorum strategy only: fewer providers voted than THREAT_INTEL_QUORUM requires
+  insufficientVotes?: boolean;
+  providerVerdicts: ProviderVerdict[];
+}
+
+export const maxSeverity = (severities: ThreatSeverity[]): ThreatSeverity =>
+  severities.reduce<ThreatSeverity>(
+    (highest, severity) => (SEVERITY_ORDER.indexOf(severity) > SEVERITY_ORDER.indexOf(highest) ? severity : highest),
+    'low'
+  );
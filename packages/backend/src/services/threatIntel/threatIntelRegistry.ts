@@ -0,0 +1,73 @@
+import { logger } from '@/utils/logger';
+import path from 'path';
+import { BUILTIN_PROVIDERS } from './builtinProviders';
+import { ThreatIntelProvider } from './threatIntelProvider';
+
+/**
+ * Registered threat intelligence providers. The built-in providers are always
+ * present; additional feeds are registered in code or loaded as plugin modules
+ * listed in THREAT_INTEL_PLUGINS.
+ */
+export class ThreatIntelRegistry {
+  private static readonly providers = new Map<string, ThreatIntelProvider>(
+    BUILTIN_PROVIDERS.map(provider => [provider.name, provider])
+  );
+
+  /**
+   * Register a provider. Registering an existing name replaces that provider.
+   */
+  static register(provider: ThreatIntelProvider): void {
+    if (!isThreatIntelProvider(provider)) {
+      throw new Error('Threat intel providers need a name and a check() function');
+    }
+
+    const replaced = this.providers.has(provider.name);
+    this.providers.set(provider.name, provider);
+    logger.info('Threat intel provider registered', { provider: provider.name, replaced });
+  }
+
+  static unregister(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  static getProviders(): ThreatIntelProvider[] {
+    return [...this.providers.values()];
+  }
+
+  /**
+   * Load plugin modules. A plugin exports a provider, an array of providers, or a
+   * (possibly async) factory returning either - as its default export or as `providers`.
+   */
+  static async loadPlugins(modulePaths: string[]): Promise<void> {
+    for (const modulePath of modulePaths) {
+      try {
+        const pluginModule = (await import(path.resolve(modulePath))) as Record<string, unknown>;
+        let exported = pluginModule['default'] ?? pluginModule['providers'] ?? pluginModule['provider'];
+        if (typeof exported === 'function') {
+          exported = await (exported as () => unknown)();
+        }
+
+        const providers = Array.isArray(exported) ? exported : [exported];
+        for (const provider of providers) {
+          this.register(provider as ThreatIntelProvider);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to load threat intel plugin', { modulePath, error: errorMessage });
+      }
+    }
+  }
+}
+
+// Internal helpers
+
+function isThreatIntelProvider(value: unknown): value is ThreatIntelProvider {
+  const candidate = value as Partial<ThreatIntelProvider> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.name === 'string' &&
+    candidate.name !== '' &&
+    typeof candidate.check === 'function'
+  );
+}
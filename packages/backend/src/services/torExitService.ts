@@ -0,0 +1,161 @@
+import { config } from '@/config';
+import { bigIntToIP, parseIP, unmapIPv4 } from '@/utils/ipAddress';
+import { logger } from '@/utils/logger';
+import { promises as fs } from 'fs';
+import { DatasetManager } from './datasetManager';
+
+export interface TorExitNode {
+  address: string;
+  fingerprint?: string;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface TorExitList {
+  format: 'exit-addresses' | 'bulk';
+  nodes: Map<string, TorExitNode>;
+  relays: number;
+  generatedAt: string;
+}
+
+/**
+ * Tor exit node lookups backed by a local copy of the Tor Project exit lists:
+ * either the TorDNSEL `exit-addresses` file (ExitNode / Published / LastStatus /
+ * ExitAddress records) or the plain bulk exit list (one address per line).
+ */
+export class TorExitService {
+  private static list: TorExitList | null = null;
+
+  /**
+   * Register the configured exit list with the DatasetManager
+   */
+  static registerDataset(): void {
+    const { torExitListPath } = config.threat;
+    if (torExitListPath === undefined) {
+      logger.info('No Tor exit list configured, Tor detection disabled');
+      return;
+    }
+
+    DatasetManager.register<TorExitList>({
+      name: 'tor-exits',
+      description: 'Tor Project exit node list',
+      files: [torExitListPath],
+      load: async () => {
+        const [content, stats] = await Promise.all([fs.readFile(torExitListPath, 'utf8'), fs.stat(torExitListPath)]);
+        const list = parseTorExitList(content, stats.mtime, this.list);
+
+        return {
+          value: list,
+          version: `${list.format}@${list.generatedAt}`,
+          recordCounts: { addresses: list.nodes.size, relays: list.relays }
+        };
+      },
+      validate: ({ value }) => (value.nodes.size === 0 ? ['exit list contains no addresses'] : []),
+      activate: list => {
+        this.list = list;
+      }
+    });
+  }
+
+  /**
+   * Look up an address in the exit list
+   */
+  static lookup(ipAddress: string): TorExitNode | null {
+    const key = normalizeAddress(ipAddress);
+    return key !== null ? (this.list?.nodes.get(key) ?? null) : null;
+  }
+
+  static isExitNode(ipAddress: string): boolean {
+    return this.lookup(ipAddress) !== null;
+  }
+
+  /**
+   * Whether an exit list has been loaded - without one, "not an exit node" is unknown rather than false
+   */
+  static isAvailable(): boolean {
+    return this.list !== null;
+  }
+}
+
+/**
+ * Parse either exit list format. First-seen times are carried over from the
+ * previously loaded list so they survive reloads of a rolling list.
+ */
+export const parseTorExitList = (content: string, fileTime: Date, previous: TorExitList | null = null): TorExitList => {
+  const isExitAddresses = /^ExitNode\s/m.test(content);
+  const nodes = new Map<string, TorExitNode>();
+  let relays = 0;
+  let latest = isExitAddresses ? 0 : fileTime.getTime();
+
+  const addNode = (address: string, firstSeenAt: Date, lastSeenAt: Date, fingerprint?: string): void => {
+    const key = normalizeAddress(address);
+    if (key === null) return;
+
+    const existing = nodes.get(key);
+    const lastSeen = lastSeenAt.toISOString();
+    const firstSeen = [firstSeenAt.toISOString(), existing?.firstSeen, previous?.nodes.get(key)?.firstSeen]
+      .filter((time): time is string => time !== undefined)
+      .reduce((earliest, time) => (time < earliest ? time : earliest));
+
+    nodes.set(key, {
+      address: key,
+      ...(fingerprint !== undefined && { fingerprint }),
+      firstSeen,
+      lastSeen: existing && existing.lastSeen > lastSeen ? existing.lastSeen : lastSeen
+    });
+    latest = Math.max(latest, lastSeenAt.getTime());
+  };
+
+  if (isExitAddresses) {
+    let fingerprint: string | undefined;
+    let published: Date | null = null;
+
+    for (const line of content.split(/\r?\n/)) {
+      const [keyword, ...fields] = line.trim().split(/\s+/);
+
+      if (keyword === 'ExitNode') {
+        fingerprint = fields[0];
+        published = null;
+        relays++;
+      } else if (keyword === 'Published') {
+        published = parseTorTimestamp(fields[0], fields[1]);
+      } else if (keyword === 'ExitAddress' && fields[0] !== undefined) {
+        const observedAt = parseTorTimestamp(fields[1], fields[2]) ?? published ?? fileTime;
+        // The relay's descriptor publication is the earliest time the list shows it active
+        const firstSeenAt = published && published < observedAt ? published : observedAt;
+        addNode(fields[0], firstSeenAt, observedAt, fingerprint);
+      }
+    }
+  } else {
+    for (const line of content.split(/\r?\n/)) {
+      const address = line.trim();
+      if (address === '' || address.startsWith('#')) continue;
+      addNode(address, fileTime, fileTime);
+    }
+    relays = nodes.size;
+  }
+
+  return {
+    format: isExitAddresses ? 'exit-addresses' : 'bulk',
+    nodes,
+    relays,
+    generatedAt: new Date(latest).toISOString()
+  };
+};
+
+// Internal helpers
+
+function normalizeAddress(address: string): string | null {
+  const parsed = parseIP(address);
+  if (!parsed) return null;
+
+  const { version, value } = unmapIPv4(parsed);
+  return bigIntToIP(value, version);
+}
+
+function parseTorTimestamp(date: string | undefined, time: string | undefined): Date | null {
+  // exit-addresses timestamps are UTC: "2024-01-01 12:34:56"
+  if (date === undefined || time === undefined) return null;
+  const parsed = new Date(`${date}T${time}Z`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
@@ -0,0 +1,138 @@
+import { config } from '@/config';
+import { TRUSTED_PROXY_PRESETS } from '@/data/trustedProxyPresets';
+import { logger } from '@/utils/logger';
+import { RangeEntry, RangeIndex, cidrEntry } from '@/utils/rangeIndex';
+import { isIP } from 'net';
+import { ClientIPHeaderService } from './clientIPHeaderService';
+
+export interface ChainResolution {
+  // First untrusted hop walking right to left, or the leftmost hop when every hop is trusted
+  clientIP: string | null;
+  // Position of the client in the chain; hops left of it were supplied by an untrusted party
+  clientIndex: number;
+  // Hops right of the client, all of them trusted proxies
+  trustedHops: string[];
+}
+
+// Name of the set built from TRUSTED_PROXIES
+const TRUSTED_SET = 'trusted';
+
+/**
+ * Decides which forwarding headers may be believed. A header is honored only when the
+ * socket peer belongs to one of the proxy sets configured for it; forwarding chains are
+ * walked right to left and stop at the first hop that is not a trusted proxy.
+ *
+ * A set is a preset name (cloudflare, fastly, loopback, private), "trusted" for the
+ * TRUSTED_PROXIES list, or a literal CIDR. Each header's sets come from its client IP
+ * header definition unless TRUSTED_PROXY_HEADERS overrides them.
+ */
+export class TrustedProxyService {
+  private static sets = new Map([[TRUSTED_SET, buildSet(config.proxies.trusted)]]);
+  private static headerRules = parseHeaderRules(config.proxies.headers);
+
+  /**
+   * Replace the trusted proxy list and the per-header rule overrides
+   */
+  static configure(trusted: string[], headerRules: string[] = []): void {
+    this.sets = new Map([[TRUSTED_SET, buildSet(trusted)]]);
+    this.headerRules = parseHeaderRules(headerRules);
+  }
+
+  /**
+   * Whether an address belongs to any of the named sets
+   */
+  static isTrusted(ipAddress: string, sets: string[] = [TRUSTED_SET]): boolean {
+    return sets.some(name => this.getSet(name).lookup(ipAddress) !== null);
+  }
+
+  /**
+   * Whether the socket peer may supply the given header
+   */
+  static isTrustedFor(peerIP: string | null, header: string): boolean {
+    if (peerIP === null) return false;
+    return this.isTrusted(peerIP, this.getHeaderRule(header));
+  }
+
+  /**
+   * Sets required for a header, e.g. ['cloudflare'] for cf-connecting-ip
+   */
+  static getHeaderRule(header: string): string[] {
+    return (
+      this.headerRules[header.toLowerCase()] ?? ClientIPHeaderService.get(header)?.trustedProxies ?? [TRUSTED_SET]
+    );
+  }
+
+  /**
+   * Walk a forwarding chain (oldest hop first, as in X-Forwarded-For) right to left.
+   * The socket peer must already be trusted for the header; each hop is then checked
+   * against the same sets and the walk stops at the first one that is not a proxy.
+   * An unparseable entry ends the walk: whatever is left of it cannot be relied on.
+   */
+  static resolveChain(chain: string[], header: string): ChainResolution {
+    const sets = this.getHeaderRule(header);
+    const trustedHops: string[] = [];
+
+    for (let index = chain.length - 1; index >= 0; index--) {
+      const hop = chain[index] ?? '';
+
+      if (!isIP(hop)) {
+        return { clientIP: null, clientIndex: index, trustedHops };
+      }
+      if (!this.isTrusted(hop, sets) || index === 0) {
+        return { clientIP: hop, clientIndex: index, trustedHops };
+      }
+      trustedHops.unshift(hop);
+    }
+
+    return { clientIP: null, clientIndex: -1, trustedHops };
+  }
+
+  // Private helper methods
+
+  private static getSet(name: string): RangeIndex<string> {
+    let set = this.sets.get(name);
+    if (!set) {
+      // Presets and literal CIDRs are built on first use
+      set = buildSet([name]);
+      this.sets.set(name, set);
+    }
+    return set;
+  }
+}
+
+// Internal helpers
+
+function buildSet(entries: string[]): RangeIndex<string> {
+  const ranges: RangeEntry<string>[] = [];
+
+  for (const entry of entries) {
+    const cidrs = TRUSTED_PROXY_PRESETS[entry.toLowerCase()] ?? [entry];
+    for (const cidr of cidrs) {
+      try {
+        ranges.push(cidrEntry(cidr, entry));
+      } catch {
+        logger.error('Ignoring invalid trusted proxy entry', {
+          entry,
+          expected: `CIDR or one of ${Object.keys(TRUSTED_PROXY_PRESETS).join(', ')}`
+        });
+      }
+    }
+  }
+
+  return RangeIndex.build(ranges);
+}
+
+function parseHeaderRules(entries: string[]): Record<string, string[]> {
+  const rules: Record<string, string[]> = {};
+
+  for (const entry of entries) {
+    const [header = '', sets = ''] = entry.split('=');
+    if (header.trim() === '' || sets.trim() === '') {
+      logger.error('Ignoring invalid trusted proxy header rule', { entry, expected: 'header=set|set' });
+      continue;
+    }
+    rules[header.trim().toLowerCase()] = sets.split('|').map(set => set.trim());
+  }
+
+  return rules;
+}
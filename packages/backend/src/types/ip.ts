@@ -1,9 +1,19 @@
 export interface IPAddress {
   address: string;
   version: 4 | 6;
-  type: 'public' | 'private' | 'reserved' | 'loopback' | 'multicast' | 'broadcast';
-  source: 'socket' | 'x-forwarded-for' | 'x-real-ip' | 'cf-connecting-ip' | 'x-cluster-client-ip' | 'forwarded';
+  type:
+    | 'public'
+    | 'private'
+    | 'reserved'
+    | 'loopback'
+    | 'multicast'
+    | 'broadcast'
+    | 'cgnat'
+    | 'documentation'
+    | 'link-local';
+  source: string; // 'socket', 'proxy-protocol' or the lowercase name of a client IP header
   confidence: number; // 0-100, how confident we are this is the real IP
+  trusted?: boolean; // false when the socket peer is not a trusted proxy for the source header
 }
 
 export interface IPAnalysis {
@@ -25,6 +35,7 @@ export interface IPAnalysis {
     asn?: number;
     asnOrganization?: string;
     connectionType?: 'residential' | 'business' | 'mobile' | 'hosting' | 'unknown';
+    cloud?: CloudProviderInfo;
   };
   security?: {
     isProxy?: boolean;
@@ -52,6 +63,162 @@ export interface NetworkConnection {
   acceptEncoding?: string | undefined;
   dnt?: boolean; // Do Not Track
   headers: Record<string, string>;
+  proxyProtocol?: ProxyProtocolInfo;
+  forwarded?: ForwardedElement[]; // RFC 7239 Forwarded elements, oldest hop first
+}
+
+/**
+ * One hop on the path from the client to this server
+ */
+export interface ProxyHop {
+  // Null for Forwarded nodes given as "unknown" or an obfuscated identifier
+  address: string | null;
+  identifier?: string;
+  port?: string;
+  // client: resolved client; client-supplied: claimed by the client, left of it; peer: sent us the request
+  role: 'client' | 'client-supplied' | 'proxy' | 'peer';
+  // Headers (or socket / proxy-protocol) that reported this hop
+  sources: string[];
+  trusted: boolean;
+  classification?: IPAddress['type'];
+  geolocation?: GeoLocation;
+  network?: Pick<NetworkInfo, 'asn' | 'asnOrganization' | 'organization' | 'isp'>;
+  // Forwarded parameters of the element describing this hop
+  proto?: string;
+  host?: string;
+  by?: string;
+}
+
+export interface ProxyChain {
+  // Client first, the peer that connected to us last
+  hops: ProxyHop[];
+  clientIP: string | null;
+  // Forwarded elements whose address does not appear in X-Forwarded-For
+  unmatchedForwarded: ForwardedElement[];
+}
+
+/**
+ * Structure of an IPv6 address: canonical forms, interface identifier and any IPv4
+ * address carried by a transition mechanism
+ */
+export interface IPv6Analysis {
+  compressed: string; // RFC 5952 canonical form
+  expanded: string;
+  prefix: string; // The /64 the address belongs to
+  interfaceId: string;
+  interfaceIdType: 'eui-64' | 'isatap' | 'embedded-ipv4' | 'low-order' | 'randomized';
+  mac?: string; // Recovered from an EUI-64 interface identifier
+  likelyPrivacyAddress: boolean;
+  transition?: IPv6Transition;
+}
+
+export interface IPv6Transition {
+  mechanism: '6to4' | 'nat64' | 'teredo' | 'isatap' | 'ipv4-mapped';
+  ipv4: string; // For Teredo the client's public address, de-obfuscated
+  teredo?: {
+    server: string;
+    port: number;
+    cone: boolean;
+    flags: number;
+  };
+}
+
+/**
+ * Whether an address may appear as a source on the public internet. Martians are
+ * special-purpose and multicast space; unallocated space was never given to an RIR;
+ * unassigned space is held by an RIR but not assigned to any network.
+ */
+export interface BogonStatus {
+  isBogon: boolean;
+  category?: 'martian' | 'unallocated' | 'unassigned';
+  cidr?: string; // Block that makes the address a bogon
+  description?: string;
+  source: 'iana-registries' | 'full-bogons'; // full-bogons once a list is loaded
+}
+
+/**
+ * One address written every way it is commonly encountered
+ */
+export interface AddressNotations {
+  input: string;
+  address: string; // Canonical form
+  version: 4 | 6;
+  // Input relied on a non-canonical form (inet_aton shorthand, hex or octal parts, embedded IPv4)
+  obfuscated: boolean;
+  obfuscation: string[];
+  notations: {
+    integer: string; // Decimal, a BigInt for IPv6
+    hex: string;
+    binary: string;
+    ptr: string; // in-addr.arpa or ip6.arpa name
+    bracketed: string; // As written in URLs and host:port pairs
+    url: string;
+    // IPv4
+    dotted?: string;
+    octal?: string;
+    dottedHex?: string;
+    dottedOctal?: string;
+    ipv4Mapped?: string;
+    // IPv6
+    full?: string;
+    compressed?: string;
+    ipv6Literal?: string; // Windows UNC-safe name, e.g. 2001-db8--1.ipv6-literal.net
+  };
+}
+
+export interface ForwardedNode {
+  type: 'ip' | 'unknown' | 'obfuscated' | 'invalid';
+  // Address without brackets, "unknown", the obfuscated identifier, or the raw value when invalid
+  value: string;
+  port?: string; // Port number or obfuscated port such as _9
+}
+
+export interface ForwardedElement {
+  for?: ForwardedNode;
+  by?: ForwardedNode;
+  proto?: string;
+  host?: string;
+  extensions?: Record<string, string>;
+  errors?: string[];
+}
+
+export interface ProxyProtocolTLV {
+  type: number;
+  name: string;
+  value: string; // Decoded text where the TLV is textual, hex otherwise
+}
+
+export interface ProxyProtocolSSLInfo {
+  // Client connected over SSL/TLS, presented a certificate in this connection or in the session
+  connectedWithSSL: boolean;
+  certificateInConnection: boolean;
+  certificateInSession: boolean;
+  verified: boolean;
+  version?: string;
+  commonName?: string;
+  cipher?: string;
+  signatureAlgorithm?: string;
+  keyAlgorithm?: string;
+}
+
+/**
+ * Connection details from a PROXY protocol header sent by a TCP load balancer
+ */
+export interface ProxyProtocolInfo {
+  version: 1 | 2;
+  command: 'PROXY' | 'LOCAL';
+  transport: 'TCP4' | 'TCP6' | 'UDP4' | 'UDP6' | 'UNIX' | 'UNKNOWN';
+  sourceAddress?: string;
+  sourcePort?: number;
+  destinationAddress?: string;
+  destinationPort?: number;
+  tlvs: ProxyProtocolTLV[];
+  alpn?: string;
+  authority?: string;
+  uniqueId?: string;
+  awsVpcEndpointId?: string;
+  azureLinkId?: number;
+  ssl?: ProxyProtocolSSLInfo;
 }
 
 export interface ConnectionAnalysis {
@@ -77,10 +244,115 @@ export interface IPRange {
   start: string;
   end: string;
   cidr: string;
-  type: 'public' | 'private' | 'reserved';
+  type: IPAddress['type'];
   description?: string;
 }
 
+interface SubnetInfoBase {
+  cidr: string;
+  network: string;
+  prefixLength: number;
+  firstHost: string;
+  lastHost: string;
+  totalAddresses: string; // Decimal BigInt, an IPv6 /0 holds 2^128 addresses
+  parent: string | null; // Enclosing prefix one bit shorter
+  children: string[]; // The two halves one bit longer
+}
+
+export interface IPv4SubnetInfo extends SubnetInfoBase {
+  version: 4;
+  broadcast?: string; // Omitted for /31 and /32, which have no broadcast address
+  subnetMask: string;
+  wildcardMask: string;
+  totalHosts: number;
+  usableHosts: number;
+}
+
+export interface IPv6SubnetInfo extends SubnetInfoBase {
+  version: 6;
+  lastAddress: string; // IPv6 has no broadcast address
+  subnets64: string; // Number of /64 networks, "0" for prefixes longer than /64
+}
+
+export type SubnetInfo = IPv4SubnetInfo | IPv6SubnetInfo;
+
+export interface VLSMRequirement {
+  name: string;
+  hosts: number;
+  count?: number; // Identical subnets, e.g. eight point-to-point links
+}
+
+export interface VLSMRequest {
+  parent: string;
+  requirements: VLSMRequirement[];
+  headroom?: number; // Growth allowance in percent added to every host count
+  alignment?: number; // Round prefix lengths down to a multiple of this many bits, e.g. 4 for nibbles
+}
+
+export interface VLSMAllocation {
+  name: string;
+  requestedHosts: number;
+  plannedHosts: number; // Including headroom
+  cidr: string;
+  prefixLength: number;
+  firstHost: string;
+  lastHost: string;
+  usableHosts: string;
+  wasted: string; // Usable addresses beyond the requested hosts
+}
+
+export interface VLSMPlan {
+  parent: string;
+  allocations: VLSMAllocation[];
+  unallocated: { name: string; requestedHosts: number; prefixLength: number | null; reason: string }[];
+  totalAddresses: string;
+  allocatedAddresses: string;
+  wastedAddresses: string;
+  freeAddresses: string;
+  free: string[]; // Unallocated space of the parent as prefixes
+}
+
+export type FirewallTarget = 'iptables' | 'nftables' | 'cisco' | 'pf' | 'aws' | 'nginx';
+
+export interface FirewallRuleRequest {
+  cidrs: string[]; // Prefixes or single addresses of either family
+  action?: 'allow' | 'deny';
+  targets?: FirewallTarget[]; // Defaults to every target
+  analysisId?: string; // Written into every rule comment
+  name?: string; // Table, set or ACL name
+}
+
+export interface FirewallRuleSet {
+  target: FirewallTarget;
+  format: 'text' | 'json';
+  rules: string;
+}
+
+export interface FirewallRules {
+  analysisId: string;
+  action: 'allow' | 'deny';
+  name: string;
+  ipv4: string[]; // Aggregated prefixes the rules cover
+  ipv6: string[];
+  rulesets: FirewallRuleSet[];
+  warnings: string[];
+}
+
+export interface ListMembership {
+  list: string;
+  cidr: string; // Most specific prefix of the list covering the address
+  prefixLength: number;
+  prefixes: string[]; // Every prefix of the list covering the address, most specific first
+}
+
+export interface MembershipResult {
+  ip: string;
+  valid: boolean;
+  lists: string[]; // Matching lists, most specific match first
+  matches: ListMembership[];
+  longestMatch: ListMembership | null;
+}
+
 export interface GeoLocation {
   country: string;
   countryCode: string;
@@ -98,6 +370,33 @@ export interface NetworkInfo {
   asn: number;
   asnOrganization: string;
   connectionType: 'residential' | 'business' | 'mobile' | 'hosting' | 'unknown';
+  cloud?: CloudProviderInfo;
+  annotation?: NetworkAnnotation;
+}
+
+export type TrustLevel = 'trusted' | 'partner' | 'neutral' | 'untrusted';
+
+/**
+ * User-defined label for an address range (office egress, VPN concentrators, partners)
+ */
+export interface NetworkAnnotation {
+  id: string;
+  cidr: string;
+  name: string;
+  owner?: string;
+  tags: string[];
+  trustLevel: TrustLevel;
+  // Replaces the geolocation result; omitted fields are reported as unknown
+  location?: Partial<GeoLocation>;
+  description?: string;
+}
+
+export interface CloudProviderInfo {
+  provider: string;
+  region?: string;
+  service?: string;
+  cidr: string;
+  label: string; // e.g. "AWS / us-east-1 / EC2"
 }
 
 export interface SecurityInfo {
@@ -108,5 +407,6 @@ export interface SecurityInfo {
   threatTypes: string[];
   riskScore: number;
   reputation: 'good' | 'neutral' | 'suspicious' | 'malicious';
+  firstSeen?: string;
   lastSeen?: string;
 }
@@ -0,0 +1,102 @@
+import { parseForwardedHeader, parseForwardedNode } from '../forwardedHeader';
+
+describe('parseForwardedHeader', () => {
+  // Examples from RFC 7239 sections 4, 6 and 7
+  describe('RFC 7239 examples', () => {
+    it('parses an obfuscated identifier', () => {
+      expect(parseForwardedHeader('for="_gazonk"')).toEqual([{ for: { type: 'obfuscated', value: '_gazonk' } }]);
+    });
+
+    it('parses a bracketed IPv6 address with a port, case-insensitively', () => {
+      expect(parseForwardedHeader('For="[2001:db8:cafe::17]:4711"')).toEqual([
+        { for: { type: 'ip', value: '2001:db8:cafe::17', port: '4711' } }
+      ]);
+    });
+
+    it('parses every parameter of an element', () => {
+      expect(parseForwardedHeader('for=192.0.2.60;proto=http;by=203.0.113.43')).toEqual([
+        {
+          for: { type: 'ip', value: '192.0.2.60' },
+          proto: 'http',
+          by: { type: 'ip', value: '203.0.113.43' }
+        }
+      ]);
+    });
+
+    it('parses a list of elements, oldest hop first', () => {
+      expect(parseForwardedHeader('for=192.0.2.43, for=198.51.100.17')).toEqual([
+        { for: { type: 'ip', value: '192.0.2.43' } },
+        { for: { type: 'ip', value: '198.51.100.17' } }
+      ]);
+    });
+
+    it('parses mixed address, unknown and obfuscated nodes', () => {
+      expect(parseForwardedHeader('for=192.0.2.43,for="[2001:db8:cafe::17]",for=unknown')).toEqual([
+        { for: { type: 'ip', value: '192.0.2.43' } },
+        { for: { type: 'ip', value: '2001:db8:cafe::17' } },
+        { for: { type: 'unknown', value: 'unknown' } }
+      ]);
+      expect(parseForwardedHeader('for=unknown, for="_hidden", for="_SEVKISEK"')).toEqual([
+        { for: { type: 'unknown', value: 'unknown' } },
+        { for: { type: 'obfuscated', value: '_hidden' } },
+        { for: { type: 'obfuscated', value: '_SEVKISEK' } }
+      ]);
+    });
+
+    it('parses obfuscated ports', () => {
+      expect(parseForwardedHeader('for="192.0.2.43:_p1";by="[2001:db8::1]:_9"')).toEqual([
+        {
+          for: { type: 'ip', value: '192.0.2.43', port: '_p1' },
+          by: { type: 'ip', value: '2001:db8::1', port: '_9' }
+        }
+      ]);
+    });
+  });
+
+  it('concatenates repeated headers in order', () => {
+    expect(parseForwardedHeader(['for=192.0.2.43', 'for=198.51.100.17;proto=https'])).toEqual([
+      { for: { type: 'ip', value: '192.0.2.43' } },
+      { for: { type: 'ip', value: '198.51.100.17' }, proto: 'https' }
+    ]);
+    expect(parseForwardedHeader(undefined)).toEqual([]);
+  });
+
+  it('keeps delimiters and escapes inside quoted strings', () => {
+    expect(parseForwardedHeader('for=192.0.2.43;host="example.com:8080";note="a,b;c \\"d\\""')).toEqual([
+      { for: { type: 'ip', value: '192.0.2.43' }, host: 'example.com:8080', extensions: { note: 'a,b;c "d"' } }
+    ]);
+  });
+
+  it('accepts unquoted bracketed and bare IPv6 leniently', () => {
+    expect(parseForwardedHeader('for=[2001:db8::1]:80, for=2001:db8::2')).toEqual([
+      { for: { type: 'ip', value: '2001:db8::1', port: '80' } },
+      { for: { type: 'ip', value: '2001:db8::2' } }
+    ]);
+  });
+
+  it('reports malformed and repeated pairs on their element', () => {
+    expect(parseForwardedHeader('for=192.0.2.43;for=192.0.2.44;proto;by="unterminated')).toEqual([
+      {
+        for: { type: 'ip', value: '192.0.2.43' },
+        errors: ['repeated parameter: for', 'malformed pair: proto', 'malformed pair: by="unterminated']
+      }
+    ]);
+  });
+
+  it('skips empty elements', () => {
+    expect(parseForwardedHeader('for=192.0.2.43,, ,')).toEqual([{ for: { type: 'ip', value: '192.0.2.43' } }]);
+  });
+});
+
+describe('parseForwardedNode', () => {
+  it.each([
+    ['192.0.2.43:8080', { type: 'ip', value: '192.0.2.43', port: '8080' }],
+    ['UNKNOWN', { type: 'unknown', value: 'unknown' }],
+    ['unknown:_port', { type: 'unknown', value: 'unknown', port: '_port' }],
+    ['[192.0.2.43]', { type: 'invalid', value: '[192.0.2.43]' }],
+    ['192.0.2.43:http', { type: 'invalid', value: '192.0.2.43:http' }],
+    ['example.com', { type: 'invalid', value: 'example.com' }]
+  ])('parses %s', (value, node) => {
+    expect(parseForwardedNode(value)).toEqual(node);
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  bigIntToIP,
+  cidrContains,
+  expandIPv6,
+  mergeRanges,
+  parseCIDR,
+  parseIP,
+  parseInetAton,
+  prefixMask,
+  rangeToCIDRs,
+  unmapIPv4
+} from '../ipAddress';
+
+const ALL_ONES = (1n << 128n) - 1n;
+
+describe('ipAddress', () => {
+  describe('parseIP and bigIntToIP', () => {
+    it.each([
+      ['192.0.2.1', 4, 0xc0000201n, '192.0.2.1'],
+      ['::', 6, 0n, '::'],
+      ['FFFF:FFFF:FFFF:FFFF:FFFF:FFFF:FFFF:FFFF', 6, ALL_ONES, 'ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff'],
+      ['2001:db8:0:0:1:0:0:1', 6, 0x20010db8000000000001000000000001n, '2001:db8::1:0:0:1'],
+      ['[2001:db8::1]', 6, 0x20010db8000000000000000000000001n, '2001:db8::1'],
+      ['fe80::1%eth0', 6, 0xfe800000000000000000000000000001n, 'fe80::1'],
+      ['::ffff:c000:201', 6, 0xffffc0000201n, '::ffff:192.0.2.1']
+    ])('parses %s', (address, version, value, formatted) => {
+      expect(parseIP(address)).toEqual({ version, value });
+      expect(bigIntToIP(value, version as 4 | 6)).toBe(formatted);
+    });
+
+    it.each(['1.2.3', '256.0.0.1', '2001:db8::g', '1::2::3', ''])('rejects %j', address => {
+      expect(parseIP(address)).toBeNull();
+    });
+
+    it('expands IPv6 addresses in full', () => {
+      expect(expandIPv6(0n)).toBe('0000:0000:0000:0000:0000:0000:0000:0000');
+      expect(expandIPv6(0x20010db8000000000000000000000001n)).toBe('2001:0db8:0000:0000:0000:0000:0000:0001');
+    });
+
+    it('unmaps only IPv4-mapped addresses', () => {
+      expect(unmapIPv4({ version: 6, value: 0xffffc0000201n })).toEqual({ version: 4, value: 0xc0000201n });
+      // IPv4-compatible (::a.b.c.d) and NAT64 addresses keep their family
+      expect(unmapIPv4({ version: 6, value: 0xc0000201n })).toEqual({ version: 6, value: 0xc0000201n });
+      expect(unmapIPv4({ version: 4, value: 0xffffn })).toEqual({ version: 4, value: 0xffffn });
+    });
+  });
+
+  describe('parseInetAton', () => {
+    it.each([
+      ['127.1', 0x7f000001n],
+      ['0x7f.1', 0x7f000001n],
+      ['0177.0.0.01', 0x7f000001n],
+      ['2130706433', 0x7f000001n],
+      ['10.1.65535', 0x0a01ffffn],
+      ['0', 0n]
+    ])('reads %s', (address, value) => {
+      expect(parseInetAton(address)?.value).toBe(value);
+    });
+
+    it.each(['256.1', '1.2.3.4.5', '4294967296', '10.65536.1', '08', '1..2'])('rejects %s', address => {
+      expect(parseInetAton(address)).toBeNull();
+    });
+  });
+
+  describe('parseCIDR', () => {
+    it('clears host bits unless strict', () => {
+      expect(parseCIDR('192.0.2.77/24')).toEqual({
+        version: 4,
+        prefixLength: 24,
+        network: 0xc0000200n,
+        broadcast: 0xc00002ffn
+      });
+      expect(() => parseCIDR('192.0.2.77/24', true)).toThrow(
+        '192.0.2.77/24 has host bits set (network is 192.0.2.0/24)'
+      );
+    });
+
+    it('covers the whole address space at /0 and a single address without a prefix', () => {
+      expect(parseCIDR('::/0')).toEqual({ version: 6, prefixLength: 0, network: 0n, broadcast: ALL_ONES });
+      expect(parseCIDR('0.0.0.0/0')).toEqual({ version: 4, prefixLength: 0, network: 0n, broadcast: 0xffffffffn });
+      expect(parseCIDR('ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff')).toEqual({
+        version: 6,
+        prefixLength: 128,
+        network: ALL_ONES,
+        broadcast: ALL_ONES
+      });
+    });
+
+    it.each([
+      ['10.0.0.0/33', 'Invalid prefix length in 10.0.0.0/33: must be between 0 and 32'],
+      ['10.0.0.0/', 'Invalid prefix length in 10.0.0.0/: must be between 0 and 32'],
+      ['::/129', 'Invalid prefix length in ::/129: must be between 0 and 128'],
+      ['::/-1', 'Invalid prefix length in ::/-1: must be between 0 and 128'],
+      ['10.0.0.0/8/8', 'Invalid CIDR notation: 10.0.0.0/8/8'],
+      ['10.0.0/8', 'Invalid CIDR notation: 10.0.0/8']
+    ])('rejects %s', (cidr, message) => {
+      expect(() => parseCIDR(cidr)).toThrow(message);
+    });
+
+    it('builds masks at both ends of the prefix range', () => {
+      expect(prefixMask(0, 6)).toBe(0n);
+      expect(prefixMask(128, 6)).toBe(ALL_ONES);
+      expect(prefixMask(24, 4)).toBe(0xffffff00n);
+    });
+
+    it('matches IPv4-mapped addresses against IPv4 prefixes only', () => {
+      const mapped = parseIP('::ffff:10.1.2.3');
+      const ipv4 = parseIP('10.1.2.3');
+      if (!mapped || !ipv4) throw new Error('Invalid test address');
+
+      expect(cidrContains(parseCIDR('10.0.0.0/8'), mapped)).toBe(true);
+      expect(cidrContains(parseCIDR('::ffff:0:0/96'), mapped)).toBe(true);
+      expect(cidrContains(parseCIDR('::ffff:0:0/96'), ipv4)).toBe(false);
+      expect(cidrContains(parseCIDR('::/0'), ipv4)).toBe(false);
+    });
+  });
+
+  describe('rangeToCIDRs', () => {
+    const cidrs = (start: bigint, end: bigint, version: 4 | 6): string[] =>
+      rangeToCIDRs(start, end, version).map(
+        ({ network, prefixLength }) => `${bigIntToIP(network, version)}/${prefixLength}`
+      );
+
+    it('covers an unaligned range with the fewest prefixes', () => {
+      expect(cidrs(0x0a000001n, 0x0a00000an, 4)).toEqual([
+        '10.0.0.1/32',
+        '10.0.0.2/31',
+        '10.0.0.4/30',
+        '10.0.0.8/31',
+        '10.0.0.10/32'
+      ]);
+    });
+
+    it('handles the ends of the address space', () => {
+      expect(cidrs(0n, 0xffffffffn, 4)).toEqual(['0.0.0.0/0']);
+      expect(cidrs(0n, ALL_ONES, 6)).toEqual(['::/0']);
+      expect(cidrs(0n, 0n, 6)).toEqual(['::/128']);
+      expect(cidrs(ALL_ONES, ALL_ONES, 6)).toEqual(['ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff/128']);
+      expect(cidrs(1n, ALL_ONES, 6)).toHaveLength(128);
+    });
+
+    it('returns nothing for an empty range', () => {
+      expect(rangeToCIDRs(2n, 1n, 4)).toEqual([]);
+    });
+  });
+
+  describe('mergeRanges', () => {
+    it('merges overlapping and touching ranges per family, IPv4 first', () => {
+      expect(
+        mergeRanges([
+          { version: 6, start: 6n, end: 10n },
+          { version: 4, start: 10n, end: 20n },
+          { version: 4, start: 21n, end: 30n },
+          { version: 4, start: 0n, end: 5n },
+          { version: 4, start: 3n, end: 8n },
+          { version: 4, start: 12n, end: 15n },
+          { version: 6, start: 0n, end: 5n }
+        ])
+      ).toEqual([
+        { version: 4, start: 0n, end: 8n },
+        { version: 4, start: 10n, end: 30n },
+        { version: 6, start: 0n, end: 10n }
+      ]);
+    });
+
+    it('does not merge across families or modify its input', () => {
+      const input = [
+        { version: 4 as const, start: 0n, end: 0xffffffffn },
+        { version: 6 as const, start: 0x100000000n, end: ALL_ONES },
+        { version: 6 as const, start: 0n, end: 0xffffffffn }
+      ];
+
+      expect(mergeRanges(input)).toEqual([
+        { version: 4, start: 0n, end: 0xffffffffn },
+        { version: 6, start: 0n, end: ALL_ONES }
+      ]);
+      expect(input[2]).toEqual({ version: 6, start: 0n, end: 0xffffffffn });
+    });
+  });
+});
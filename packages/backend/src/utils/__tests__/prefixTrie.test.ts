@@ -0,0 +1,124 @@
+import { PrefixTrie, prefixEntry } from '../prefixTrie';
+
+const LISTS: [string, string][] = [
+  ['0.0.0.0/0', 'default'],
+  ['10.0.0.0/8', 'corporate'],
+  ['10.1.0.0/16', 'office'],
+  ['10.1.2.0/24', 'lab'],
+  ['10.1.2.128/25', 'lab-dmz'],
+  ['10.1.2.200/32', 'printer'],
+  ['10.2.0.0/16', 'vpn'],
+  ['10.1.0.0/16', 'office-wifi'],
+  ['2001:db8::/32', 'documentation'],
+  ['2001:db8:1::/48', 'site'],
+  ['2001:db8:1:2::/64', 'subnet']
+];
+
+describe('PrefixTrie', () => {
+  const trie = PrefixTrie.build(LISTS.map(([cidr, name]) => prefixEntry(cidr, name)));
+
+  const longest = (ipAddress: string): string[] | undefined => trie.longestMatch(ipAddress)?.values;
+
+  it('returns the most specific prefix covering an address', () => {
+    expect(longest('10.1.2.200')).toEqual(['printer']);
+    expect(longest('10.1.2.201')).toEqual(['lab-dmz']);
+    expect(longest('10.1.2.1')).toEqual(['lab']);
+    expect(longest('10.1.3.1')).toEqual(['office', 'office-wifi']);
+    expect(longest('10.2.255.255')).toEqual(['vpn']);
+    expect(longest('10.3.0.1')).toEqual(['corporate']);
+    expect(longest('192.0.2.1')).toEqual(['default']);
+  });
+
+  it('returns every covering prefix, least specific first', () => {
+    expect(trie.matches('10.1.2.200').map(match => [match.prefixLength, match.values])).toEqual([
+      [0, ['default']],
+      [8, ['corporate']],
+      [16, ['office', 'office-wifi']],
+      [24, ['lab']],
+      [25, ['lab-dmz']],
+      [32, ['printer']]
+    ]);
+  });
+
+  it('keeps the address families apart', () => {
+    expect(longest('2001:db8:1:2::1')).toEqual(['subnet']);
+    expect(longest('2001:db8:1:3::1')).toEqual(['site']);
+    expect(longest('2001:db8:2::1')).toEqual(['documentation']);
+    expect(trie.longestMatch('2001:db9::1')).toBeNull();
+  });
+
+  it('looks up IPv4-mapped addresses in the IPv4 tree', () => {
+    expect(longest('::ffff:10.1.2.1')).toEqual(['lab']);
+  });
+
+  it('stores IPv4-mapped prefixes in the IPv4 tree', () => {
+    const mapped = PrefixTrie.build([
+      prefixEntry('::ffff:10.0.0.0/104', 'mapped'),
+      prefixEntry('::ffff:0:0/95', 'wide')
+    ]);
+
+    expect(mapped.longestMatch('10.1.2.3')).toEqual({
+      version: 4,
+      network: 0x0a000000n,
+      prefixLength: 8,
+      values: ['mapped']
+    });
+    expect(mapped.longestMatch('::ffff:10.1.2.3')?.values).toEqual(['mapped']);
+    // A prefix shorter than /96 is not entirely IPv4-mapped and stays IPv6
+    expect(mapped.longestMatch('::fffe:0:1')?.values).toEqual(['wide']);
+  });
+
+  it('returns nothing for invalid addresses', () => {
+    expect(trie.matches('not an address')).toEqual([]);
+    expect(trie.longestMatch('10.1.2')).toBeNull();
+  });
+
+  it('builds the same tree whatever the insertion order', () => {
+    const reversed = PrefixTrie.build([...LISTS].reverse().map(([cidr, name]) => prefixEntry(cidr, name)));
+
+    for (const address of ['10.1.2.200', '10.1.2.130', '10.1.9.9', '10.2.0.1', '2001:db8:1:2::5']) {
+      expect(reversed.longestMatch(address)?.prefixLength).toBe(trie.longestMatch(address)?.prefixLength);
+    }
+    expect(reversed.size).toBe(LISTS.length);
+  });
+
+  it('splits branches where sibling prefixes diverge', () => {
+    const siblings = PrefixTrie.build([prefixEntry('192.168.0.0/24', 'a'), prefixEntry('192.168.1.0/24', 'b')]);
+
+    expect(siblings.longestMatch('192.168.0.9')?.values).toEqual(['a']);
+    expect(siblings.longestMatch('192.168.1.9')?.values).toEqual(['b']);
+    expect(siblings.longestMatch('192.168.2.9')).toBeNull();
+  });
+
+  it('matches a brute-force scan on random prefixes', () => {
+    // Deterministic pseudo-random numbers so a failure can be reproduced
+    let seed = 42;
+    const random = (limit: number): number => {
+      seed = (seed * 48271) % 2147483647;
+      return seed % limit;
+    };
+    const address = (): number => random(2 ** 16) * 2 ** 16 + random(2 ** 16);
+    const format = (value: number): string =>
+      [24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) % 256).join('.');
+
+    const prefixes = Array.from({ length: 500 }, () => ({ network: address(), prefixLength: 8 + random(25) }));
+    const randomTrie = PrefixTrie.build(
+      prefixes.map(({ network, prefixLength }) => prefixEntry(`${format(network)}/${prefixLength}`, prefixLength))
+    );
+    const covers = (network: number, prefixLength: number, value: number): boolean =>
+      Math.floor(network / 2 ** (32 - prefixLength)) === Math.floor(value / 2 ** (32 - prefixLength));
+
+    for (let probe = 0; probe < 2000; probe++) {
+      // Half the probes fall inside a listed prefix
+      const value = probe % 2 === 0 ? address() : (prefixes[random(prefixes.length)]?.network ?? 0);
+      const expected = Math.max(
+        -1,
+        ...prefixes
+          .filter(prefix => covers(prefix.network, prefix.prefixLength, value))
+          .map(prefix => prefix.prefixLength)
+      );
+
+      expect(randomTrie.longestMatch(format(value))?.prefixLength ?? -1).toBe(expected);
+    }
+  });
+});
@@ -0,0 +1,196 @@
+import { parseProxyHeader } from '../proxyProtocol';
+
+const SIGNATURE = '0d0a0d0a000d0a515549540a';
+
+const hex = (value: string): Buffer => Buffer.from(value.replace(/\s+/g, ''), 'hex');
+
+const tlv = (type: number, value: Buffer | string): Buffer => {
+  const data = typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+  const header = Buffer.alloc(3);
+  header.writeUInt8(type, 0);
+  header.writeUInt16BE(data.length, 1);
+  return Buffer.concat([header, data]);
+};
+
+// v2 header: signature, version/command, family/protocol and payload length
+const v2 = (versionCommand: number, familyProtocol: number, payload: Buffer): Buffer => {
+  const header = Buffer.alloc(4);
+  header.writeUInt8(versionCommand, 0);
+  header.writeUInt8(familyProtocol, 1);
+  header.writeUInt16BE(payload.length, 2);
+  return Buffer.concat([hex(SIGNATURE), header, payload]);
+};
+
+// 192.0.2.1:12345 -> 198.51.100.1:443
+const IPV4_ADDRESSES = hex('c0000201 c6336401 3039 01bb');
+
+describe('parseProxyHeader', () => {
+  it('returns absent for data without a PROXY signature', () => {
+    expect(parseProxyHeader(Buffer.from('GET / HTTP/1.1\r\n'))).toEqual({ status: 'absent' });
+  });
+
+  describe('v1', () => {
+    it('parses a TCP4 header and reports its length', () => {
+      const header = 'PROXY TCP4 192.0.2.1 198.51.100.1 56324 443\r\n';
+      const result = parseProxyHeader(Buffer.from(`${header}GET / HTTP/1.1\r\n`));
+
+      expect(result).toEqual({
+        status: 'parsed',
+        length: header.length,
+        info: {
+          version: 1,
+          command: 'PROXY',
+          transport: 'TCP4',
+          sourceAddress: '192.0.2.1',
+          sourcePort: 56324,
+          destinationAddress: '198.51.100.1',
+          destinationPort: 443,
+          tlvs: []
+        }
+      });
+    });
+
+    it('parses a TCP6 header', () => {
+      const result = parseProxyHeader(Buffer.from('PROXY TCP6 2001:db8::1 2001:db8::2 4000 80\r\n'));
+      expect(result).toMatchObject({
+        status: 'parsed',
+        info: { transport: 'TCP6', sourceAddress: '2001:db8::1', destinationAddress: '2001:db8::2' }
+      });
+    });
+
+    it('ignores addresses after UNKNOWN', () => {
+      const result = parseProxyHeader(Buffer.from('PROXY UNKNOWN ffff::1 ffff::2 1 2\r\n'));
+      expect(result).toMatchObject({ status: 'parsed', info: { transport: 'UNKNOWN' } });
+      expect(result).not.toHaveProperty('info.sourceAddress');
+    });
+
+    it('waits for the rest of a partial header', () => {
+      expect(parseProxyHeader(Buffer.from('PRO'))).toEqual({ status: 'incomplete' });
+      expect(parseProxyHeader(Buffer.from('PROXY TCP4 192.0.2.1'))).toEqual({ status: 'incomplete' });
+    });
+
+    it.each([
+      ['an address of the wrong family', 'PROXY TCP4 2001:db8::1 198.51.100.1 1 2\r\n'],
+      ['a port out of range', 'PROXY TCP4 192.0.2.1 198.51.100.1 65536 443\r\n'],
+      ['an unsupported transport', 'PROXY UDP4 192.0.2.1 198.51.100.1 1 2\r\n'],
+      ['extra fields', 'PROXY TCP4 192.0.2.1 198.51.100.1 1 2 3\r\n'],
+      ['no terminator within 107 bytes', `PROXY TCP4 ${'1'.repeat(120)}`]
+    ])('rejects %s', (_case, header) => {
+      expect(() => parseProxyHeader(Buffer.from(header))).toThrow();
+    });
+  });
+
+  describe('v2', () => {
+    it('parses a TCP4 header', () => {
+      const header = v2(0x21, 0x11, IPV4_ADDRESSES);
+      const result = parseProxyHeader(Buffer.concat([header, Buffer.from('GET /')]));
+
+      expect(result).toEqual({
+        status: 'parsed',
+        length: header.length,
+        info: {
+          version: 2,
+          command: 'PROXY',
+          transport: 'TCP4',
+          sourceAddress: '192.0.2.1',
+          sourcePort: 12345,
+          destinationAddress: '198.51.100.1',
+          destinationPort: 443,
+          tlvs: []
+        }
+      });
+    });
+
+    it('parses a UDP6 header', () => {
+      const addresses = hex('20010db8000000000000000000000001 20010db8000000000000000000000002 0035 0035');
+      expect(parseProxyHeader(v2(0x21, 0x22, addresses))).toMatchObject({
+        status: 'parsed',
+        info: { transport: 'UDP6', sourceAddress: '2001:db8::1', destinationAddress: '2001:db8::2', sourcePort: 53 }
+      });
+    });
+
+    it('reports no addresses for LOCAL connections', () => {
+      const result = parseProxyHeader(v2(0x20, 0x00, Buffer.alloc(0)));
+      expect(result).toEqual({
+        status: 'parsed',
+        length: 16,
+        info: { version: 2, command: 'LOCAL', transport: 'UNKNOWN', tlvs: [] }
+      });
+    });
+
+    it('decodes TLVs', () => {
+      const azureLink = Buffer.alloc(5);
+      azureLink.writeUInt8(0x01, 0);
+      azureLink.writeUInt32LE(0x01020304, 1);
+
+      const payload = Buffer.concat([
+        IPV4_ADDRESSES,
+        tlv(0x01, 'h2'),
+        tlv(0x02, 'example.com'),
+        tlv(0x04, Buffer.alloc(4)),
+        tlv(0x05, 'request-1'),
+        tlv(0xea, Buffer.concat([Buffer.from([0x01]), Buffer.from('vpce-08d2bf15fac5001c9')])),
+        tlv(0xee, azureLink),
+        tlv(0xe0, Buffer.from([0xde, 0xad]))
+      ]);
+      const result = parseProxyHeader(v2(0x21, 0x11, payload));
+      if (result.status !== 'parsed') throw new Error(`Expected a parsed header, got ${result.status}`);
+
+      expect(result.info).toMatchObject({
+        alpn: 'h2',
+        authority: 'example.com',
+        // Unique IDs are opaque bytes
+        uniqueId: Buffer.from('request-1').toString('hex'),
+        awsVpcEndpointId: 'vpce-08d2bf15fac5001c9',
+        azureLinkId: 0x01020304
+      });
+      // NOOP padding is dropped, unknown types are kept as hex
+      expect(result.info.tlvs.map(({ name, value }) => [name, value])).toEqual([
+        ['ALPN', 'h2'],
+        ['AUTHORITY', 'example.com'],
+        ['UNIQUE_ID', Buffer.from('request-1').toString('hex')],
+        ['AWS', 'vpce-08d2bf15fac5001c9'],
+        ['AZURE', String(0x01020304)],
+        ['0xe0', 'dead']
+      ]);
+    });
+
+    it('decodes the SSL TLV and its sub-TLVs', () => {
+      const ssl = Buffer.concat([
+        hex('07 00000000'),
+        tlv(0x21, 'TLSv1.3'),
+        tlv(0x22, 'client.example'),
+        tlv(0x23, 'TLS_AES_128_GCM_SHA256')
+      ]);
+      const result = parseProxyHeader(v2(0x21, 0x11, Buffer.concat([IPV4_ADDRESSES, tlv(0x20, ssl)])));
+
+      expect(result.status === 'parsed' && result.info.ssl).toEqual({
+        connectedWithSSL: true,
+        certificateInConnection: true,
+        certificateInSession: true,
+        verified: true,
+        version: 'TLSv1.3',
+        commonName: 'client.example',
+        cipher: 'TLS_AES_128_GCM_SHA256'
+      });
+    });
+
+    it('waits for the rest of a partial header', () => {
+      const header = v2(0x21, 0x11, IPV4_ADDRESSES);
+      expect(parseProxyHeader(header.subarray(0, 8))).toEqual({ status: 'incomplete' });
+      expect(parseProxyHeader(header.subarray(0, 20))).toEqual({ status: 'incomplete' });
+    });
+
+    it('rejects unsupported versions and commands', () => {
+      expect(() => parseProxyHeader(v2(0x11, 0x11, IPV4_ADDRESSES))).toThrow('Unsupported PROXY protocol version 1');
+      expect(() => parseProxyHeader(v2(0x22, 0x11, IPV4_ADDRESSES))).toThrow('Unsupported PROXY protocol v2 command 2');
+    });
+
+    it('rejects truncated address blocks and TLVs', () => {
+      expect(() => parseProxyHeader(v2(0x21, 0x21, IPV4_ADDRESSES))).toThrow('address block is truncated');
+      expect(() => parseProxyHeader(v2(0x21, 0x11, Buffer.concat([IPV4_ADDRESSES, hex('01 0005 6832')])))).toThrow(
+        'TLV 0x1 is truncated'
+      );
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { IPVersion, bigIntToIP, mapIPv4 } from '../ipAddress';
+import { RangeIndex, cidrEntry, rangeEntry } from '../rangeIndex';
+
+const ALL_ONES = 'ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff';
+
+const segments = (index: RangeIndex<string>, version: IPVersion): [string, string, string][] =>
+  [...index.entries(version)].map(({ start, end, value }) => [
+    bigIntToIP(start, version),
+    bigIntToIP(end, version),
+    value
+  ]);
+
+describe('RangeIndex', () => {
+  describe('nested and overlapping ranges', () => {
+    const index = RangeIndex.build([
+      rangeEntry('10.0.1.50', '10.0.1.149', 'second'),
+      rangeEntry('10.0.0.20', '10.0.0.20', 'host'),
+      rangeEntry('10.0.0.0', '10.0.0.255', 'outer'),
+      rangeEntry('10.0.1.0', '10.0.1.99', 'first'),
+      rangeEntry('10.0.0.16', '10.0.0.31', 'inner')
+    ]);
+
+    it('lets a nested range win and resumes the outer range after it', () => {
+      expect(index.lookup('10.0.0.15')).toBe('outer');
+      expect(index.lookup('10.0.0.16')).toBe('inner');
+      expect(index.lookup('10.0.0.20')).toBe('host');
+      expect(index.lookup('10.0.0.21')).toBe('inner');
+      expect(index.lookup('10.0.0.31')).toBe('inner');
+      expect(index.lookup('10.0.0.32')).toBe('outer');
+      expect(index.lookup('10.0.0.255')).toBe('outer');
+    });
+
+    it('lets a range that starts inside another take over from its start', () => {
+      expect(index.lookup('10.0.1.49')).toBe('first');
+      expect(index.lookup('10.0.1.50')).toBe('second');
+      expect(index.lookup('10.0.1.99')).toBe('second');
+      expect(index.lookup('10.0.1.149')).toBe('second');
+      expect(index.lookup('10.0.1.150')).toBeNull();
+      expect(index.lookup('9.255.255.255')).toBeNull();
+    });
+
+    it('flattens the ranges into ordered, non-overlapping segments', () => {
+      expect(segments(index, 4)).toEqual([
+        ['10.0.0.0', '10.0.0.15', 'outer'],
+        ['10.0.0.16', '10.0.0.19', 'inner'],
+        ['10.0.0.20', '10.0.0.20', 'host'],
+        ['10.0.0.21', '10.0.0.31', 'inner'],
+        ['10.0.0.32', '10.0.0.255', 'outer'],
+        ['10.0.1.0', '10.0.1.49', 'first'],
+        ['10.0.1.50', '10.0.1.149', 'second']
+      ]);
+      expect(index.size).toEqual({ 4: 7, 6: 0 });
+    });
+  });
+
+  it('merges contiguous segments carrying the same value', () => {
+    const index = RangeIndex.build([
+      rangeEntry('192.0.2.0', '192.0.2.127', 'documentation'),
+      rangeEntry('192.0.2.128', '192.0.2.255', 'documentation'),
+      cidrEntry('192.0.2.64/26', 'documentation')
+    ]);
+
+    expect(segments(index, 4)).toEqual([['192.0.2.0', '192.0.2.255', 'documentation']]);
+  });
+
+  it('looks up IPv4-mapped addresses in the IPv4 table', () => {
+    const index = RangeIndex.build([cidrEntry('10.0.0.0/8', 'corporate'), cidrEntry('::/0', 'default')]);
+
+    expect(index.lookup('::ffff:10.1.2.3')).toBe('corporate');
+    expect(index.lookup('::ffff:a01:203')).toBe('corporate');
+    // ::/0 covers the mapped block in the IPv6 table, but mapped lookups never reach it
+    expect(index.lookup('::ffff:192.0.2.1')).toBeNull();
+    expect(index.lookupValue(6, mapIPv4(0xc0000201n))).toBe('default');
+  });
+
+  it('handles the ends of the IPv6 address space', () => {
+    const index = RangeIndex.build([
+      cidrEntry('::/0', 'default'),
+      cidrEntry('::/128', 'unspecified'),
+      cidrEntry('2001:db8::/32', 'documentation'),
+      rangeEntry('ffff:ffff:ffff:ffff:ffff:ffff:ffff:fffe', ALL_ONES, 'top')
+    ]);
+
+    expect(index.lookup('::')).toBe('unspecified');
+    expect(index.lookup('::1')).toBe('default');
+    expect(index.lookup('2001:db8::')).toBe('documentation');
+    expect(index.lookup('2001:db8:ffff:ffff:ffff:ffff:ffff:ffff')).toBe('documentation');
+    expect(index.lookup('2001:db9::')).toBe('default');
+    expect(index.lookup('ffff:ffff:ffff:ffff:ffff:ffff:ffff:fffd')).toBe('default');
+    expect(index.lookup(ALL_ONES)).toBe('top');
+    expect(segments(index, 6)).toEqual([
+      ['::', '::', 'unspecified'],
+      ['::1', '2001:db7:ffff:ffff:ffff:ffff:ffff:ffff', 'default'],
+      ['2001:db8::', '2001:db8:ffff:ffff:ffff:ffff:ffff:ffff', 'documentation'],
+      ['2001:db9::', 'ffff:ffff:ffff:ffff:ffff:ffff:ffff:fffd', 'default'],
+      ['ffff:ffff:ffff:ffff:ffff:ffff:ffff:fffe', ALL_ONES, 'top']
+    ]);
+  });
+
+  it('keeps the address families apart', () => {
+    const index = RangeIndex.build([cidrEntry('0.0.0.0/0', 'ipv4'), cidrEntry('2001:db8::/32', 'ipv6')]);
+
+    expect(index.lookup('255.255.255.255')).toBe('ipv4');
+    expect(index.lookup('::1')).toBeNull();
+    expect(index.lookupValue(4, 1n)).toBe('ipv4');
+    expect(index.size).toEqual({ 4: 1, 6: 1 });
+  });
+
+  it('returns null for invalid addresses and empty indexes', () => {
+    expect(RangeIndex.build([cidrEntry('0.0.0.0/0', 'any')]).lookup('not-an-ip')).toBeNull();
+    expect(RangeIndex.empty<string>().lookup('10.0.0.1')).toBeNull();
+    expect(RangeIndex.empty<string>().size).toEqual({ 4: 0, 6: 0 });
+  });
+
+  it('rejects ranges that end before they start', () => {
+    expect(() => RangeIndex.build([{ version: 4, start: 10n, end: 9n, value: 'backwards' }])).toThrow(
+      'Invalid range: end is before start (10 > 9)'
+    );
+  });
+
+  it.each([
+    ['10.0.0.1', '::1'],
+    ['10.0.0.1', 'not-an-ip']
+  ])('rejects the range %s - %s', (startIP, endIP) => {
+    expect(() => rangeEntry(startIP, endIP, 'invalid')).toThrow(`Invalid address range: ${startIP} - ${endIP}`);
+  });
+});
@@ -0,0 +1,143 @@
+import { ForwardedElement, ForwardedNode } from '@/types/ip';
+import { isIP } from 'net';
+
+// RFC 7230 token characters
+const TOKEN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+// Unquoted values should be tokens, but proxies commonly send bracketed or bare IPv6 unquoted
+const LENIENT_VALUE = /^[^\s",;\\]+$/;
+// RFC 7239 obfnode / obfport: "_" followed by ALPHA, DIGIT, ".", "_", "-"
+const OBFUSCATED = /^_[A-Za-z0-9._-]+$/;
+const PORT = /^\d{1,5}$/;
+
+/**
+ * Parse RFC 7239 Forwarded header values into elements, oldest hop first. Repeated
+ * headers are concatenated in order, like a single comma-separated list. Pairs that
+ * cannot be parsed are reported on their element instead of failing the whole header.
+ */
+export const parseForwardedHeader = (values: string | string[] | undefined): ForwardedElement[] => {
+  const headers = Array.isArray(values) ? values : values !== undefined ? [values] : [];
+  return headers.flatMap(header => splitUnquoted(header, ',')).flatMap(element => {
+    if (element.trim() === '') return [];
+    return [parseElement(element)];
+  });
+};
+
+/**
+ * Parse a node (for= or by= value): an address with an optional port, "unknown" or an
+ * obfuscated identifier. IPv6 addresses are bracketed; bare IPv6 is accepted leniently.
+ */
+export const parseForwardedNode = (value: string): ForwardedNode => {
+  if (value.toLowerCase() === 'unknown') return { type: 'unknown', value: 'unknown' };
+
+  const bracketed = value.match(/^\[([^\]]+)\](?::(.+))?$/);
+  const [host, port] = bracketed
+    ? [bracketed[1] ?? '', bracketed[2]]
+    : isIP(value) === 6
+      ? [value, undefined]
+      : splitPort(value);
+
+  if (bracketed && isIP(host) !== 6) return { type: 'invalid', value };
+  if (port !== undefined && !PORT.test(port) && !OBFUSCATED.test(port)) return { type: 'invalid', value };
+
+  const node: ForwardedNode =
+    isIP(host) !== 0
+      ? { type: 'ip', value: host }
+      : host.toLowerCase() === 'unknown'
+        ? { type: 'unknown', value: 'unknown' }
+        : OBFUSCATED.test(host)
+          ? { type: 'obfuscated', value: host }
+          : { type: 'invalid', value };
+
+  return node.type !== 'invalid' && port !== undefined ? { ...node, port } : node;
+};
+
+// Internal helpers
+
+function parseElement(element: string): ForwardedElement {
+  const parsed: ForwardedElement = {};
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const pair of splitUnquoted(element, ';')) {
+    if (pair.trim() === '') continue;
+
+    const separator = pair.indexOf('=');
+    const name = pair.slice(0, separator).trim().toLowerCase();
+    const value = separator === -1 ? null : unquote(pair.slice(separator + 1).trim());
+
+    if (separator === -1 || !TOKEN.test(name) || value === null) {
+      errors.push(`malformed pair: ${pair.trim()}`);
+      continue;
+    }
+    if (seen.has(name)) {
+      errors.push(`repeated parameter: ${name}`);
+      continue;
+    }
+    seen.add(name);
+
+    switch (name) {
+      case 'for':
+        parsed.for = parseForwardedNode(value);
+        break;
+      case 'by':
+        parsed.by = parseForwardedNode(value);
+        break;
+      case 'proto':
+        parsed.proto = value.toLowerCase();
+        break;
+      case 'host':
+        parsed.host = value;
+        break;
+      default:
+        parsed.extensions = { ...parsed.extensions, [name]: value };
+    }
+  }
+
+  return errors.length > 0 ? { ...parsed, errors } : parsed;
+}
+
+/**
+ * Split on a delimiter outside quoted strings
+ */
+function splitUnquoted(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index] ?? '';
+
+    if (quoted && char === '\\') {
+      current += char + (value[index + 1] ?? '');
+      index++;
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+
+    if (char === delimiter && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Value of a token or quoted-string, null when it is neither
+ */
+function unquote(value: string): string | null {
+  if (value.startsWith('"')) {
+    if (value.length < 2 || !value.endsWith('"')) return null;
+    return value.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return LENIENT_VALUE.test(value) ? value : null;
+}
+
+function splitPort(value: string): [string, string | undefined] {
+  const separator = value.lastIndexOf(':');
+  return separator === -1 ? [value, undefined] : [value.slice(0, separator), value.slice(separator + 1)];
+}
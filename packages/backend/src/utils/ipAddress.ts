@@ -0,0 +1,294 @@
+import { isIP } from 'net';
+
+/**
+ * BigInt-based helpers shared by every service that does address arithmetic.
+ * IPv4 and IPv6 are handled uniformly: an address is its family plus an
+ * unsigned integer value of 32 or 128 bits.
+ */
+
+export type IPVersion = 4 | 6;
+
+export interface ParsedIP {
+  version: IPVersion;
+  value: bigint;
+}
+
+export interface ParsedCIDR {
+  version: IPVersion;
+  prefixLength: number;
+  network: bigint;
+  broadcast: bigint;
+}
+
+/**
+ * Inclusive span of addresses of one family, not necessarily aligned to a prefix
+ */
+export interface AddressRange {
+  version: IPVersion;
+  start: bigint;
+  end: bigint;
+}
+
+export const ADDRESS_BITS: Record<IPVersion, number> = { 4: 32, 6: 128 };
+
+const IPV4_MAPPED_PREFIX = 0xffffn << 32n;
+// Decimal, hex or octal number as inet_aton reads it
+const INET_ATON_PART = /^(?:0x[0-9a-f]+|0[0-7]*|[1-9][0-9]*)$/i;
+
+/**
+ * Parse an IPv4 or IPv6 address into its numeric value.
+ * Returns null for anything that is not a valid address.
+ */
+export const parseIP = (address: string): ParsedIP | null => {
+  const candidate = stripZone(address.trim().replace(/^\[|\]$/g, ''));
+  const version = isIP(candidate);
+
+  if (version === 4) {
+    return { version: 4, value: ipv4ToBigInt(candidate) };
+  }
+  if (version === 6) {
+    return { version: 6, value: ipv6ToBigInt(candidate) };
+  }
+  return null;
+};
+
+/**
+ * Parse an IPv4 address the way inet_aton(3) does: one to four dot-separated parts,
+ * each decimal, hex (0x) or octal (leading 0), the last part filling the remaining bytes.
+ * Accepts forms such as 127.1, 0x7f.1 and 2130706433 that parseIP rejects.
+ */
+export const parseInetAton = (address: string): { value: bigint; parts: string[] } | null => {
+  const parts = address.trim().split('.');
+  if (parts.length > 4 || !parts.every(part => INET_ATON_PART.test(part))) {
+    return null;
+  }
+
+  const values = parts.map(part =>
+    /^0x/i.test(part)
+      ? BigInt(part)
+      : part.length > 1 && part.startsWith('0')
+        ? BigInt(`0o${part.slice(1)}`)
+        : BigInt(part)
+  );
+  const lastBits = BigInt(8 * (5 - parts.length));
+  const last = values[values.length - 1] ?? 0n;
+
+  if (values.slice(0, -1).some(value => value > 0xffn) || last >= 1n << lastBits) {
+    return null;
+  }
+
+  const value = values.slice(0, -1).reduce((acc, part, index) => acc | (part << BigInt(24 - index * 8)), last);
+  return { value, parts };
+};
+
+/**
+ * Parse an address, throwing on invalid input
+ */
+export const ipToBigInt = (address: string): ParsedIP => {
+  const parsed = parseIP(address);
+  if (!parsed) {
+    throw new Error(`Invalid IP address: ${address}`);
+  }
+  return parsed;
+};
+
+/**
+ * Format a numeric address. IPv6 output is the RFC 5952 canonical form.
+ */
+export const bigIntToIP = (value: bigint, version: IPVersion): string => {
+  if (version === 4) {
+    return [24n, 16n, 8n, 0n].map(shift => ((value >> shift) & 0xffn).toString()).join('.');
+  }
+  if (value >> 32n === 0xffffn) {
+    // RFC 5952 section 5: IPv4-mapped addresses keep the dotted quad
+    return `::ffff:${bigIntToIP(value & 0xffffffffn, 4)}`;
+  }
+  return compressIPv6(ipv6Hextets(value));
+};
+
+/**
+ * Fully expanded IPv6 form, e.g. 2001:0db8:0000:0000:0000:0000:0000:0001
+ */
+export const expandIPv6 = (value: bigint): string =>
+  ipv6Hextets(value)
+    .map(hextet => hextet.toString(16).padStart(4, '0'))
+    .join(':');
+
+/**
+ * If the address is IPv4-mapped IPv6 (::ffff:a.b.c.d) return the embedded IPv4 address
+ */
+export const unmapIPv4 = (parsed: ParsedIP): ParsedIP => {
+  if (parsed.version === 6 && parsed.value >> 32n === 0xffffn) {
+    return { version: 4, value: parsed.value & 0xffffffffn };
+  }
+  return parsed;
+};
+
+export const mapIPv4 = (value: bigint): bigint => IPV4_MAPPED_PREFIX | value;
+
+/**
+ * Netmask for a prefix length, as a number of the family's width
+ */
+export const prefixMask = (prefixLength: number, version: IPVersion): bigint => {
+  const bits = BigInt(ADDRESS_BITS[version]);
+  const all = (1n << bits) - 1n;
+  return (all << (bits - BigInt(prefixLength))) & all;
+};
+
+/**
+ * Parse CIDR notation. A bare address is treated as a host prefix (/32 or /128).
+ * Host bits are cleared unless `strict` is set, in which case they are rejected.
+ */
+export const parseCIDR = (cidr: string, strict: boolean = false): ParsedCIDR => {
+  const [addressPart = '', prefixPart, ...rest] = cidr.trim().split('/');
+  const parsed = parseIP(addressPart);
+
+  if (!parsed || rest.length > 0) {
+    throw new Error(`Invalid CIDR notation: ${cidr}`);
+  }
+
+  const maxBits = ADDRESS_BITS[parsed.version];
+  const prefixLength = prefixPart === undefined ? maxBits : Number(prefixPart);
+
+  if (!/^\d{1,3}$/.test(prefixPart ?? String(maxBits)) || prefixLength < 0 || prefixLength > maxBits) {
+    throw new Error(`Invalid prefix length in ${cidr}: must be between 0 and ${maxBits}`);
+  }
+
+  const mask = prefixMask(prefixLength, parsed.version);
+  const network = parsed.value & mask;
+
+  if (strict && network !== parsed.value) {
+    throw new Error(`${cidr} has host bits set (network is ${bigIntToIP(network, parsed.version)}/${prefixLength})`);
+  }
+
+  const hostMask = ((1n << BigInt(maxBits)) - 1n) ^ mask;
+
+  return {
+    version: parsed.version,
+    prefixLength,
+    network,
+    broadcast: network | hostMask
+  };
+};
+
+export const formatCIDR = (network: bigint, prefixLength: number, version: IPVersion): string =>
+  `${bigIntToIP(network, version)}/${prefixLength}`;
+
+/**
+ * Check whether an address lies inside a parsed prefix
+ */
+export const cidrContains = (cidr: ParsedCIDR, address: ParsedIP): boolean => {
+  const candidate = cidr.version === 4 ? unmapIPv4(address) : address;
+  return candidate.version === cidr.version && candidate.value >= cidr.network && candidate.value <= cidr.broadcast;
+};
+
+/**
+ * Smallest list of prefixes that covers start..end exactly
+ */
+export const rangeToCIDRs = (start: bigint, end: bigint, version: IPVersion): ParsedCIDR[] => {
+  const bits = ADDRESS_BITS[version];
+  const prefixes: ParsedCIDR[] = [];
+  let current = start;
+
+  while (current <= end) {
+    // Largest block aligned on the current address that does not run past the end
+    let hostBits = 0;
+    while (hostBits < bits && ((current >> BigInt(hostBits)) & 1n) === 0n) hostBits++;
+    while (current + (1n << BigInt(hostBits)) - 1n > end) hostBits--;
+
+    const broadcast = current + (1n << BigInt(hostBits)) - 1n;
+    prefixes.push({ version, prefixLength: bits - hostBits, network: current, broadcast });
+    current = broadcast + 1n;
+  }
+
+  return prefixes;
+};
+
+/**
+ * Sort ranges (IPv4 first) and merge those that overlap or touch
+ */
+export const mergeRanges = (ranges: AddressRange[]): AddressRange[] => {
+  const sorted = [...ranges].sort((a, b) =>
+    a.version !== b.version ? a.version - b.version : a.start < b.start ? -1 : a.start > b.start ? 1 : 0
+  );
+
+  const merged: AddressRange[] = [];
+  for (const range of sorted) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.version === range.version && range.start <= previous.end + 1n) {
+      if (range.end > previous.end) previous.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+// Internal helpers
+
+function stripZone(address: string): string {
+  // fe80::1%eth0 - the zone index is not part of the address value
+  const zoneIndex = address.indexOf('%');
+  return zoneIndex === -1 ? address : address.slice(0, zoneIndex);
+}
+
+function ipv4ToBigInt(address: string): bigint {
+  return address.split('.').reduce((acc, octet) => (acc << 8n) | BigInt(parseInt(octet, 10)), 0n);
+}
+
+function ipv6ToBigInt(address: string): bigint {
+  let normalized = address.toLowerCase();
+
+  // Embedded IPv4 tail (::ffff:192.0.2.1, 64:ff9b::198.51.100.1)
+  const lastColon = normalized.lastIndexOf(':');
+  const tail = normalized.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const v4 = ipv4ToBigInt(tail);
+    normalized = `${normalized.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const [head = '', rest] = normalized.split('::');
+  const headParts = head === '' ? [] : head.split(':');
+  const tailParts = rest === undefined || rest === '' ? [] : rest.split(':');
+  const missing = 8 - headParts.length - tailParts.length;
+  const hextets = [...headParts, ...new Array<string>(rest === undefined ? 0 : missing).fill('0'), ...tailParts];
+
+  return hextets.reduce((acc, hextet) => (acc << 16n) | BigInt(parseInt(hextet, 16)), 0n);
+}
+
+function ipv6Hextets(value: bigint): number[] {
+  const hextets: number[] = [];
+  for (let shift = 112n; shift >= 0n; shift -= 16n) {
+    hextets.push(Number((value >> shift) & 0xffffn));
+  }
+  return hextets;
+}
+
+function compressIPv6(hextets: number[]): string {
+  // RFC 5952: compress the longest run (>= 2) of zero hextets, leftmost on ties
+  let bestStart = -1;
+  let bestLength = 0;
+  let runStart = -1;
+
+  hextets.forEach((hextet, index) => {
+    if (hextet === 0) {
+      if (runStart === -1) runStart = index;
+      const runLength = index - runStart + 1;
+      if (runLength > bestLength) {
+        bestStart = runStart;
+        bestLength = runLength;
+      }
+    } else {
+      runStart = -1;
+    }
+  });
+
+  const parts = hextets.map(hextet => hextet.toString(16));
+  if (bestLength < 2) {
+    return parts.join(':');
+  }
+
+  const head = parts.slice(0, bestStart).join(':');
+  const tail = parts.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
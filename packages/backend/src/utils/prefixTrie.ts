@@ -0,0 +1,166 @@
+import { ADDRESS_BITS, IPVersion, parseCIDR, parseIP, prefixMask, unmapIPv4 } from './ipAddress';
+
+export interface PrefixEntry<T> {
+  version: IPVersion;
+  network: bigint;
+  prefixLength: number;
+  value: T;
+}
+
+export interface PrefixMatch<T> {
+  version: IPVersion;
+  network: bigint;
+  prefixLength: number;
+  values: T[];
+}
+
+interface TrieNode<T> {
+  network: bigint;
+  prefixLength: number;
+  values: T[];
+  children: [TrieNode<T> | null, TrieNode<T> | null];
+}
+
+/**
+ * Path-compressed binary radix tree over IPv4 and IPv6 prefixes.
+ *
+ * Unlike the RangeIndex, which keeps only the most specific range per address, the
+ * trie keeps every prefix: a lookup walks at most one node per bit and returns all
+ * prefixes covering the address, least specific first. Nodes only exist where
+ * prefixes are stored or branch, so memory grows with the number of prefixes.
+ */
+export class PrefixTrie<T> {
+  private readonly roots: Record<IPVersion, TrieNode<T>>;
+  private count = 0;
+
+  private constructor() {
+    this.roots = { 4: PrefixTrie.node(0n, 0), 6: PrefixTrie.node(0n, 0) };
+  }
+
+  /**
+   * Build a trie from prefix entries. Entries may be in any order and repeat a prefix.
+   */
+  static build<T>(entries: Iterable<PrefixEntry<T>>): PrefixTrie<T> {
+    const trie = new PrefixTrie<T>();
+    for (const entry of entries) {
+      trie.insert(entry);
+    }
+    return trie;
+  }
+
+  /**
+   * Every prefix covering an address, least specific first.
+   * IPv4-mapped IPv6 addresses are looked up in the IPv4 tree.
+   */
+  matches(ipAddress: string): PrefixMatch<T>[] {
+    const parsed = parseIP(ipAddress);
+    if (!parsed) return [];
+
+    const { version, value } = unmapIPv4(parsed);
+    return this.matchValue(version, value);
+  }
+
+  /**
+   * Every prefix covering an already-parsed address, least specific first
+   */
+  matchValue(version: IPVersion, value: bigint): PrefixMatch<T>[] {
+    const bits = ADDRESS_BITS[version];
+    const matches: PrefixMatch<T>[] = [];
+    let node: TrieNode<T> | null = this.roots[version];
+
+    while (node && (value & prefixMask(node.prefixLength, version)) === node.network) {
+      if (node.values.length > 0) {
+        matches.push({ version, network: node.network, prefixLength: node.prefixLength, values: node.values });
+      }
+      if (node.prefixLength === bits) break;
+      node = node.children[PrefixTrie.bitAt(value, node.prefixLength, bits)];
+    }
+
+    return matches;
+  }
+
+  /**
+   * Most specific prefix covering an address
+   */
+  longestMatch(ipAddress: string): PrefixMatch<T> | null {
+    return this.matches(ipAddress).pop() ?? null;
+  }
+
+  /**
+   * Number of inserted entries
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  private insert({ version, network, prefixLength, value }: PrefixEntry<T>): void {
+    const bits = ADDRESS_BITS[version];
+    let node = this.roots[version];
+    this.count++;
+
+    for (;;) {
+      if (node.prefixLength === prefixLength) {
+        node.values.push(value);
+        return;
+      }
+
+      const side = PrefixTrie.bitAt(network, node.prefixLength, bits);
+      const child = node.children[side];
+      if (!child) {
+        node.children[side] = PrefixTrie.node(network, prefixLength, value);
+        return;
+      }
+
+      const common = PrefixTrie.commonLength(child.network, network, Math.min(child.prefixLength, prefixLength), bits);
+      if (common === child.prefixLength) {
+        node = child;
+        continue;
+      }
+
+      // The new prefix covers the child and takes its place
+      if (common === prefixLength) {
+        const parent = PrefixTrie.node(network, prefixLength, value);
+        parent.children[PrefixTrie.bitAt(child.network, common, bits)] = child;
+        node.children[side] = parent;
+        return;
+      }
+
+      // The two diverge: branch at the first differing bit
+      const branch = PrefixTrie.node<T>(network & prefixMask(common, version), common);
+      branch.children[PrefixTrie.bitAt(child.network, common, bits)] = child;
+      branch.children[PrefixTrie.bitAt(network, common, bits)] = PrefixTrie.node(network, prefixLength, value);
+      node.children[side] = branch;
+      return;
+    }
+  }
+
+  private static node<T>(network: bigint, prefixLength: number, value?: T): TrieNode<T> {
+    return { network, prefixLength, values: value !== undefined ? [value] : [], children: [null, null] };
+  }
+
+  // Bit at a position counted from the most significant bit
+  private static bitAt(value: bigint, position: number, bits: number): 0 | 1 {
+    return ((value >> BigInt(bits - position - 1)) & 1n) === 1n ? 1 : 0;
+  }
+
+  private static commonLength(a: bigint, b: bigint, limit: number, bits: number): number {
+    const difference = a ^ b;
+    const common = difference === 0n ? bits : bits - difference.toString(2).length;
+    return Math.min(common, limit);
+  }
+}
+
+/**
+ * Create a prefix entry from CIDR notation; host bits are cleared. IPv4-mapped prefixes
+ * (::ffff:0:0/96 and longer) become IPv4 prefixes, since lookups unmap addresses too.
+ */
+export const prefixEntry = <T>(cidr: string, value: T): PrefixEntry<T> => {
+  const { version, network, prefixLength } = parseCIDR(cidr);
+  const mappedBits = ADDRESS_BITS[6] - ADDRESS_BITS[4];
+  const unmapped = unmapIPv4({ version, value: network });
+
+  if (unmapped.version !== version && prefixLength >= mappedBits) {
+    return { version: 4, network: unmapped.value, prefixLength: prefixLength - mappedBits, value };
+  }
+  return { version, network, prefixLength, value };
+};
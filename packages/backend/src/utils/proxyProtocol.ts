@@ -0,0 +1,256 @@
+import { ProxyProtocolInfo, ProxyProtocolSSLInfo, ProxyProtocolTLV } from '@/types/ip';
+import { isIP } from 'net';
+import { bigIntToIP } from './ipAddress';
+
+export type ProxyHeaderResult =
+  | { status: 'incomplete' }
+  | { status: 'absent' }
+  | { status: 'parsed'; info: ProxyProtocolInfo; length: number };
+
+const V1_SIGNATURE = Buffer.from('PROXY ', 'ascii');
+const V2_SIGNATURE = Buffer.from([0x0d, 0x0a, 0x0d, 0x0a, 0x00, 0x0d, 0x0a, 0x51, 0x55, 0x49, 0x54, 0x0a]);
+const V2_HEADER_LENGTH = 16;
+// "PROXY TCP6 <39> <39> 65535 65535\r\n"
+const V1_MAX_LENGTH = 107;
+
+const TLV_NAMES: Record<number, string> = {
+  0x01: 'ALPN',
+  0x02: 'AUTHORITY',
+  0x03: 'CRC32C',
+  0x04: 'NOOP',
+  0x05: 'UNIQUE_ID',
+  0x20: 'SSL',
+  0x30: 'NETNS',
+  0xea: 'AWS',
+  0xee: 'AZURE'
+};
+
+const TEXT_TLVS = new Set([0x01, 0x02, 0x30]);
+
+const SSL_SUB_TLVS: Record<number, keyof ProxyProtocolSSLInfo> = {
+  0x21: 'version',
+  0x22: 'commonName',
+  0x23: 'cipher',
+  0x24: 'signatureAlgorithm',
+  0x25: 'keyAlgorithm'
+};
+
+/**
+ * Parse a PROXY protocol header (v1 text or v2 binary) at the start of a connection.
+ * Returns 'incomplete' while more bytes are needed, 'absent' when the data does not
+ * start with a PROXY signature, and throws when a header is present but malformed.
+ */
+export const parseProxyHeader = (buffer: Buffer): ProxyHeaderResult => {
+  if (startsWith(buffer, V2_SIGNATURE)) {
+    return buffer.length < V2_SIGNATURE.length ? { status: 'incomplete' } : parseV2(buffer);
+  }
+  if (startsWith(buffer, V1_SIGNATURE)) {
+    return buffer.length < V1_SIGNATURE.length ? { status: 'incomplete' } : parseV1(buffer);
+  }
+  return { status: 'absent' };
+};
+
+// Internal helpers
+
+/**
+ * Whether the buffer starts with the signature, or is a prefix of it
+ */
+function startsWith(buffer: Buffer, signature: Buffer): boolean {
+  const length = Math.min(buffer.length, signature.length);
+  return length > 0 && buffer.subarray(0, length).equals(signature.subarray(0, length));
+}
+
+function parseV1(buffer: Buffer): ProxyHeaderResult {
+  const end = buffer.subarray(0, V1_MAX_LENGTH).indexOf('\r\n');
+  if (end === -1) {
+    if (buffer.length < V1_MAX_LENGTH) return { status: 'incomplete' };
+    throw new Error('PROXY protocol v1 header is not terminated within 107 bytes');
+  }
+
+  const [, transport, source, destination, sourcePort, destinationPort, ...rest] = buffer
+    .subarray(0, end)
+    .toString('ascii')
+    .split(' ');
+  const length = end + 2;
+
+  if (transport === 'UNKNOWN') {
+    // Addresses after UNKNOWN are to be ignored
+    return { status: 'parsed', length, info: { version: 1, command: 'PROXY', transport: 'UNKNOWN', tlvs: [] } };
+  }
+  if (transport !== 'TCP4' && transport !== 'TCP6') {
+    throw new Error(`Unsupported PROXY protocol v1 transport: ${transport ?? ''}`);
+  }
+
+  const family = transport === 'TCP4' ? 4 : 6;
+  if (
+    source === undefined ||
+    destination === undefined ||
+    rest.length > 0 ||
+    isIP(source) !== family ||
+    isIP(destination) !== family
+  ) {
+    throw new Error(`Malformed PROXY protocol v1 ${transport} header`);
+  }
+
+  return {
+    status: 'parsed',
+    length,
+    info: {
+      version: 1,
+      command: 'PROXY',
+      transport,
+      sourceAddress: source,
+      sourcePort: parsePort(sourcePort),
+      destinationAddress: destination,
+      destinationPort: parsePort(destinationPort),
+      tlvs: []
+    }
+  };
+}
+
+function parsePort(value: string | undefined): number {
+  const port = Number(value);
+  if (value === undefined || !/^\d{1,5}$/.test(value) || port > 65535) {
+    throw new Error(`Invalid PROXY protocol port: ${value ?? ''}`);
+  }
+  return port;
+}
+
+function parseV2(buffer: Buffer): ProxyHeaderResult {
+  if (buffer.length < V2_HEADER_LENGTH) return { status: 'incomplete' };
+
+  const versionCommand = buffer.readUInt8(12);
+  const familyProtocol = buffer.readUInt8(13);
+  const length = V2_HEADER_LENGTH + buffer.readUInt16BE(14);
+
+  if (versionCommand >> 4 !== 2) {
+    throw new Error(`Unsupported PROXY protocol version ${versionCommand >> 4}`);
+  }
+  if (buffer.length < length) return { status: 'incomplete' };
+
+  const command = (versionCommand & 0x0f) === 0 ? 'LOCAL' : (versionCommand & 0x0f) === 1 ? 'PROXY' : null;
+  if (command === null) {
+    throw new Error(`Unsupported PROXY protocol v2 command ${versionCommand & 0x0f}`);
+  }
+
+  const payload = buffer.subarray(V2_HEADER_LENGTH, length);
+  const family = familyProtocol >> 4;
+  const datagram = (familyProtocol & 0x0f) === 2;
+  const addressLength = family === 1 ? 12 : family === 2 ? 36 : family === 3 ? 216 : 0;
+
+  if (payload.length < addressLength) {
+    throw new Error('PROXY protocol v2 address block is truncated');
+  }
+
+  const info: ProxyProtocolInfo = {
+    version: 2,
+    command,
+    transport:
+      family === 1 ? (datagram ? 'UDP4' : 'TCP4') : family === 2 ? (datagram ? 'UDP6' : 'TCP6') : family === 3 ? 'UNIX' : 'UNKNOWN',
+    tlvs: []
+  };
+
+  // LOCAL connections (health checks from the proxy itself) carry no client address
+  if (command === 'PROXY' && (family === 1 || family === 2)) {
+    const size = family === 1 ? 4 : 16;
+    const version = family === 1 ? 4 : 6;
+    info.sourceAddress = bigIntToIP(readAddress(payload, 0, size), version);
+    info.destinationAddress = bigIntToIP(readAddress(payload, size, size), version);
+    info.sourcePort = payload.readUInt16BE(size * 2);
+    info.destinationPort = payload.readUInt16BE(size * 2 + 2);
+  }
+
+  applyTLVs(info, payload.subarray(addressLength));
+  return { status: 'parsed', info, length };
+}
+
+function readAddress(payload: Buffer, offset: number, size: number): bigint {
+  return BigInt(`0x${payload.subarray(offset, offset + size).toString('hex')}`);
+}
+
+function readTLVs(buffer: Buffer): { type: number; value: Buffer }[] {
+  const tlvs: { type: number; value: Buffer }[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    if (offset + 3 > buffer.length) {
+      throw new Error('PROXY protocol v2 TLV header is truncated');
+    }
+    const type = buffer.readUInt8(offset);
+    const length = buffer.readUInt16BE(offset + 1);
+    if (offset + 3 + length > buffer.length) {
+      throw new Error(`PROXY protocol v2 TLV 0x${type.toString(16)} is truncated`);
+    }
+    tlvs.push({ type, value: buffer.subarray(offset + 3, offset + 3 + length) });
+    offset += 3 + length;
+  }
+
+  return tlvs;
+}
+
+function applyTLVs(info: ProxyProtocolInfo, buffer: Buffer): void {
+  for (const { type, value } of readTLVs(buffer)) {
+    if (type === 0x04) continue; // NOOP padding
+
+    const tlv: ProxyProtocolTLV = {
+      type,
+      name: TLV_NAMES[type] ?? `0x${type.toString(16).padStart(2, '0')}`,
+      value: TEXT_TLVS.has(type) ? value.toString('utf8') : value.toString('hex')
+    };
+
+    switch (type) {
+      case 0x01:
+        info.alpn = tlv.value;
+        break;
+      case 0x02:
+        info.authority = tlv.value;
+        break;
+      case 0x05:
+        info.uniqueId = tlv.value;
+        break;
+      case 0x20:
+        info.ssl = parseSSL(value);
+        break;
+      case 0xea:
+        // AWS subtype 0x01: VPC endpoint ID of the NLB endpoint service connection
+        if (value.length > 1 && value.readUInt8(0) === 0x01) {
+          info.awsVpcEndpointId = value.subarray(1).toString('ascii');
+          tlv.value = info.awsVpcEndpointId;
+        }
+        break;
+      case 0xee:
+        // Azure subtype 0x01: Private Link LinkID (little-endian uint32)
+        if (value.length >= 5 && value.readUInt8(0) === 0x01) {
+          info.azureLinkId = value.readUInt32LE(1);
+          tlv.value = String(info.azureLinkId);
+        }
+        break;
+    }
+
+    info.tlvs.push(tlv);
+  }
+}
+
+function parseSSL(value: Buffer): ProxyProtocolSSLInfo {
+  if (value.length < 5) {
+    throw new Error('PROXY protocol v2 SSL TLV is truncated');
+  }
+
+  const client = value.readUInt8(0);
+  const ssl: ProxyProtocolSSLInfo = {
+    connectedWithSSL: (client & 0x01) !== 0,
+    certificateInConnection: (client & 0x02) !== 0,
+    certificateInSession: (client & 0x04) !== 0,
+    // verify is 0 when the client presented a certificate that was verified
+    verified: value.readUInt32BE(1) === 0
+  };
+
+  for (const { type, value: subValue } of readTLVs(value.subarray(5))) {
+    const field = SSL_SUB_TLVS[type];
+    if (field !== undefined) {
+      Object.assign(ssl, { [field]: subValue.toString('utf8') });
+    }
+  }
+
+  return ssl;
+}
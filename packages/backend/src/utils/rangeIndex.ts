@@ -0,0 +1,187 @@
+import { IPVersion, parseCIDR, parseIP, unmapIPv4 } from './ipAddress';
+
+export interface RangeEntry<T> {
+  version: IPVersion;
+  start: bigint;
+  end: bigint;
+  value: T;
+}
+
+interface FamilyIndex<T> {
+  starts: bigint[];
+  ends: bigint[];
+  values: T[];
+}
+
+/**
+ * Sorted interval index over IPv4 and IPv6 ranges.
+ *
+ * Ranges are flattened into non-overlapping segments at build time (a nested
+ * range wins over the range that contains it), so a lookup is a single binary
+ * search over the segment starts of the address family.
+ */
+export class RangeIndex<T> {
+  private readonly families: Record<IPVersion, FamilyIndex<T>>;
+
+  private constructor(families: Record<IPVersion, FamilyIndex<T>>) {
+    this.families = families;
+  }
+
+  /**
+   * Build an index from range entries. Entries may be in any order.
+   */
+  static build<T>(entries: Iterable<RangeEntry<T>>): RangeIndex<T> {
+    const byVersion: Record<IPVersion, RangeEntry<T>[]> = { 4: [], 6: [] };
+
+    for (const entry of entries) {
+      if (entry.end < entry.start) {
+        throw new Error(`Invalid range: end is before start (${entry.start} > ${entry.end})`);
+      }
+      byVersion[entry.version].push(entry);
+    }
+
+    return new RangeIndex({
+      4: RangeIndex.flatten(byVersion[4]),
+      6: RangeIndex.flatten(byVersion[6])
+    });
+  }
+
+  static empty<T>(): RangeIndex<T> {
+    return RangeIndex.build<T>([]);
+  }
+
+  /**
+   * Find the value for an address, or null if no range covers it.
+   * IPv4-mapped IPv6 addresses are looked up in the IPv4 table.
+   */
+  lookup(ipAddress: string): T | null {
+    const parsed = parseIP(ipAddress);
+    if (!parsed) return null;
+
+    const { version, value } = unmapIPv4(parsed);
+    return this.lookupValue(version, value);
+  }
+
+  /**
+   * Find the value for an already-parsed address
+   */
+  lookupValue(version: IPVersion, value: bigint): T | null {
+    const { starts, ends, values } = this.families[version];
+
+    let low = 0;
+    let high = starts.length - 1;
+    let candidate = -1;
+
+    // Last segment whose start is <= value
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      if ((starts[mid] as bigint) <= value) {
+        candidate = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (candidate === -1 || (ends[candidate] as bigint) < value) {
+      return null;
+    }
+    return values[candidate] as T;
+  }
+
+  /**
+   * Number of indexed segments per family
+   */
+  get size(): Record<IPVersion, number> {
+    return { 4: this.families[4].starts.length, 6: this.families[6].starts.length };
+  }
+
+  /**
+   * Iterate over the flattened segments, optionally for a single family
+   */
+  *entries(only?: IPVersion): IterableIterator<RangeEntry<T>> {
+    for (const version of only !== undefined ? [only] : ([4, 6] as const)) {
+      const { starts, ends, values } = this.families[version];
+      for (let i = 0; i < starts.length; i++) {
+        yield { version, start: starts[i] as bigint, end: ends[i] as bigint, value: values[i] as T };
+      }
+    }
+  }
+
+  private static flatten<T>(entries: RangeEntry<T>[]): FamilyIndex<T> {
+    const index: FamilyIndex<T> = { starts: [], ends: [], values: [] };
+
+    // Outer ranges first so nested ranges are pushed on top of their parent
+    entries.sort((a, b) => {
+      if (a.start !== b.start) return a.start < b.start ? -1 : 1;
+      if (a.end !== b.end) return a.end > b.end ? -1 : 1;
+      return 0;
+    });
+
+    const emit = (start: bigint, end: bigint, value: T): void => {
+      if (start > end) return;
+
+      // Extend the previous segment when it is contiguous and carries the same value
+      const last = index.starts.length - 1;
+      if (last >= 0 && index.values[last] === value && (index.ends[last] as bigint) + 1n === start) {
+        index.ends[last] = end;
+        return;
+      }
+
+      index.starts.push(start);
+      index.ends.push(end);
+      index.values.push(value);
+    };
+
+    const stack: RangeEntry<T>[] = [];
+    let cursor = 0n;
+
+    const closeUntil = (position: bigint | null): void => {
+      while (stack.length > 0) {
+        const top = stack[stack.length - 1] as RangeEntry<T>;
+        if (position !== null && top.end >= position) break;
+        if (top.end >= cursor) {
+          emit(cursor, top.end, top.value);
+          cursor = top.end + 1n;
+        }
+        stack.pop();
+      }
+    };
+
+    for (const entry of entries) {
+      closeUntil(entry.start);
+
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        emit(cursor, entry.start - 1n, parent.value);
+      }
+
+      stack.push(entry);
+      cursor = entry.start;
+    }
+
+    closeUntil(null);
+    return index;
+  }
+}
+
+/**
+ * Create a range entry from first and last address strings
+ */
+export const rangeEntry = <T>(startIP: string, endIP: string, value: T): RangeEntry<T> => {
+  const start = parseIP(startIP);
+  const end = parseIP(endIP);
+
+  if (!start || !end || start.version !== end.version) {
+    throw new Error(`Invalid address range: ${startIP} - ${endIP}`);
+  }
+  return { version: start.version, start: start.value, end: end.value, value };
+};
+
+/**
+ * Create a range entry from CIDR notation
+ */
+export const cidrEntry = <T>(cidr: string, value: T): RangeEntry<T> => {
+  const parsed = parseCIDR(cidr);
+  return { version: parsed.version, start: parsed.network, end: parsed.broadcast, value };
+};
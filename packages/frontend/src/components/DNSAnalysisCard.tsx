@@ -334,6 +334,19 @@ export function DNSAnalysisCard({ ipAddress, className }: DNSAnalysisCardProps)
                   )}
                 </div>
               </div>
+
+              {dnsAnalysis.reputation.evidence && dnsAnalysis.reputation.evidence.length > 0 && (
+                <div>
+                  <span className="text-xs text-slate-600 dark:text-slate-400">Blocklist Listings</span>
+                  <ul className="mt-1 space-y-1">
+                    {dnsAnalysis.reputation.evidence.map((item, index) => (
+                      <li key={index} className="text-xs font-mono text-red-600 dark:text-red-400">
+                        {item}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
 
@@ -2,6 +2,7 @@ import { useCurrentIP } from '../hooks/useIPAnalysis';
 import { DetectedIPsCard } from './DetectedIPsCard';
 import { IPAnalysisCard } from './IPAnalysisCard';
 import { QuickAnalysisCard } from './QuickAnalysisCard';
+import { SubnetPlannerCard } from './SubnetPlannerCard';
 import { ThemeToggle } from './ThemeToggle';
 
 // Import visualization components
@@ -50,10 +51,15 @@ export function Dashboard(): React.JSX.Element {
               <DNSAnalysisCard ipAddress={currentIPAnalysis?.ip.primaryIP?.address} className="animate-fade-in" />
             </div>
 
-            {/* Bottom Row - Detected IPs - Full width */}
+            {/* Detected IPs - Full width */}
             <div>
               <DetectedIPsCard className="animate-fade-in" />
             </div>
+
+            {/* Bottom Row - Subnet Planner - Full width */}
+            <div>
+              <SubnetPlannerCard className="animate-fade-in" />
+            </div>
           </div>
         </main>
       </div>
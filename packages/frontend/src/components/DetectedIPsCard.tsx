@@ -1,6 +1,6 @@
-import { AlertTriangle, Eye, Network } from 'lucide-react';
-import { useDetailedAnalysis } from '../hooks/useIPAnalysis';
-import type { IPAddress } from '../types/api';
+import { AlertTriangle, ArrowDown, Eye, Network } from 'lucide-react';
+import { useDetailedAnalysis, useProxyChain } from '../hooks/useIPAnalysis';
+import type { IPAddress, ProxyHop, SpoofingIndicator } from '../types/api';
 import { LoadingSpinner } from './LoadingSpinner';
 import { Badge, ConfidenceBadge } from './ui/Badge';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
@@ -11,6 +11,7 @@ interface DetectedIPsCardProps {
 
 export function DetectedIPsCard({ className }: DetectedIPsCardProps) {
   const { data: analysis, isLoading, error } = useDetailedAnalysis();
+  const { data: chain } = useProxyChain();
 
   if (isLoading) {
     return (
@@ -73,7 +74,11 @@ export function DetectedIPsCard({ className }: DetectedIPsCardProps) {
       case 'private':
         return 'secondary';
       case 'reserved':
+      case 'documentation':
         return 'warning';
+      case 'cgnat':
+      case 'link-local':
+        return 'secondary';
       case 'loopback':
         return 'info';
       case 'multicast':
@@ -91,6 +96,14 @@ export function DetectedIPsCard({ className }: DetectedIPsCardProps) {
         return 'X-Real-IP';
       case 'cf-connecting-ip':
         return 'CF-Connecting-IP';
+      case 'true-client-ip':
+        return 'True-Client-IP';
+      case 'fastly-client-ip':
+        return 'Fastly-Client-IP';
+      case 'x-azure-clientip':
+        return 'X-Azure-ClientIP';
+      case 'proxy-protocol':
+        return 'PROXY Protocol';
       case 'socket':
         return 'Socket';
       case 'query-parameter':
@@ -100,6 +113,32 @@ export function DetectedIPsCard({ className }: DetectedIPsCardProps) {
     }
   };
 
+  const getSeverityVariant = (severity: SpoofingIndicator['severity']) => {
+    switch (severity) {
+      case 'high':
+        return 'danger';
+      case 'medium':
+        return 'warning';
+      default:
+        return 'secondary';
+    }
+  };
+
+  const getRoleLabel = (role: ProxyHop['role']) => {
+    switch (role) {
+      case 'client':
+        return 'Client';
+      case 'client-supplied':
+        return 'Client-supplied';
+      case 'peer':
+        return 'Peer';
+      default:
+        return 'Proxy';
+    }
+  };
+
+  const spoofing = analysis.spoofingIndicators;
+
   return (
     <Card className={className}>
       <CardHeader>
@@ -156,6 +195,112 @@ export function DetectedIPsCard({ className }: DetectedIPsCardProps) {
             </div>
           </div>
 
+          {/* Header Consistency */}
+          {spoofing && spoofing.indicators.length > 0 && (
+            <div
+              className={`rounded-lg p-4 border ${
+                spoofing.suspected
+                  ? 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20'
+                  : 'border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-900/20'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-slate-900 dark:text-slate-100 flex items-center">
+                  <AlertTriangle className="w-4 h-4 mr-2" />
+                  {spoofing.suspected ? 'Possible Header Spoofing' : 'Header Inconsistencies'}
+                </h3>
+                <Badge variant={spoofing.suspected ? 'danger' : 'warning'} size="sm">
+                  Risk {spoofing.riskScore}
+                </Badge>
+              </div>
+
+              <div className="space-y-2">
+                {spoofing.indicators.map((indicator, index) => (
+                  <div key={`${indicator.type}-${indicator.header}-${index}`} className="text-sm">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant={getSeverityVariant(indicator.severity)} size="sm">
+                        {indicator.severity}
+                      </Badge>
+                      <span className="text-slate-900 dark:text-slate-100">{indicator.description}</span>
+                    </div>
+                    {indicator.values.length > 0 && (
+                      <p className="font-mono text-xs text-slate-600 dark:text-slate-400 mt-1 ml-1">
+                        {indicator.values.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Connection Path */}
+          {chain && chain.hops.length > 1 && (
+            <div>
+              <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-3">Connection Path</h3>
+
+              <div className="space-y-1">
+                {chain.hops.map((hop, index) => (
+                  <div key={`${hop.address ?? hop.identifier}-${index}`}>
+                    {index > 0 && <ArrowDown className="w-4 h-4 mx-auto text-slate-400" />}
+                    <div
+                      className={`p-3 rounded-lg border ${
+                        hop.role === 'client'
+                          ? 'border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-900/20'
+                          : 'border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-800'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono font-semibold text-slate-900 dark:text-slate-100">
+                          {hop.address ?? hop.identifier}
+                          {hop.port && <span className="text-slate-500 dark:text-slate-400">:{hop.port}</span>}
+                        </span>
+                        <div className="flex items-center space-x-2">
+                          <Badge variant={hop.role === 'client-supplied' ? 'warning' : 'info'} size="sm">
+                            {getRoleLabel(hop.role)}
+                          </Badge>
+                          {hop.trusted && (
+                            <Badge variant="success" size="sm">
+                              Trusted proxy
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2 mt-2 text-sm text-slate-600 dark:text-slate-400">
+                        {hop.classification && (
+                          <Badge variant={getTypeVariant(hop.classification)} size="sm">
+                            {hop.classification}
+                          </Badge>
+                        )}
+                        {hop.sources.map(source => (
+                          <Badge key={source} variant="secondary" size="sm">
+                            {getSourceLabel(source)}
+                          </Badge>
+                        ))}
+                        {hop.network?.asn ? (
+                          <span>
+                            AS{hop.network.asn} {hop.network.asnOrganization}
+                          </span>
+                        ) : null}
+                        {hop.geolocation?.country && (
+                          <span>
+                            {[hop.geolocation.city, hop.geolocation.country].filter(Boolean).join(', ')}
+                          </span>
+                        )}
+                        {(hop.proto || hop.host) && (
+                          <span className="font-mono">
+                            {[hop.proto, hop.host].filter(Boolean).join('://')}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* IP Address List */}
           <div>
             <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-3">All Detected Addresses</h3>
@@ -192,6 +337,11 @@ export function DetectedIPsCard({ className }: DetectedIPsCardProps) {
                       <Badge variant="info" size="sm">
                         {getSourceLabel(ip.source)}
                       </Badge>
+                      {ip.trusted === false && (
+                        <Badge variant="warning" size="sm">
+                          Untrusted
+                        </Badge>
+                      )}
                     </div>
                   </div>
 
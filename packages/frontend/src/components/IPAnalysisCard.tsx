@@ -181,6 +181,29 @@ export function IPAnalysisCard({ className }: IPAnalysisCardProps) {
                   </div>
                 )}
 
+                {analysis.ip.network.cloud && (
+                  <div>
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Cloud Provider</p>
+                    <p className="font-medium text-slate-900 dark:text-slate-100">{analysis.ip.network.cloud.label}</p>
+                    <p className="font-mono text-xs text-slate-500 dark:text-slate-400">{analysis.ip.network.cloud.cidr}</p>
+                  </div>
+                )}
+
+                {analysis.ip.network.annotation && (
+                  <div>
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Annotated Network</p>
+                    <p className="font-medium text-slate-900 dark:text-slate-100">
+                      {analysis.ip.network.annotation.name}
+                      <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">
+                        ({analysis.ip.network.annotation.trustLevel})
+                      </span>
+                    </p>
+                    <p className="font-mono text-xs text-slate-500 dark:text-slate-400">
+                      {analysis.ip.network.annotation.cidr}
+                    </p>
+                  </div>
+                )}
+
                 {analysis.ip.network.asn && (
                   <div>
                     <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">ASN</p>
@@ -0,0 +1,267 @@
+import { AlertCircle, Calculator, LayoutGrid } from 'lucide-react';
+import { useState } from 'react';
+import { usePlanSubnets } from '../hooks/useIPAnalysis';
+import type { VLSMRequirement } from '../types/api';
+import { Badge } from './ui/Badge';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+
+interface SubnetPlannerCardProps {
+  className?: string | undefined;
+}
+
+// "HR: 50", "DMZ: 12 hosts" or "p2p links x 8: 2"
+const REQUIREMENT_PATTERN = /^(.+?)(?:\s+x\s*(\d+))?\s*:\s*(\d+)(?:\s*hosts?)?$/i;
+
+const parseRequirements = (text: string): { requirements: VLSMRequirement[]; invalid: string[] } => {
+  const requirements: VLSMRequirement[] = [];
+  const invalid: string[] = [];
+
+  text
+    .split(/[\n,]/)
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .forEach(line => {
+      const match = line.match(REQUIREMENT_PATTERN);
+      if (!match) {
+        invalid.push(line);
+        return;
+      }
+      const [, name = '', count, hosts = '0'] = match;
+      requirements.push({
+        name: name.trim(),
+        hosts: Number(hosts),
+        ...(count !== undefined && { count: Number(count) })
+      });
+    });
+
+  return { requirements, invalid };
+};
+
+export function SubnetPlannerCard({ className }: SubnetPlannerCardProps) {
+  const [parent, setParent] = useState('10.0.0.0/24');
+  const [requirementsText, setRequirementsText] = useState('HR: 50 hosts\nDMZ: 12 hosts\np2p links x 8: 2 hosts');
+  const [headroom, setHeadroom] = useState('0');
+  const [alignment, setAlignment] = useState('');
+
+  const planMutation = usePlanSubnets();
+  const { requirements, invalid } = parseRequirements(requirementsText);
+  const plan = planMutation.data;
+
+  const handlePlan = () => {
+    if (parent.trim() === '' || requirements.length === 0 || invalid.length > 0) return;
+
+    planMutation.mutate({
+      parent: parent.trim(),
+      requirements,
+      ...(headroom.trim() !== '' && { headroom: Number(headroom) }),
+      ...(alignment.trim() !== '' && { alignment: Number(alignment) })
+    });
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border rounded-md font-mono text-sm border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50';
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <LayoutGrid className="w-5 h-5 mr-2" />
+          Subnet Planner
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-6">
+          {/* Input Section */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="vlsm-parent"
+                  className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2"
+                >
+                  Parent Block
+                </label>
+                <input
+                  id="vlsm-parent"
+                  type="text"
+                  value={parent}
+                  onChange={e => setParent(e.target.value)}
+                  placeholder="e.g., 10.0.0.0/24 or 2001:db8::/48"
+                  className={inputClassName}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label
+                    htmlFor="vlsm-headroom"
+                    className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2"
+                  >
+                    Headroom %
+                  </label>
+                  <input
+                    id="vlsm-headroom"
+                    type="number"
+                    min="0"
+                    value={headroom}
+                    onChange={e => setHeadroom(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="vlsm-alignment"
+                    className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2"
+                  >
+                    Align to bits
+                  </label>
+                  <input
+                    id="vlsm-alignment"
+                    type="number"
+                    min="1"
+                    value={alignment}
+                    onChange={e => setAlignment(e.target.value)}
+                    placeholder="none"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="lg:col-span-2">
+              <label
+                htmlFor="vlsm-requirements"
+                className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2"
+              >
+                Requirements (one per line: name [x count]: hosts)
+              </label>
+              <textarea
+                id="vlsm-requirements"
+                rows={5}
+                value={requirementsText}
+                onChange={e => setRequirementsText(e.target.value)}
+                className={inputClassName}
+              />
+              {invalid.length > 0 && (
+                <div className="flex items-center mt-1 text-sm text-red-600 dark:text-red-400">
+                  <AlertCircle className="w-4 h-4 mr-1" />
+                  Could not read: {invalid.join(', ')}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <Button
+            onClick={handlePlan}
+            disabled={parent.trim() === '' || requirements.length === 0 || invalid.length > 0}
+            loading={planMutation.isPending}
+            icon={<Calculator className="w-4 h-4" />}
+          >
+            Plan Subnets
+          </Button>
+
+          {planMutation.isError && (
+            <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4">
+              <div className="flex items-center">
+                <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 mr-3" />
+                <div>
+                  <p className="font-medium text-red-900 dark:text-red-100">Planning Failed</p>
+                  <p className="text-sm text-red-700 dark:text-red-300">
+                    {planMutation.error?.message || 'Unable to plan the subnets'}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Plan Results */}
+          {plan && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  { label: 'Total', value: plan.totalAddresses },
+                  { label: 'Allocated', value: plan.allocatedAddresses },
+                  { label: 'Wasted', value: plan.wastedAddresses },
+                  { label: 'Free', value: plan.freeAddresses }
+                ].map(({ label, value }) => (
+                  <div key={label} className="bg-slate-50 dark:bg-slate-700 rounded-lg p-3">
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{label} addresses</p>
+                    <p className="font-mono font-semibold text-slate-900 dark:text-slate-100 break-all">{value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-600 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                      <th className="py-2 pr-4">Name</th>
+                      <th className="py-2 pr-4">Subnet</th>
+                      <th className="py-2 pr-4">Host Range</th>
+                      <th className="py-2 pr-4 text-right">Hosts</th>
+                      <th className="py-2 pr-4 text-right">Usable</th>
+                      <th className="py-2 text-right">Wasted</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.allocations.map(allocation => (
+                      <tr
+                        key={allocation.cidr}
+                        className="border-b border-slate-100 dark:border-slate-700/50 text-slate-900 dark:text-slate-100"
+                      >
+                        <td className="py-2 pr-4 font-medium">{allocation.name}</td>
+                        <td className="py-2 pr-4 font-mono">{allocation.cidr}</td>
+                        <td className="py-2 pr-4 font-mono text-xs">
+                          {allocation.firstHost} – {allocation.lastHost}
+                        </td>
+                        <td className="py-2 pr-4 text-right">
+                          {allocation.requestedHosts}
+                          {allocation.plannedHosts !== allocation.requestedHosts && (
+                            <span className="text-slate-500 dark:text-slate-400"> ({allocation.plannedHosts})</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-right font-mono">{allocation.usableHosts}</td>
+                        <td className="py-2 text-right font-mono">{allocation.wasted}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {plan.unallocated.length > 0 && (
+                <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-4 space-y-2">
+                  <p className="font-medium text-yellow-900 dark:text-yellow-100">Could not allocate</p>
+                  {plan.unallocated.map(subnet => (
+                    <div key={subnet.name} className="flex items-center justify-between text-sm">
+                      <span className="text-yellow-900 dark:text-yellow-100">
+                        {subnet.name} ({subnet.requestedHosts} hosts)
+                      </span>
+                      <span className="text-yellow-700 dark:text-yellow-300">{subnet.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Remaining free space</p>
+                {plan.free.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {plan.free.map(cidr => (
+                      <Badge key={cidr} variant="default" size="sm" className="font-mono">
+                        {cidr}
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-slate-500 dark:text-slate-400">{plan.parent} is fully allocated</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -214,6 +214,7 @@ describe('useIPAnalysis hooks', () => {
 
       expect(queryKeys.currentIP).toEqual(['ip', 'current']);
       expect(queryKeys.detailedAnalysis).toEqual(['ip', 'detailed']);
+      expect(queryKeys.proxyChain).toEqual(['ip', 'chain']);
       expect(queryKeys.specificIP('1.1.1.1')).toEqual(['ip', 'specific', '1.1.1.1']);
       expect(queryKeys.ipClassification('1.1.1.1')).toEqual(['ip', 'classification', '1.1.1.1']);
       expect(queryKeys.subnet('192.168.1.1', '255.255.255.0')).toEqual([
@@ -1,11 +1,12 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { IPProbeAPI } from '../services/api';
-import type { APIError } from '../types/api';
+import type { APIError, VLSMRequest } from '../types/api';
 
 // Query Keys
 export const queryKeys = {
   currentIP: ['ip', 'current'] as const,
   detailedAnalysis: ['ip', 'detailed'] as const,
+  proxyChain: ['ip', 'chain'] as const,
   specificIP: (ip: string) => ['ip', 'specific', ip] as const,
   ipClassification: (ip: string) => ['ip', 'classification', ip] as const,
   subnet: (ip: string, mask: string) => ['ip', 'subnet', ip, mask] as const,
@@ -40,6 +41,18 @@ export function useDetailedAnalysis() {
   });
 }
 
+// Hook for the proxy chain of the current request
+export function useProxyChain() {
+  return useQuery({
+    queryKey: queryKeys.proxyChain,
+    queryFn: IPProbeAPI.getProxyChain,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 3,
+    retryDelay: attemptIndex => Math.min(1000 * 2 ** attemptIndex, 30000)
+  });
+}
+
 // Hook for analyzing specific IP
 export function useSpecificIP(ipAddress: string, enabled = true) {
   return useQuery({
@@ -167,6 +180,16 @@ export function useAnalyzeIP() {
   });
 }
 
+// Mutation hook for planning subnets
+export function usePlanSubnets() {
+  return useMutation({
+    mutationFn: (request: VLSMRequest) => IPProbeAPI.planSubnets(request),
+    onError: (error: APIError) => {
+      console.error('Failed to plan subnets:', error);
+    }
+  });
+}
+
 // Utility hook for invalidating all IP-related queries
 export function useInvalidateIPQueries() {
   const queryClient = useQueryClient();
@@ -1,11 +1,20 @@
-import axios from 'axios';
-import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { APIResponse, IPAnalysis } from '../../types/api';
 import { IPProbeAPI } from '../api';
 
-// Mock axios
-vi.mock('axios');
-const mockedAxios = vi.mocked(axios, true);
+// The API module creates its axios instance on import, so axios.create must return the mock up front
+const mockClient = vi.hoisted(() => ({
+  get: vi.fn(),
+  post: vi.fn(),
+  interceptors: {
+    request: { use: vi.fn() },
+    response: { use: vi.fn() }
+  }
+}));
+
+vi.mock('axios', () => ({
+  default: { create: vi.fn(() => mockClient) }
+}));
 
 // Mock crypto.randomUUID
 Object.defineProperty(global, 'crypto', {
@@ -50,36 +59,17 @@ const mockAPIResponse: APIResponse<IPAnalysis> = {
 
 describe('IPProbeAPI', () => {
   beforeEach(() => {
-    vi.clearAllMocks();
-
-    // Mock axios.create to return a mock instance
-    const mockAxiosInstance = {
-      get: vi.fn(),
-      interceptors: {
-        request: {
-          use: vi.fn()
-        },
-        response: {
-          use: vi.fn()
-        }
-      }
-    };
-
-    (mockedAxios.create as any).mockReturnValue(mockAxiosInstance as any);
-  });
-
-  afterEach(() => {
-    vi.restoreAllMocks();
+    mockClient.get.mockReset();
+    mockClient.post.mockReset();
   });
 
   describe('getCurrentIP', () => {
     it('should fetch current IP analysis successfully', async () => {
-      const mockGet = vi.fn().mockResolvedValue({ data: mockAPIResponse });
-      (mockedAxios.create as any).mockReturnValue({ get: mockGet } as any);
+      mockClient.get.mockResolvedValueOnce({ data: mockAPIResponse });
 
       const result = await IPProbeAPI.getCurrentIP();
 
-      expect(mockGet).toHaveBeenCalledWith('/ip');
+      expect(mockClient.get).toHaveBeenCalledWith('/ip');
       expect(result).toEqual(mockIPAnalysis);
     });
 
@@ -91,10 +81,9 @@ describe('IPProbeAPI', () => {
         timestamp: new Date().toISOString()
       };
 
-      const mockGet = vi.fn().mockResolvedValue({ data: errorResponse });
-      (mockedAxios.create as any).mockReturnValue({ get: mockGet } as any);
+      mockClient.get.mockResolvedValueOnce({ data: errorResponse });
 
-      await expect(IPProbeAPI.getCurrentIP()).rejects.toThrow('Unable to detect IP address');
+      await expect(IPProbeAPI.getCurrentIP()).rejects.toThrow('IP_NOT_FOUND');
     });
 
     it('should throw error when API returns no data', async () => {
@@ -103,8 +92,7 @@ describe('IPProbeAPI', () => {
         timestamp: new Date().toISOString()
       };
 
-      const mockGet = vi.fn().mockResolvedValue({ data: responseWithoutData });
-      (mockedAxios.create as any).mockReturnValue({ get: mockGet } as any);
+      mockClient.get.mockResolvedValueOnce({ data: responseWithoutData });
 
       await expect(IPProbeAPI.getCurrentIP()).rejects.toThrow('Failed to get current IP analysis');
     });
@@ -112,12 +100,11 @@ describe('IPProbeAPI', () => {
 
   describe('analyzeSpecificIP', () => {
     it('should analyze specific IP address successfully', async () => {
-      const mockGet = vi.fn().mockResolvedValue({ data: mockAPIResponse });
-      (mockedAxios.create as any).mockReturnValue({ get: mockGet } as any);
+      mockClient.get.mockResolvedValueOnce({ data: mockAPIResponse });
 
       const result = await IPProbeAPI.analyzeSpecificIP('8.8.8.8');
 
-      expect(mockGet).toHaveBeenCalledWith('/ip/analyze', {
+      expect(mockClient.get).toHaveBeenCalledWith('/ip/analyze', {
         params: { ip: '8.8.8.8' }
       });
       expect(result).toEqual(mockIPAnalysis);
@@ -131,10 +118,9 @@ describe('IPProbeAPI', () => {
         timestamp: new Date().toISOString()
       };
 
-      const mockGet = vi.fn().mockResolvedValue({ data: errorResponse });
-      (mockedAxios.create as any).mockReturnValue({ get: mockGet } as any);
+      mockClient.get.mockResolvedValueOnce({ data: errorResponse });
 
-      await expect(IPProbeAPI.analyzeSpecificIP('invalid-ip')).rejects.toThrow('Invalid IP address format');
+      await expect(IPProbeAPI.analyzeSpecificIP('invalid-ip')).rejects.toThrow('INVALID_IP');
     });
   });
 
@@ -156,16 +142,39 @@ describe('IPProbeAPI', () => {
         timestamp: new Date().toISOString()
       };
 
-      const mockGet = vi.fn().mockResolvedValue({ data: mockDetailedResponse });
-      (mockedAxios.create as any).mockReturnValue({ get: mockGet } as any);
+      mockClient.get.mockResolvedValueOnce({ data: mockDetailedResponse });
 
       const result = await IPProbeAPI.getDetailedAnalysis();
 
-      expect(mockGet).toHaveBeenCalledWith('/ip/detailed');
+      expect(mockClient.get).toHaveBeenCalledWith('/ip/detailed');
       expect(result).toEqual(mockDetailedResponse.data);
     });
   });
 
+  describe('getProxyChain', () => {
+    it('should fetch the proxy chain successfully', async () => {
+      const mockChainResponse: APIResponse = {
+        success: true,
+        data: {
+          clientIP: '8.8.8.8',
+          hops: [
+            { address: '8.8.8.8', role: 'client', sources: ['x-forwarded-for'], trusted: false, classification: 'public' },
+            { address: '10.0.0.5', role: 'peer', sources: ['socket'], trusted: true, classification: 'private' }
+          ],
+          unmatchedForwarded: []
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      mockClient.get.mockResolvedValueOnce({ data: mockChainResponse });
+
+      const result = await IPProbeAPI.getProxyChain();
+
+      expect(mockClient.get).toHaveBeenCalledWith('/ip/chain');
+      expect(result).toEqual(mockChainResponse.data);
+    });
+  });
+
   describe('calculateSubnet', () => {
     it('should calculate subnet information successfully', async () => {
       const mockSubnetResponse: APIResponse = {
@@ -185,18 +194,56 @@ describe('IPProbeAPI', () => {
         timestamp: new Date().toISOString()
       };
 
-      const mockGet = vi.fn().mockResolvedValue({ data: mockSubnetResponse });
-      (mockedAxios.create as any).mockReturnValue({ get: mockGet } as any);
+      mockClient.get.mockResolvedValueOnce({ data: mockSubnetResponse });
 
       const result = await IPProbeAPI.calculateSubnet('192.168.1.100', '255.255.255.0');
 
-      expect(mockGet).toHaveBeenCalledWith('/ip/subnet', {
+      expect(mockClient.get).toHaveBeenCalledWith('/ip/subnet', {
         params: { ip: '192.168.1.100', mask: '255.255.255.0' }
       });
       expect(result).toEqual(mockSubnetResponse.data);
     });
   });
 
+  describe('planSubnets', () => {
+    it('should post the requirements and return the plan', async () => {
+      const mockPlanResponse: APIResponse = {
+        success: true,
+        data: {
+          parent: '10.0.0.0/24',
+          allocations: [
+            {
+              name: 'HR',
+              requestedHosts: 50,
+              plannedHosts: 50,
+              cidr: '10.0.0.0/26',
+              prefixLength: 26,
+              firstHost: '10.0.0.1',
+              lastHost: '10.0.0.62',
+              usableHosts: '62',
+              wasted: '12'
+            }
+          ],
+          unallocated: [],
+          totalAddresses: '256',
+          allocatedAddresses: '64',
+          wastedAddresses: '12',
+          freeAddresses: '192',
+          free: ['10.0.0.64/26', '10.0.0.128/25']
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      mockClient.post.mockResolvedValueOnce({ data: mockPlanResponse });
+
+      const request = { parent: '10.0.0.0/24', requirements: [{ name: 'HR', hosts: 50 }] };
+      const result = await IPProbeAPI.planSubnets(request);
+
+      expect(mockClient.post).toHaveBeenCalledWith('/cidr/vlsm', request);
+      expect(result).toEqual(mockPlanResponse.data);
+    });
+  });
+
   describe('compareIPs', () => {
     it('should compare two IP addresses successfully', async () => {
       const mockComparisonResponse: APIResponse = {
@@ -215,12 +262,11 @@ describe('IPProbeAPI', () => {
         timestamp: new Date().toISOString()
       };
 
-      const mockGet = vi.fn().mockResolvedValue({ data: mockComparisonResponse });
-      (mockedAxios.create as any).mockReturnValue({ get: mockGet } as any);
+      mockClient.get.mockResolvedValueOnce({ data: mockComparisonResponse });
 
       const result = await IPProbeAPI.compareIPs('8.8.8.8', '8.8.4.4');
 
-      expect(mockGet).toHaveBeenCalledWith('/ip/compare', {
+      expect(mockClient.get).toHaveBeenCalledWith('/ip/compare', {
         params: { ip1: '8.8.8.8', ip2: '8.8.4.4' }
       });
       expect(result).toEqual(mockComparisonResponse.data);
@@ -264,12 +310,11 @@ describe('IPProbeAPI', () => {
         timestamp: new Date().toISOString()
       };
 
-      const mockGet = vi.fn().mockResolvedValue({ data: mockDNSResponse });
-      (mockedAxios.create as any).mockReturnValue({ get: mockGet } as any);
+      mockClient.get.mockResolvedValueOnce({ data: mockDNSResponse });
 
       const result = await IPProbeAPI.getDNSAnalysis('8.8.8.8');
 
-      expect(mockGet).toHaveBeenCalledWith('/ip/dns', {
+      expect(mockClient.get).toHaveBeenCalledWith('/ip/dns', {
         params: { ip: '8.8.8.8' }
       });
       expect(result).toEqual(mockDNSResponse.data);
@@ -317,12 +362,11 @@ describe('IPProbeAPI', () => {
         timestamp: new Date().toISOString()
       };
 
-      const mockGet = vi.fn().mockResolvedValue({ data: mockSecurityResponse });
-      (mockedAxios.create as any).mockReturnValue({ get: mockGet } as any);
+      mockClient.get.mockResolvedValueOnce({ data: mockSecurityResponse });
 
       const result = await IPProbeAPI.getSecurityAssessment('8.8.8.8');
 
-      expect(mockGet).toHaveBeenCalledWith('/ip/security', {
+      expect(mockClient.get).toHaveBeenCalledWith('/ip/security', {
         params: { ip: '8.8.8.8' }
       });
       expect(result).toEqual(mockSecurityResponse.data);
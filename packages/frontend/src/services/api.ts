@@ -3,10 +3,13 @@ import type {
   APIResponse,
   IPAnalysis,
   DetailedIPAnalysis,
+  ProxyChain,
   DNSAnalysis,
   NetworkFingerprint,
   SecurityAssessment,
   SubnetInfo,
+  VLSMPlan,
+  VLSMRequest,
   IPComparison,
   APIError
 } from '../types/api';
@@ -118,6 +121,19 @@ export class IPProbeAPI {
     return response.data.data;
   }
 
+  /**
+   * Get the proxy chain from the client to the server
+   */
+  static async getProxyChain(): Promise<ProxyChain> {
+    const response = await apiClient.get<APIResponse<ProxyChain>>('/ip/chain');
+
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get proxy chain');
+    }
+
+    return response.data.data;
+  }
+
   /**
    * Analyze a specific IP address
    */
@@ -163,6 +179,19 @@ export class IPProbeAPI {
     return response.data.data;
   }
 
+  /**
+   * Plan variable-length subnets inside a parent block
+   */
+  static async planSubnets(request: VLSMRequest): Promise<VLSMPlan> {
+    const response = await apiClient.post<APIResponse<VLSMPlan>>('/cidr/vlsm', request);
+
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to plan subnets');
+    }
+
+    return response.data.data;
+  }
+
   /**
    * Get comprehensive network analysis
    */
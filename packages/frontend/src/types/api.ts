@@ -11,9 +11,19 @@ export interface APIResponse<T = any> {
 export interface IPAddress {
   address: string;
   version: 4 | 6;
-  type: 'public' | 'private' | 'reserved' | 'loopback' | 'multicast';
-  source: 'x-forwarded-for' | 'x-real-ip' | 'cf-connecting-ip' | 'socket' | 'query-parameter';
+  type:
+    | 'public'
+    | 'private'
+    | 'reserved'
+    | 'loopback'
+    | 'multicast'
+    | 'broadcast'
+    | 'cgnat'
+    | 'documentation'
+    | 'link-local';
+  source: string; // 'socket', 'proxy-protocol' or the lowercase name of a client IP header
   confidence: number;
+  trusted?: boolean;
 }
 
 export interface IPDetails {
@@ -48,6 +58,27 @@ export interface NetworkInfo {
   asnOrganization?: string;
   connectionType?: 'residential' | 'business' | 'mobile' | 'hosting' | 'unknown';
   domain?: string;
+  cloud?: CloudProviderInfo;
+  annotation?: NetworkAnnotation;
+}
+
+export interface NetworkAnnotation {
+  id: string;
+  cidr: string;
+  name: string;
+  owner?: string;
+  tags: string[];
+  trustLevel: 'trusted' | 'partner' | 'neutral' | 'untrusted';
+  location?: Partial<Geolocation>;
+  description?: string;
+}
+
+export interface CloudProviderInfo {
+  provider: string;
+  region?: string;
+  service?: string;
+  cidr: string;
+  label: string;
 }
 
 export interface SecurityInfo {
@@ -96,6 +127,63 @@ export interface IPAnalysis {
   timestamp: string;
 }
 
+export interface ForwardedNode {
+  type: 'ip' | 'unknown' | 'obfuscated' | 'invalid';
+  value: string;
+  port?: string;
+}
+
+export interface ForwardedElement {
+  for?: ForwardedNode;
+  by?: ForwardedNode;
+  proto?: string;
+  host?: string;
+  extensions?: Record<string, string>;
+  errors?: string[];
+}
+
+export interface ProxyHop {
+  address: string | null;
+  identifier?: string;
+  port?: string;
+  role: 'client' | 'client-supplied' | 'proxy' | 'peer';
+  sources: string[];
+  trusted: boolean;
+  classification?: IPAddress['type'];
+  geolocation?: Geolocation;
+  network?: Pick<NetworkInfo, 'asn' | 'asnOrganization' | 'organization' | 'isp'>;
+  proto?: string;
+  host?: string;
+  by?: string;
+}
+
+export interface ProxyChain {
+  hops: ProxyHop[];
+  clientIP: string | null;
+  unmatchedForwarded: ForwardedElement[];
+}
+
+export interface SpoofingIndicator {
+  type:
+    | 'private_ip_in_cdn_header'
+    | 'untrusted_forwarding_header'
+    | 'chain_not_anchored'
+    | 'forwarded_xff_mismatch'
+    | 'conflicting_client_headers'
+    | 'impossible_chain'
+    | 'malformed_chain';
+  severity: 'low' | 'medium' | 'high';
+  header: string;
+  description: string;
+  values: string[];
+}
+
+export interface SpoofingAnalysis {
+  suspected: boolean;
+  riskScore: number;
+  indicators: SpoofingIndicator[];
+}
+
 export interface DetailedIPAnalysis extends IPAnalysis {
   metadata: {
     totalIPsDetected: number;
@@ -105,6 +193,7 @@ export interface DetailedIPAnalysis extends IPAnalysis {
     highestConfidence: number;
     lowestConfidence: number;
   };
+  spoofingIndicators?: SpoofingAnalysis;
 }
 
 // DNS Analysis Types
@@ -136,10 +225,26 @@ export interface DNSAnalysis {
     isMalware: boolean;
     isSpam: boolean;
     riskScore: number;
+    dnsbl?: DnsblResult[];
+    evidence?: string[];
   };
   analysisTimestamp: string;
 }
 
+export interface DnsblResult {
+  zone: string;
+  name: string;
+  query: string;
+  status: 'listed' | 'not_listed' | 'unsupported' | 'error';
+  listings: {
+    code: string;
+    meaning: string;
+    category: string;
+    severity: 'low' | 'medium' | 'high' | 'critical';
+  }[];
+  error?: string;
+}
+
 // Network Fingerprinting Types
 export interface NetworkFingerprint {
   ipAddress: string;
@@ -210,17 +315,69 @@ export interface SecurityAssessment {
 }
 
 // Subnet Calculation Types
-export interface SubnetInfo {
+interface SubnetInfoBase {
+  cidr: string;
   network: string;
-  broadcast: string;
+  prefixLength: number;
   firstHost: string;
   lastHost: string;
-  totalHosts: number;
-  usableHosts: number;
+  totalAddresses: string;
+  parent: string | null;
+  children: string[];
+}
+
+export interface IPv4SubnetInfo extends SubnetInfoBase {
+  version: 4;
+  broadcast?: string; // Omitted for /31 and /32, which have no broadcast address
   subnetMask: string;
   wildcardMask: string;
+  totalHosts: number;
+  usableHosts: number;
+}
+
+export interface IPv6SubnetInfo extends SubnetInfoBase {
+  version: 6;
+  lastAddress: string;
+  subnets64: string;
+}
+
+export type SubnetInfo = IPv4SubnetInfo | IPv6SubnetInfo;
+
+// Subnet Planning Types
+export interface VLSMRequirement {
+  name: string;
+  hosts: number;
+  count?: number;
+}
+
+export interface VLSMRequest {
+  parent: string;
+  requirements: VLSMRequirement[];
+  headroom?: number;
+  alignment?: number;
+}
+
+export interface VLSMAllocation {
+  name: string;
+  requestedHosts: number;
+  plannedHosts: number;
   cidr: string;
-  binarySubnetMask: string;
+  prefixLength: number;
+  firstHost: string;
+  lastHost: string;
+  usableHosts: string;
+  wasted: string;
+}
+
+export interface VLSMPlan {
+  parent: string;
+  allocations: VLSMAllocation[];
+  unallocated: { name: string; requestedHosts: number; prefixLength: number | null; reason: string }[];
+  totalAddresses: string;
+  allocatedAddresses: string;
+  wastedAddresses: string;
+  freeAddresses: string;
+  free: string[];
 }
 
 // IP Comparison Types